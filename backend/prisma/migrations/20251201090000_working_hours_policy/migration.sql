@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "timeZone" TEXT;
+ALTER TABLE "User" ADD COLUMN "workDayStart" TEXT;
+ALTER TABLE "User" ADD COLUMN "workDayEnd" TEXT;
+ALTER TABLE "User" ADD COLUMN "workDays" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrganizationPolicy" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "domain" TEXT NOT NULL,
+    "timeZone" TEXT,
+    "workDayStart" TEXT,
+    "workDayEnd" TEXT,
+    "workDays" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationPolicy_domain_key" ON "OrganizationPolicy"("domain");
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "MeetingSeries" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "pattern" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "daysOfWeek" TEXT,
+    "endDate" TEXT,
+    "occurrences" INTEGER,
+    "timeZone" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Meeting" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "subject" TEXT NOT NULL,
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "organizerId" INTEGER NOT NULL,
+    "seriesId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Meeting_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Meeting_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "MeetingSeries" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Meeting" ("createdAt", "end", "id", "organizerId", "start", "subject") SELECT "createdAt", "end", "id", "organizerId", "start", "subject" FROM "Meeting";
+DROP TABLE "Meeting";
+ALTER TABLE "new_Meeting" RENAME TO "Meeting";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "bufferBeforeMinutes" INTEGER;
+ALTER TABLE "User" ADD COLUMN "bufferAfterMinutes" INTEGER;
+ALTER TABLE "User" ADD COLUMN "travelMinutes" INTEGER;
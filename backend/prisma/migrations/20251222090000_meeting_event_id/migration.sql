@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN "graphEventId" TEXT;
+ALTER TABLE "Meeting" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'scheduled';
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN "iCalUId" TEXT;
+ALTER TABLE "Meeting" ADD COLUMN "onlineMeetingUrl" TEXT;
+ALTER TABLE "Meeting" ADD COLUMN "location" TEXT;
+
+-- CreateTable
+CREATE TABLE "MeetingAttendee" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "meetingId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "type" TEXT NOT NULL,
+    "isInternal" BOOLEAN NOT NULL,
+    "responseStatus" TEXT NOT NULL DEFAULT 'none',
+    "respondedAt" DATETIME,
+    CONSTRAINT "MeetingAttendee_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "Meeting" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "MeetingHistory" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "meetingId" INTEGER NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT,
+    "details" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MeetingHistory_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "Meeting" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MeetingAttendee_meetingId_email_key" ON "MeetingAttendee"("meetingId", "email");
+
+-- CreateIndex
+CREATE INDEX "MeetingHistory_meetingId_idx" ON "MeetingHistory"("meetingId");
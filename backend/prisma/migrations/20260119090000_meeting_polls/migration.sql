@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "MeetingPoll" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "organizer" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "attendees" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "isOnlineMeeting" BOOLEAN,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "closesAt" DATETIME NOT NULL,
+    "finalSlotId" INTEGER,
+    "meetingId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "PollSlot" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "pollId" INTEGER NOT NULL,
+    "start" DATETIME NOT NULL,
+    "end" DATETIME NOT NULL,
+    "holdEventId" TEXT,
+    CONSTRAINT "PollSlot_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "MeetingPoll" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PollVoter" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "pollId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "respondedAt" DATETIME,
+    CONSTRAINT "PollVoter_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "MeetingPoll" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "PollVote" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "voterId" INTEGER NOT NULL,
+    "slotId" INTEGER NOT NULL,
+    "answer" TEXT NOT NULL,
+    CONSTRAINT "PollVote_voterId_fkey" FOREIGN KEY ("voterId") REFERENCES "PollVoter" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "PollVote_slotId_fkey" FOREIGN KEY ("slotId") REFERENCES "PollSlot" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PollVoter_pollId_email_key" ON "PollVoter"("pollId", "email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PollVote_voterId_slotId_key" ON "PollVote"("voterId", "slotId");
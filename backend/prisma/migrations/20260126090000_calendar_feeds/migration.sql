@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "CalendarFeed" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "url" TEXT,
+    "content" TEXT,
+    "addedBy" TEXT,
+    "lastFetchedAt" DATETIME,
+    "lastError" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarFeed_email_key" ON "CalendarFeed"("email");
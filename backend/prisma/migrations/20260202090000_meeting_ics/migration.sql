@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN "description" TEXT;
+ALTER TABLE "Meeting" ADD COLUMN "sequence" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN "calendarProvider" TEXT NOT NULL DEFAULT 'microsoft';
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "mailboxTimeZone" TEXT;
+ALTER TABLE "User" ADD COLUMN "department" TEXT;
+ALTER TABLE "User" ADD COLUMN "managerAzureId" TEXT;
+ALTER TABLE "User" ADD COLUMN "syncedAt" DATETIME;
+ALTER TABLE "User" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "DirectorySyncState" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "provider" TEXT NOT NULL,
+    "deltaLink" TEXT,
+    "lastRunAt" DATETIME,
+    "lastSuccessAt" DATETIME,
+    "lastError" TEXT,
+    "lastStats" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DirectorySyncState_provider_key" ON "DirectorySyncState"("provider");
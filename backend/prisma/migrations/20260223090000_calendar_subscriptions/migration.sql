@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "CalendarSubscription" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "subscriptionId" TEXT NOT NULL,
+    "clientState" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "lastUsedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarSubscription_email_key" ON "CalendarSubscription"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CalendarSubscription_subscriptionId_key" ON "CalendarSubscription"("subscriptionId");
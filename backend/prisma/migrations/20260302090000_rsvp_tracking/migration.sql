@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Meeting" ADD COLUMN "rsvpSyncedAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "OrganizationPolicy" ADD COLUMN "onRequiredDecline" TEXT;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "AgentCheckpoint" (
+    "threadId" TEXT NOT NULL,
+    "checkpointNs" TEXT NOT NULL DEFAULT '',
+    "checkpointId" TEXT NOT NULL,
+    "parentCheckpointId" TEXT,
+    "type" TEXT NOT NULL,
+    "checkpoint" BLOB NOT NULL,
+    "metadata" BLOB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("threadId", "checkpointNs", "checkpointId")
+);
+
+-- CreateTable
+CREATE TABLE "AgentCheckpointWrite" (
+    "threadId" TEXT NOT NULL,
+    "checkpointNs" TEXT NOT NULL DEFAULT '',
+    "checkpointId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "idx" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" BLOB NOT NULL,
+
+    PRIMARY KEY ("threadId", "checkpointNs", "checkpointId", "taskId", "idx")
+);
@@ -1,14 +1,68 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { agentGraph } from './graph/graph';
-import type { Slot } from './graph/state';
+import { llmConfigured } from './llm';
+import { describeSlot, rankDeterministically } from './graph/nodes/fallback-ranker';
+import type { RankedSlot, RankingContext, Slot } from './graph/state';
+const logger = new Logger('AgentService');
+
+export type RankedBy = 'llm' | 'fallback';
 
 @Injectable()
 export class AgentService {
-  async rankSlots(slots: Slot[], ctx: any = {}) {
-    const result = await agentGraph.invoke({
-      slots,
-      ctx
-    });
-    return result.final_ranked;
+  private timeoutMs = parseInt(process.env.AGENT_RANK_TIMEOUT_MS || '3000', 10);
+
+  /**
+   * Rank slots with the LLM graph, within AGENT_RANK_TIMEOUT_MS (0 turns the LLM off). If it is slow, fails or
+   * returns something that isn't a ranking of these slots, the deterministic ranker answers instead. The graph gets
+   * the same deadline, so it only asks the model to repair an answer when there is time left for it.
+   */
+  async rankSlots(slots: Slot[], ctx: RankingContext): Promise<{ ranked: RankedSlot[]; rankedBy: RankedBy }> {
+    if (slots.length === 0) return { ranked: [], rankedBy: 'fallback' };
+    if (this.timeoutMs <= 0 || !llmConfigured()) return { ranked: rankDeterministically(slots), rankedBy: 'fallback' };
+
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const result = await Promise.race([
+        agentGraph.invoke({ slots, ctx, deadline: Date.now() + this.timeoutMs }, { signal: controller.signal }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`no answer within ${this.timeoutMs}ms`)), this.timeoutMs);
+        }),
+      ]);
+      const ranked = result.ranked_json ? this.reconcile(slots, result.ranked_json) : null;
+      if (ranked) return { ranked, rankedBy: 'llm' };
+      logger.warn('LLM ranking was not usable; using the deterministic ranking');
+    } catch (error: any) {
+      logger.warn(`LLM ranking failed (${error?.message || error}); using the deterministic ranking`);
+    } finally {
+      clearTimeout(timer);
+      controller.abort();
+    }
+    return { ranked: rankDeterministically(slots), rankedBy: 'fallback' };
+  }
+
+  /**
+   * Keep the LLM's order for the slots it ranked (matched on start time), append any it left out in deterministic
+   * order, and normalize scores to 0-1. Null if it ranked none of the given slots.
+   */
+  private reconcile(slots: Slot[], llmRanked: any[]): RankedSlot[] | null {
+    const byStart = new Map(slots.map(s => [Date.parse(s.start), s]));
+    const ordered: { slot: Slot; score: number; reason: string }[] = [];
+    for (const item of llmRanked) {
+      const slot = byStart.get(Date.parse(item?.start));
+      if (!slot) continue;
+      byStart.delete(Date.parse(slot.start));
+      const raw = Number(item.score);
+      const score = Number.isFinite(raw) ? Math.min(1, Math.max(0, raw > 1 ? raw / 100 : raw)) : 0.5;
+      const reason = typeof item.reason === 'string' && item.reason.trim() ? item.reason.trim() : describeSlot(slot);
+      ordered.push({ slot, score, reason });
+    }
+    if (ordered.length === 0) return null;
+
+    const rest = rankDeterministically(slots.filter(s => byStart.has(Date.parse(s.start))));
+    return [
+      ...ordered.map(({ slot, score, reason }) => ({ start: slot.start, end: slot.end, score, reason })),
+      ...rest.map(r => ({ start: r.start, end: r.end, score: Math.min(r.score, ordered[ordered.length - 1].score), reason: r.reason })),
+    ].map((r, i) => ({ rank: i + 1, ...r }));
   }
 }
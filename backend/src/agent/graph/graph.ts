@@ -4,6 +4,8 @@ import type { Slot, RankedSlot, AgentState } from "./state";
 import { llmRankNode } from "./nodes/llm-rank";
 import { parseJSONNode } from "./nodes/parse-json";
 import { fallbackRankerNode } from "./nodes/fallback-ranker";
+import { repairNode } from "./nodes/repair";
+import { repairAttempts } from "../validation";
 
 // Define state using Annotation for LangGraph 1.0.2
 const AgentStateAnnotation = Annotation.Root({
@@ -21,6 +23,24 @@ const AgentStateAnnotation = Annotation.Root({
     value: (current, update) => update ?? current,
     default: () => null,
   }),
+  // Why the last answer was rejected, and how many times the model was asked to fix one
+  validation_errors: Annotation<string[]>({
+    value: (current, update) => update ?? current,
+    default: () => [],
+  }),
+  repair_attempts: Annotation<number>({
+    value: (current, update) => update ?? current,
+    default: () => 0,
+  }),
+  // When the caller stops waiting (epoch ms; null: no limit), and how long the last model call took
+  deadline: Annotation<number | null>({
+    value: (current, update) => update ?? current,
+    default: () => null,
+  }),
+  llm_call_ms: Annotation<number>({
+    value: (current, update) => update ?? current,
+    default: () => 0,
+  }),
 });
 
 // Export the state type for use in nodes
@@ -39,9 +59,14 @@ const goodJsonNode = (state: GraphState) => {
   };
 };
 
-// Conditional routing function
-function routeDecision(state: GraphState): "good_json" | "fallback" {
-  return state.ranked_json ? "good_json" : "fallback";
+// Conditional routing function: invalid answers go back to the model (up to LLM_REPAIR_ATTEMPTS times) with
+// what was wrong, then to the deterministic ranker. A repair is skipped when, taking as long as the last call did,
+// it couldn't finish before the deadline: the caller would have given up on it anyway.
+function routeDecision(state: GraphState): "good_json" | "repair" | "fallback" {
+  if (state.ranked_json) return "good_json";
+  if (state.repair_attempts >= repairAttempts()) return "fallback";
+  if (state.deadline !== null && Date.now() + state.llm_call_ms > state.deadline) return "fallback";
+  return "repair";
 }
 
 // Define the graph using StateGraph
@@ -51,6 +76,7 @@ const graph = new StateGraph(AgentStateAnnotation)
   .addNode("route", routeNode)
   .addNode("good_json", goodJsonNode)
   .addNode("fallback", fallbackRankerNode)
+  .addNode("repair", repairNode)
   // Linear edges
   .addEdge(START, "llm_rank")
   .addEdge("llm_rank", "parse_json")
@@ -58,8 +84,10 @@ const graph = new StateGraph(AgentStateAnnotation)
   // Conditional routing from route node
   .addConditionalEdges("route", routeDecision, {
     good_json: "good_json",
+    repair: "repair",
     fallback: "fallback",
   })
+  .addEdge("repair", "parse_json")
   // Terminal edges
   .addEdge("good_json", END)
   .addEdge("fallback", END)
@@ -1,21 +1,35 @@
-import type { AgentState, RankedSlot } from "../state"; // Adjusted the path to match the correct module location
-export const fallbackRankerNode = async (state: AgentState) => {
-  const slots = state.slots;
-  const ranked: RankedSlot[] = slots
-    .slice()
-    .sort((a, b) => {
-      const avA = a.available ? 0 : 1;
-      const avB = b.available ? 0 : 1;
-      if (avA !== avB) return avA - avB;
-      return new Date(a.start).getTime() - new Date(b.start).getTime();
-    })
-    .map((s, i) => ({
+import type { AgentState, RankedSlot, Slot } from "../state"; // Adjusted the path to match the correct module location
+
+/**
+ * Why a slot is where it is, from what the availability engine found
+ */
+export const describeSlot = (slot: Slot): string => {
+  const conflicts = slot.recurrenceConflicts?.length ?? 0;
+  const parts = [conflicts > 0 ? `${conflicts} occurrence(s) conflict` : "All required attendees are free"];
+  const optional = slot.optionalAttendees;
+  if (optional && optional.available.length + optional.unavailable.length > 0) {
+    parts.push(`${optional.available.length} of ${optional.available.length + optional.unavailable.length} optional can attend`);
+  }
+  if (slot.room) parts.push(`${slot.room.displayName} is free`);
+  return parts.join("; ");
+};
+
+/**
+ * Deterministic ranking: the order the scheduler already sorted the slots in, unavailable ones last
+ */
+export const rankDeterministically = (slots: Slot[]): RankedSlot[] =>
+  slots
+    .map((slot, index) => ({ slot, index }))
+    .sort((a, b) => (a.slot.available === false ? 1 : 0) - (b.slot.available === false ? 1 : 0) || a.index - b.index)
+    .map(({ slot }, i) => ({
       rank: i + 1,
-      start: s.start,
-      end: s.end,
-      score: s.available ? 0.9 - i * 0.01 : 0.1,
-      reason: s.available ? "Available & earliest" : "Unavailable",
+      start: slot.start,
+      end: slot.end,
+      score: slot.available === false ? 0.1 : Math.max(0.5, 0.9 - i * 0.05),
+      reason: describeSlot(slot),
     }));
-  state.final_ranked = ranked;
+
+export const fallbackRankerNode = async (state: AgentState) => {
+  state.final_ranked = rankDeterministically(state.slots);
   return state;
 };
@@ -1,19 +1,40 @@
-import type { AgentState } from "../state";
+import { z } from "zod/v3";
+import { isoDateTime, parseJson } from "../../validation";
+import type { AgentState, RankedSlot, Slot } from "../state";
+
+export const rankedSlotsSchema = z.array(z.object({
+  rank: z.number().int().positive(),
+  start: isoDateTime,
+  end: isoDateTime,
+  score: z.number().min(0).max(100),
+  reason: z.string().trim().min(1),
+})).min(1);
+
+/**
+ * Problems with a ranking beyond its shape: every ranked slot must be one of the given slots, ranked once, so the
+ * model can't invent or move times
+ */
+export const rankingErrors = (slots: Slot[], ranked: RankedSlot[]): string[] => {
+  const given = new Set(slots.map(s => `${Date.parse(s.start)}/${Date.parse(s.end)}`));
+  const seen = new Set<string>();
+  const errors: string[] = [];
+  ranked.forEach((item, i) => {
+    const key = `${Date.parse(item.start)}/${Date.parse(item.end)}`;
+    if (!given.has(key)) errors.push(`${i}: ${item.start} - ${item.end} is not one of the given slots`);
+    else if (seen.has(key)) errors.push(`${i}: ${item.start} - ${item.end} is ranked more than once`);
+    seen.add(key);
+  });
+  return errors;
+};
+
 export const parseJSONNode = async (state: AgentState) => {
-  const txt = state.llm_output || "";
-  const tryParse = (str: string) => {
-    try {
-      const obj = JSON.parse(str);
-      return Array.isArray(obj) ? obj : null;
-    } catch {
-      return null;
-    }
-  };
-  let parsed = tryParse(txt);
-  if (!parsed) {
-    const arr = txt.match(/\[[\s\S]*\]/m);
-    if (arr) parsed = tryParse(arr[0]);
+  const result = parseJson(state.llm_output || "", rankedSlotsSchema);
+  const errors = result.success ? rankingErrors(state.slots, result.data) : result.errors;
+  if (result.success && errors.length === 0) {
+    state.ranked_json = result.data;
+    state.validation_errors = [];
+  } else {
+    state.validation_errors = errors;
   }
-  state.ranked_json = parsed;
   return state;
 };
@@ -0,0 +1,25 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+
+import { createChatModel } from "../../llm";
+import { slotListPrompt } from "../../prompts";
+import { repairPrompt } from "../../validation";
+import type { AgentState } from "../state";
+
+/**
+ * Ask the model again, showing it its last answer and what was wrong with it
+ */
+export const repairNode = async (state: AgentState) => {
+  const model = createChatModel(0);
+
+  const started = Date.now();
+  const response = await model.invoke([
+    new HumanMessage(slotListPrompt(state.slots, state.ctx)),
+    new AIMessage(state.llm_output || ""),
+    new HumanMessage(repairPrompt(state.validation_errors ?? [])),
+  ]);
+
+  state.llm_output = response.text;
+  state.llm_call_ms = Date.now() - started;
+  state.repair_attempts = (state.repair_attempts ?? 0) + 1;
+  return state;
+};
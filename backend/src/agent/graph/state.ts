@@ -2,6 +2,9 @@ export interface Slot {
   start: string;
   end: string;
   available?: boolean;
+  optionalAttendees?: { available: string[]; unavailable: string[] };
+  recurrenceConflicts?: { start: string; end: string; busyAttendees: string[] }[];
+  room?: { displayName: string };
 }
 export interface RankedSlot {
   rank: number;
@@ -10,12 +13,34 @@ export interface RankedSlot {
   score: number;
   reason: string;
 }
+
+/**
+ * What the ranker knows about the request besides the slots themselves
+ */
+export interface RankingContext {
+  organizer: string;
+  timeZone: string;                  // organizer's; reasons should talk in local time
+  workDayStart: string;              // organizer's working hours, "HH:mm"
+  workDayEnd: string;
+  requiredAttendees: string[];
+  optionalAttendees: string[];
+  durationMinutes: number;
+  requestedStart?: string;           // the time asked for, when ranking alternatives to it
+  window?: { start: string; end: string };
+  meetingType?: string;
+  meetingLoad: Record<string, Record<string, number>>; // busy hours per required attendee per local day (YYYY-MM-DD)
+}
+
 export interface AgentState {
   slots: Slot[];
   ctx: any;
   llm_output?: string | null;
   ranked_json?: RankedSlot[] | null;
   final_ranked?: RankedSlot[] | null;
+  validation_errors?: string[];
+  repair_attempts?: number;
+  deadline?: number | null;
+  llm_call_ms?: number;
 }
 
 export type AgentNodes = {
@@ -23,5 +48,6 @@ export type AgentNodes = {
   parse_json: any;
   route: any;
   good_json: any;
+  repair: any;
   fallback: any;
 };
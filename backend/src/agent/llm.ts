@@ -0,0 +1,35 @@
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+
+/**
+ * Whether the configured LLM_PROVIDER has an API key
+ */
+export const llmConfigured = (): boolean => {
+  const provider = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+  if (provider === "openai") return !!process.env.OPENAI_API_KEY;
+  if (provider === "anthropic") return !!process.env.ANTHROPIC_API_KEY;
+  return false;
+};
+
+/**
+ * Chat model for the configured LLM_PROVIDER (OPENAI_MODEL / ANTHROPIC_MODEL pick the model)
+ */
+export const createChatModel = (temperature = 0.2) => {
+  const provider = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+
+  if (provider === "openai") {
+    return new ChatOpenAI({
+      apiKey: process.env.OPENAI_API_KEY!,
+      modelName: process.env.OPENAI_MODEL || "gpt-4o-mini",
+      temperature,
+    });
+  }
+  if (provider === "anthropic") {
+    return new ChatAnthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY!,
+      modelName: process.env.ANTHROPIC_MODEL || "claude-3-sonnet",
+      temperature,
+    });
+  }
+  throw new Error(`Unsupported LLM_PROVIDER: ${provider}`);
+};
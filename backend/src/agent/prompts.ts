@@ -1,15 +1,23 @@
 export const slotListPrompt = (slots: any[], ctx: any) => {
   const slotText = slots
-    .map(
-      (s: any, i: number) =>
-        `${i + 1}. start: ${s.start}, end: ${s.end}, available: ${
-          s.available ?? true
-        }`
-    )
+    .map((s: any, i: number) => {
+      const details = [`available: ${s.available ?? true}`];
+      if (s.optionalAttendees) {
+        details.push(`optional attendees free: ${s.optionalAttendees.available.join(", ") || "none"}`);
+        if (s.optionalAttendees.unavailable.length) details.push(`optional attendees busy: ${s.optionalAttendees.unavailable.join(", ")}`);
+      }
+      if (s.recurrenceConflicts?.length) details.push(`conflicting occurrences: ${s.recurrenceConflicts.length}`);
+      if (s.room) details.push(`room: ${s.room.displayName}`);
+      return `${i + 1}. start: ${s.start}, end: ${s.end}, ${details.join(", ")}`;
+    })
     .join("\n");
 
   return `
-You are a meeting scheduler AI. Rank the following slots.
+You are a meeting scheduler AI. Rank the following slots. Every slot already works for the required attendees
+unless marked otherwise. Prefer, in this order: slots without conflicting occurrences, slots close to the requested
+time (if one is given), days on which the attendees have a lighter meeting load, slots more optional attendees can
+make, and times comfortably inside the organizer's working hours. Write each reason as one short sentence a busy
+person would read, with times in the organizer's timezone.
 
 Slots:
 ${slotText}
@@ -17,6 +25,7 @@ ${slotText}
 Context:
 ${JSON.stringify(ctx)}
 
+Rank every slot exactly once and copy its start and end unchanged.
 Return ONLY a JSON array in this exact format:
 
 [
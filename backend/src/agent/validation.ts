@@ -0,0 +1,42 @@
+import { z } from "zod/v3";
+
+export type Validated<T> = { success: true; data: T } | { success: false; errors: string[] };
+
+/**
+ * How many times a model is asked to fix output that failed validation (LLM_REPAIR_ATTEMPTS, default 2)
+ */
+export const repairAttempts = (): number => Math.max(0, parseInt(process.env.LLM_REPAIR_ATTEMPTS || "2", 10) || 0);
+
+/**
+ * Parse a model's JSON answer and validate it. Models sometimes wrap the JSON in prose or code fences, so the
+ * outermost array or object in the text is tried when the whole text isn't JSON.
+ */
+export const parseJson = <T>(text: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Validated<T> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    const embedded = text.match(/\[[\s\S]*\]|\{[\s\S]*\}/m);
+    try {
+      value = embedded ? JSON.parse(embedded[0]) : undefined;
+    } catch {
+      value = undefined;
+    }
+    if (value === undefined) return { success: false, errors: ["The answer is not valid JSON"] };
+  }
+  const result = schema.safeParse(value);
+  return result.success ? { success: true, data: result.data } : { success: false, errors: issuesOf(result.error) };
+};
+
+export const issuesOf = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`);
+
+export const isoDateTime = z.string().refine(value => !isNaN(Date.parse(value)), "must be an ISO 8601 date-time");
+
+/**
+ * Follow-up message asking the model to fix its previous answer
+ */
+export const repairPrompt = (errors: string[]) => `Your previous answer failed validation:
+${errors.map(error => `- ${error}`).join("\n")}
+
+Fix these problems and return ONLY the corrected JSON, in the same format as before.`;
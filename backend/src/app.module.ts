@@ -1,13 +1,24 @@
 import { Module } from '@nestjs/common';
 import { SchedulingModule } from './scheduling/scheduling.module';
 import { PrismaModule } from './prisma/prisma.module';
+import { RedisModule } from './redis/redis.module';
 import { GraphModule } from './graph/graph.module';
 import { AuthModule } from './auth/auth.module';
 import { AgentModule } from './agent/agent.module';
+import { PolicyModule } from './policy/policy.module';
+import { RoomsModule } from './rooms/rooms.module';
+import { PollsModule } from './polls/polls.module';
+import { CalendarFeedsModule } from './calendar-feeds/calendar-feeds.module';
+import { CalendarProvidersModule } from './calendar-providers/calendar-providers.module';
+import { UserSyncModule } from './user-sync/user-sync.module';
+import { FreeBusyCacheModule } from './free-busy-cache/free-busy-cache.module';
+import { RsvpModule } from './rsvp/rsvp.module';
+import { SchedulingAgentModule } from './scheduling-agent/scheduling-agent.module';
+import { ConversationsModule } from './conversations/conversations.module';
 
 import { McpModule } from './mcp/mcp.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule, GraphModule, AgentModule, SchedulingModule, McpModule],
+  imports: [PrismaModule, RedisModule, AuthModule, GraphModule, CalendarProvidersModule, AgentModule, PolicyModule, RoomsModule, CalendarFeedsModule, SchedulingModule, PollsModule, UserSyncModule, FreeBusyCacheModule, RsvpModule, SchedulingAgentModule, ConversationsModule, McpModule],
 })
 export class AppModule { }
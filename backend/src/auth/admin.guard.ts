@@ -0,0 +1,29 @@
+import { ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { SignedInGuard } from './signed-in.guard';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+
+/**
+ * Whether an email is one of ADMIN_EMAILS (comma-separated)
+ */
+export function isAdmin(email?: string): boolean {
+    if (!email) return false;
+    const admins = (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+    return admins.includes(email.toLowerCase());
+}
+
+/**
+ * Requires a signed-in administrator (see isAdmin). In offline mode the default organizer must be listed.
+ */
+@Injectable()
+export class AdminGuard extends SignedInGuard {
+    constructor(providers: CalendarProvidersService) {
+        super(providers);
+    }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        await super.canActivate(context);
+        const req = context.switchToHttp().getRequest();
+        if (!isAdmin(req.user?.email)) throw new ForbiddenException('Only administrators (ADMIN_EMAILS) can do this');
+        return true;
+    }
+}
@@ -1,24 +1,27 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfidentialClientApplication, Configuration, ClientCredentialRequest } from '@azure/msal-node';
 import Redis from 'ioredis';
+import { isOfflineMode } from '../calendar-providers/offline';
 
 const logger = new Logger('AuthService');
 
 @Injectable()
 export class AuthService implements OnModuleInit {
-  private cca: ConfidentialClientApplication;
+  private cca: ConfidentialClientApplication | null = null;
   private tenantId: string;
   private clientId: string;
   private clientSecret: string;
   private scope: string;
-  private redisClient: Redis | null = null;
 
-  constructor() {
+  constructor(@Inject('REDIS') private redisClient: Redis | null) {
     this.tenantId = process.env.AZURE_TENANT_ID!;
     this.clientId = process.env.AZURE_CLIENT_ID!;
     this.clientSecret = process.env.AZURE_CLIENT_SECRET!;
     this.scope = process.env.AZURE_SCOPE || 'https://graph.microsoft.com/.default';
 
+    // Offline mode needs no Azure app registration
+    if (isOfflineMode()) return;
+
     const config: Configuration = {
       auth: {
         clientId: this.clientId,
@@ -28,14 +31,10 @@ export class AuthService implements OnModuleInit {
     };
 
     this.cca = new ConfidentialClientApplication(config);
-
-    if (process.env.REDIS_URL) {
-      this.redisClient = new Redis(process.env.REDIS_URL);
-    }
   }
 
   onModuleInit() {
-    logger.log('AuthService initialized');
+    logger.log(this.cca ? 'AuthService initialized' : 'AuthService disabled (offline mode)');
   }
 
   private redisKeyForAppToken(): string {
@@ -43,6 +42,8 @@ export class AuthService implements OnModuleInit {
   }
 
   async getAppAccessToken(): Promise<{ accessToken: string; expiresOn: number }> {
+    if (!this.cca) throw new Error('Microsoft Graph is not available in offline mode (OFFLINE_MODE=true)');
+
     if (this.redisClient) {
       const key = this.redisKeyForAppToken();
       const cached = await this.redisClient.get(key);
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { blockedIntervals, busyMapFromSchedules, findCandidateSlots, mergeIntervals } from './availability-engine';
+import { Interval } from './types';
+
+const at = (time: string) => new Date(`2030-01-07T${time}:00Z`); // a Monday
+const span = (start: string, end: string): Interval => ({ start: at(start), end: at(end) });
+const times = (intervals: { start: Date; end: Date }[]) =>
+  intervals.map(i => `${i.start.toISOString().slice(11, 16)}-${i.end.toISOString().slice(11, 16)}`);
+
+describe('mergeIntervals', () => {
+  it('sorts and coalesces overlapping and touching intervals', () => {
+    const merged = mergeIntervals([span('13:00', '14:00'), span('09:00', '10:00'), span('09:30', '11:00'), span('11:00', '11:30')]);
+    assert.deepEqual(times(merged), ['09:00-11:30', '13:00-14:00']);
+  });
+
+  it('drops empty intervals', () => {
+    assert.deepEqual(mergeIntervals([span('10:00', '10:00'), span('12:00', '11:00')]), []);
+  });
+});
+
+describe('blockedIntervals', () => {
+  const busyMap = busyMapFromSchedules([{
+    email: 'Ana@contoso.com',
+    items: [
+      { start: at('10:00'), end: at('11:00'), status: 'busy', location: 'Building 2' },
+      { start: at('14:00'), end: at('15:00'), status: 'busy', location: 'Microsoft Teams' },
+      { start: at('16:00'), end: at('17:00'), status: 'free' },
+    ],
+  }]);
+
+  it('grows busy blocks by the buffers: `after` ahead of them, `before` behind them', () => {
+    const blocked = blockedIntervals(busyMap, 'ana@contoso.com', { bufferBeforeMinutes: 15, bufferAfterMinutes: 30, travelMinutes: 0 });
+    assert.deepEqual(times(blocked), ['09:30-11:15', '13:30-15:15']);
+  });
+
+  it('pads only in-person events with travel time', () => {
+    const blocked = blockedIntervals(busyMap, 'ana@contoso.com', { bufferBeforeMinutes: 0, bufferAfterMinutes: 0, travelMinutes: 30 });
+    assert.deepEqual(times(blocked), ['09:30-11:30', '14:00-15:00']);
+  });
+});
+
+describe('findCandidateSlots', () => {
+  const utcNineToFive = { timeZone: 'UTC', workDayStart: '09:00', workDayEnd: '17:00', workDays: [1, 2, 3, 4, 5] };
+
+  it('clips the window to working hours', () => {
+    const slots = findCandidateSlots([], {
+      windowStart: at('06:00'),
+      windowEnd: at('20:00'),
+      durationMinutes: 60,
+      granularityMinutes: 60,
+      workingHours: [utcNineToFive],
+    });
+    assert.deepEqual(times(slots), ['09:00-10:00', '10:00-11:00', '11:00-12:00', '12:00-13:00', '13:00-14:00', '14:00-15:00', '15:00-16:00', '16:00-17:00']);
+  });
+
+  it('keeps every attendee\'s busy time clear, and uses the narrowest working hours', () => {
+    const slots = findCandidateSlots([[span('09:00', '11:00')], [span('12:00', '13:00')]], {
+      windowStart: at('00:00'),
+      windowEnd: at('23:59'),
+      durationMinutes: 60,
+      granularityMinutes: 60,
+      workingHours: [utcNineToFive, { ...utcNineToFive, workDayEnd: '15:00' }],
+    });
+    assert.deepEqual(times(slots), ['11:00-12:00', '13:00-14:00', '14:00-15:00']);
+  });
+
+  it('finds nothing on a non-working day', () => {
+    const sunday = (time: string) => new Date(`2030-01-06T${time}:00Z`);
+    const slots = findCandidateSlots([], { windowStart: sunday('09:00'), windowEnd: sunday('17:00'), durationMinutes: 30, workingHours: [utcNineToFive] });
+    assert.deepEqual(slots, []);
+  });
+
+  it('avoids slots that leave a short fragment next to a busy block', () => {
+    const slots = findCandidateSlots([[span('09:00', '09:45')]], {
+      windowStart: at('09:00'),
+      windowEnd: at('11:00'),
+      durationMinutes: 30,
+      granularityMinutes: 15,
+      minFragmentMinutes: 30,
+    });
+    assert.ok(!times(slots).includes('10:00-10:30'), 'a 15-minute gap after the busy block is avoided');
+    assert.deepEqual(times(slots)[0], '09:45-10:15');
+  });
+});
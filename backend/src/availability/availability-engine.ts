@@ -0,0 +1,194 @@
+/**
+ * Pure free/busy slot engine. No Graph or Nest dependencies, so it can be exercised with plain data.
+ */
+import { BusyMap, CandidateSlot, Interval, ScheduleItemRules, SlotSearchOptions } from './types';
+import { AttendeeSchedule } from '../calendar-providers/types';
+import { BufferPolicy } from '../policy/types';
+import { getWorkingIntervals } from '../policy/working-hours';
+
+// Schedule item statuses (Graph's vocabulary, which every provider maps onto) that block a slot
+export const BLOCKING_STATUSES = ['busy', 'tentative', 'oof'];
+
+// Locations that don't need travel (online meetings)
+const ONLINE_LOCATION_PATTERN = /teams|zoom|webex|google meet|skype|online|https?:\/\//i;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Parse a Graph dateTimeTimeZone. getSchedule is always requested in UTC, but Graph omits the "Z".
+ */
+export function parseGraphDateTime(value: { dateTime: string } | string): Date {
+  const dt = typeof value === 'string' ? value : value.dateTime;
+  return new Date(/Z$|[+-]\d{2}:\d{2}$/.test(dt) ? dt : `${dt}Z`);
+}
+
+/**
+ * Sort and coalesce overlapping or touching intervals.
+ */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals
+    .filter(i => i.start < i.end)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Intersection of two sorted, merged interval lists.
+ */
+export function intersectIntervals(a: Interval[], b: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const start = a[i].start > b[j].start ? a[i].start : b[j].start;
+    const end = a[i].end < b[j].end ? a[i].end : b[j].end;
+    if (start < end) result.push({ start, end });
+    if (a[i].end < b[j].end) i++;
+    else j++;
+  }
+  return result;
+}
+
+/**
+ * Remove the (merged) busy intervals from the free intervals.
+ */
+export function subtractIntervals(free: Interval[], busy: Interval[]): Interval[] {
+  const result: Interval[] = [];
+  for (const interval of free) {
+    let cursor = interval.start;
+    for (const b of busy) {
+      if (b.end <= cursor || b.start >= interval.end) continue;
+      if (b.start > cursor) result.push({ start: cursor, end: b.start });
+      if (b.end > cursor) cursor = b.end;
+    }
+    if (cursor < interval.end) result.push({ start: cursor, end: interval.end });
+  }
+  return result;
+}
+
+export function overlapsAny(intervals: Interval[] | undefined, start: Date, end: Date): boolean {
+  return (intervals || []).some(i => start < i.end && i.start < end);
+}
+
+export function isInPersonLocation(location?: string): boolean {
+  return !!location && location.trim() !== '' && !ONLINE_LOCATION_PATTERN.test(location);
+}
+
+/**
+ * Build a BusyMap from provider schedules (an attendee may appear several times, for chunked windows).
+ */
+export function busyMapFromSchedules(schedules: AttendeeSchedule[], rules: ScheduleItemRules = {}): BusyMap {
+  const statuses = rules.statuses || BLOCKING_STATUSES;
+  const raw: Record<string, Interval[]> = {};
+  const rawInPerson: Record<string, Interval[]> = {};
+  const unresolved = new Set<string>();
+  for (const schedule of schedules) {
+    const key = schedule.email?.toLowerCase();
+    if (!key) continue;
+    if (schedule.error) {
+      unresolved.add(key);
+      continue;
+    }
+    raw[key] = raw[key] || [];
+    rawInPerson[key] = rawInPerson[key] || [];
+    for (const item of schedule.items) {
+      // Focus blocks are protected even when the owner shows them as free
+      const isFocus = !!rules.focusSubjectPattern && rules.focusSubjectPattern.test(item.subject || '');
+      if (!statuses.includes(item.status) && !isFocus) continue;
+      const interval = { start: item.start, end: item.end };
+      raw[key].push(interval);
+      if (isInPersonLocation(item.location)) rawInPerson[key].push({ ...interval });
+    }
+  }
+  const busy: Record<string, Interval[]> = {};
+  const inPerson: Record<string, Interval[]> = {};
+  for (const key of Object.keys(raw)) {
+    busy[key] = mergeIntervals(raw[key]);
+    inPerson[key] = mergeIntervals(rawInPerson[key]);
+  }
+  return { busy, inPerson, unresolved: Array.from(unresolved) };
+}
+
+/**
+ * How far beyond a slot an attendee's calendar has to be read for their buffers and travel time.
+ */
+export function bufferPaddingMinutes(buffers?: BufferPolicy): number {
+  if (!buffers) return 0;
+  return Math.max(buffers.bufferBeforeMinutes, buffers.bufferAfterMinutes) + buffers.travelMinutes;
+}
+
+/**
+ * Time a meeting must stay clear of for one attendee: in-person events are padded by travel time,
+ * then every busy block is grown by the attendee's buffers.
+ */
+export function blockedIntervals(busyMap: BusyMap, email: string, buffers?: BufferPolicy): Interval[] {
+  const key = email.toLowerCase();
+  const beforeMs = (buffers?.bufferBeforeMinutes || 0) * MINUTE_MS;
+  const afterMs = (buffers?.bufferAfterMinutes || 0) * MINUTE_MS;
+  const travelMs = (buffers?.travelMinutes || 0) * MINUTE_MS;
+
+  const travel = travelMs > 0
+    ? (busyMap.inPerson[key] || []).map(i => ({ start: new Date(i.start.getTime() - travelMs), end: new Date(i.end.getTime() + travelMs) }))
+    : [];
+  // A meeting after a busy block needs `before` minutes between them, one ahead of it needs `after`
+  return mergeIntervals([...(busyMap.busy[key] || []), ...travel].map(i => ({
+    start: new Date(i.start.getTime() - afterMs),
+    end: new Date(i.end.getTime() + beforeMs),
+  })));
+}
+
+/**
+ * Every slot of `durationMinutes` inside the window in which all the given busy lists are free
+ * and all working-hours policies apply. Buffers are expected to be applied already (see blockedIntervals).
+ * With `minFragmentMinutes`, slots that would leave a shorter gap next to a busy block are dropped
+ * unless nothing else fits.
+ */
+export function findCandidateSlots(busyLists: Interval[][], options: SlotSearchOptions): CandidateSlot[] {
+  const granularityMs = (options.granularityMinutes || 30) * MINUTE_MS;
+  const durationMs = options.durationMinutes * MINUTE_MS;
+  const minFragmentMs = (options.minFragmentMinutes || 0) * MINUTE_MS;
+
+  const windowStart = options.notBefore && options.notBefore > options.windowStart ? options.notBefore : options.windowStart;
+  if (durationMs <= 0 || windowStart >= options.windowEnd) return [];
+
+  // Where the meeting itself may sit: inside the window and every participant's working hours
+  let allowed: Interval[] = [{ start: windowStart, end: options.windowEnd }];
+  for (const policy of options.workingHours || []) {
+    allowed = intersectIntervals(allowed, getWorkingIntervals(policy, windowStart, options.windowEnd));
+  }
+
+  const busy = mergeIntervals(busyLists.flat());
+  const free = subtractIntervals(allowed, busy);
+
+  // Free intervals bounded by a busy block (rather than the window or working hours) can leave fragments
+  const busyEnds = new Set(busy.map(b => b.end.getTime()));
+  const busyStarts = new Set(busy.map(b => b.start.getTime()));
+  const fragment = (gapMs: number) => (gapMs > 0 && gapMs < minFragmentMs ? gapMs : 0);
+
+  const slots: CandidateSlot[] = [];
+  for (const interval of free) {
+    const freeStart = interval.start.getTime();
+    const freeEnd = interval.end.getTime();
+    let t = Math.ceil(freeStart / granularityMs) * granularityMs;
+    for (; t + durationMs <= freeEnd; t += granularityMs) {
+      const fragmentMs = (busyEnds.has(freeStart) ? fragment(t - freeStart) : 0) +
+        (busyStarts.has(freeEnd) ? fragment(freeEnd - t - durationMs) : 0);
+      slots.push({ start: new Date(t), end: new Date(t + durationMs), fragmentMinutes: fragmentMs / MINUTE_MS });
+    }
+  }
+
+  if (minFragmentMs > 0) {
+    const clean = slots.filter(s => !s.fragmentMinutes);
+    if (clean.length > 0) return clean;
+  }
+  return slots;
+}
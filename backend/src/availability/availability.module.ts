@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AvailabilityService } from './availability.service';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { CalendarFeedsModule } from '../calendar-feeds/calendar-feeds.module';
+import { FreeBusyCacheModule } from '../free-busy-cache/free-busy-cache.module';
+
+@Module({
+  imports: [CalendarProvidersModule, CalendarFeedsModule, FreeBusyCacheModule],
+  providers: [AvailabilityService],
+  exports: [AvailabilityService],
+})
+export class AvailabilityModule { }
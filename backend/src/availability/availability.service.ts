@@ -0,0 +1,257 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { mapConcurrently } from '../calendar-providers/concurrency';
+import { AttendeeSchedule, CalendarEntry, ScheduleItem } from '../calendar-providers/types';
+import { CalendarFeedsService } from '../calendar-feeds/calendar-feeds.service';
+import { FreeBusyCacheService } from '../free-busy-cache/free-busy-cache.service';
+import { CalendarSubscriptionsService } from '../free-busy-cache/calendar-subscriptions.service';
+import { CacheKind, TimedItem } from '../free-busy-cache/types';
+import { BufferPolicy } from '../policy/types';
+import { BusyMap, CandidateSlot, Freshness, Interval, SlotSearchOptions } from './types';
+import { blockedIntervals, bufferPaddingMinutes, busyMapFromSchedules, findCandidateSlots, mergeIntervals, overlapsAny, subtractIntervals } from './availability-engine';
+const logger = new Logger('AvailabilityService');
+
+// Graph's getSchedule rejects windows longer than 62 days; the other providers are queried in the same chunks
+const SCHEDULE_CHUNK_MS = 60 * 24 * 60 * 60 * 1000;
+
+// Items per attendee as fetched; `error` means the calendar couldn't be read (and nothing is cached)
+type Fetched<T> = { email: string; items: T[]; error?: string };
+
+/**
+ * Front door to the availability engine: fetches free/busy from each attendee's calendar provider (plus iCalendar
+ * feeds for attendees outside the organization) and hands plain intervals to the pure functions in availability-engine.ts.
+ * Reads for display pass freshness 'cached' and may be answered from the free/busy cache (stale entries are refreshed
+ * in the background); the default 'fresh' always asks the providers, as checks right before booking must.
+ */
+@Injectable()
+export class AvailabilityService {
+  private refreshing = new Set<string>();
+
+  constructor(
+    private providers: CalendarProvidersService,
+    private calendarFeeds: CalendarFeedsService,
+    private cache: FreeBusyCacheService,
+    private subscriptions: CalendarSubscriptionsService,
+  ) { }
+
+  private focusSubjectPattern(): RegExp | undefined {
+    const pattern = process.env.FOCUS_SUBJECT_PATTERN ?? '\\bfocus\\b';
+    return pattern ? new RegExp(pattern, 'i') : undefined;
+  }
+
+  private focusCategories(): string[] {
+    return (process.env.FOCUS_CATEGORIES ?? 'Focus,Focus time')
+      .split(',')
+      .map(c => c.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * Merged busy intervals per attendee for an arbitrarily long window, fetched in chunks from each attendee's provider.
+   * Focus blocks (matching subject or category) are included even when shown as free.
+   * `exclude` removes time from everyone's busy list, e.g. a meeting's current slot while it is being moved.
+   */
+  async getBusyMap(organizer: string, emails: string[], from: Date, to: Date, exclude: Interval[] = [], freshness: Freshness = 'fresh'): Promise<BusyMap> {
+    if (emails.length === 0 || from >= to) return { busy: {}, inPerson: {}, unresolved: [] };
+
+    const schedules: AttendeeSchedule[] = await this.read('schedule', emails, from, to, freshness, (missing, start, end) => this.fetchSchedules(organizer, missing, start, end));
+    this.subscriptions.watch(emails);
+
+    const busyMap = busyMapFromSchedules(schedules, { focusSubjectPattern: this.focusSubjectPattern() });
+    await this.addFocusCategoryBlocks(busyMap, emails, from, to, freshness);
+    await this.addCalendarFeedBlocks(busyMap, emails, from, to);
+    if (busyMap.unresolved.length > 0) {
+      logger.warn(`Could not read free/busy for: ${busyMap.unresolved.join(', ')}`);
+    }
+
+    if (exclude.length > 0) {
+      const excluded = mergeIntervals(exclude.map(i => ({ start: i.start, end: i.end })));
+      for (const key of Object.keys(busyMap.busy)) {
+        busyMap.busy[key] = subtractIntervals(busyMap.busy[key], excluded);
+        busyMap.inPerson[key] = subtractIntervals(busyMap.inPerson[key] || [], excluded);
+      }
+    }
+    return busyMap;
+  }
+
+  /**
+   * Drop cached free/busy for the users, e.g. after booking or moving a meeting they attend
+   */
+  async invalidate(emails: string[]) {
+    await this.cache.invalidate(emails);
+  }
+
+  private async fetchSchedules(organizer: string, emails: string[], from: Date, to: Date): Promise<Fetched<ScheduleItem>[]> {
+    const byEmail = new Map(emails.map(email => [email.toLowerCase(), { email, items: [] } as Fetched<ScheduleItem>]));
+    for (let chunkStart = from.getTime(); chunkStart < to.getTime(); chunkStart += SCHEDULE_CHUNK_MS) {
+      const chunkEnd = Math.min(chunkStart + SCHEDULE_CHUNK_MS, to.getTime());
+      for (const schedule of await this.providers.getSchedules(organizer, emails, new Date(chunkStart), new Date(chunkEnd))) {
+        const fetched = byEmail.get(schedule.email.toLowerCase());
+        if (!fetched) continue;
+        fetched.items.push(...schedule.items);
+        fetched.error ??= schedule.error;
+      }
+    }
+    return Array.from(byEmail.values());
+  }
+
+  /**
+   * Items per attendee for [from, to). With 'cached', attendees found in the cache are answered from it (and
+   * refreshed in the background when stale); everyone else is fetched for whole UTC days and cached.
+   */
+  private async read<T extends TimedItem>(
+    kind: CacheKind,
+    emails: string[],
+    from: Date,
+    to: Date,
+    freshness: Freshness,
+    fetch: (emails: string[], from: Date, to: Date) => Promise<Fetched<T>[]>,
+  ): Promise<Fetched<T>[]> {
+    if (!this.cache.enabled) return fetch(emails, from, to);
+
+    const window = this.cache.daysOf(from, to);
+    const hits = freshness === 'cached' ? await this.cache.read<T>(kind, emails, from, to) : new Map();
+    const stale = emails.filter(e => hits.get(e.toLowerCase())?.stale);
+    if (stale.length > 0) void this.refresh(kind, stale, window.from, window.to, fetch);
+
+    const missing = emails.filter(e => !hits.has(e.toLowerCase()));
+    const fetched = missing.length > 0 ? await this.fetchAndCache(kind, missing, window.from, window.to, fetch) : [];
+    const fetchedByEmail = new Map(fetched.map(f => [f.email.toLowerCase(), f]));
+    return emails.map(email => {
+      const hit = hits.get(email.toLowerCase());
+      return hit ? { email, items: hit.items } : fetchedByEmail.get(email.toLowerCase()) ?? { email, items: [], error: 'notFound' };
+    });
+  }
+
+  private async fetchAndCache<T extends TimedItem>(
+    kind: CacheKind,
+    emails: string[],
+    from: Date,
+    to: Date,
+    fetch: (emails: string[], from: Date, to: Date) => Promise<Fetched<T>[]>,
+  ): Promise<Fetched<T>[]> {
+    const fetched = await fetch(emails, from, to);
+    for (const f of fetched) {
+      if (!f.error) await this.cache.write(kind, f.email, from, to, f.items);
+    }
+    return fetched;
+  }
+
+  // One background refresh per window at a time, however many readers find it stale
+  private async refresh<T extends TimedItem>(
+    kind: CacheKind,
+    emails: string[],
+    from: Date,
+    to: Date,
+    fetch: (emails: string[], from: Date, to: Date) => Promise<Fetched<T>[]>,
+  ) {
+    const key = `${kind}:${emails.map(e => e.toLowerCase()).sort().join(',')}:${from.toISOString()}:${to.toISOString()}`;
+    if (this.refreshing.has(key)) return;
+    this.refreshing.add(key);
+    try {
+      await this.fetchAndCache(kind, emails, from, to, fetch);
+    } catch (error: any) {
+      logger.warn(`Background free/busy refresh failed: ${error?.message || error}`);
+    } finally {
+      this.refreshing.delete(key);
+    }
+  }
+
+  /**
+   * Free/busy doesn't expose categories, so focus-categorized events are read from each calendar.
+   * Best effort: calendars we can't read keep their free/busy view.
+   */
+  private async addFocusCategoryBlocks(busyMap: BusyMap, emails: string[], from: Date, to: Date, freshness: Freshness) {
+    const categories = this.focusCategories();
+    if (categories.length === 0) return;
+
+    const readable = emails.filter(email => !busyMap.unresolved.includes(email.toLowerCase()));
+    const calendars = await this.read<CalendarEntry>('entries', readable, from, to, freshness, (missing, start, end) => this.fetchEntries(missing, start, end));
+    for (const { email, items, error } of calendars) {
+      if (error) {
+        logger.warn(`Could not read focus blocks for ${email}: ${error}`);
+        continue;
+      }
+      const focus: Interval[] = items
+        .filter(e => !e.isCancelled && e.start < to && e.end > from && e.categories.some(c => categories.includes(c.toLowerCase())))
+        .map(e => ({ start: e.start, end: e.end }));
+      if (focus.length > 0) {
+        const key = email.toLowerCase();
+        busyMap.busy[key] = mergeIntervals([...(busyMap.busy[key] || []), ...focus]);
+      }
+    }
+  }
+
+  // One calendar read per attendee, so they run concurrently (bounded, to stay clear of throttling)
+  private async fetchEntries(emails: string[], from: Date, to: Date): Promise<Fetched<CalendarEntry>[]> {
+    return mapConcurrently(emails, async (email): Promise<Fetched<CalendarEntry>> => {
+      try {
+        return { email, items: await this.providers.forUser(email).listEntries(email, from, to) };
+      } catch (error: any) {
+        return { email, items: [], error: error?.message || String(error) };
+      }
+    });
+  }
+
+  /**
+   * Merge in iCalendar feeds attached to attendees; a feed makes an attendee no provider could read resolved
+   */
+  private async addCalendarFeedBlocks(busyMap: BusyMap, emails: string[], from: Date, to: Date) {
+    const feedBusy = await this.calendarFeeds.getBusyIntervals(emails, from, to);
+    for (const [key, intervals] of Object.entries(feedBusy)) {
+      busyMap.busy[key] = mergeIntervals([...(busyMap.busy[key] || []), ...intervals]);
+      busyMap.unresolved = busyMap.unresolved.filter(e => e !== key);
+    }
+  }
+
+  /**
+   * Every candidate slot in the window where all the given attendees are free, keeping each attendee's
+   * buffers and travel time (keyed by the emails as passed in).
+   */
+  async findSlots(
+    organizer: string,
+    emails: string[],
+    options: SlotSearchOptions,
+    buffers: Record<string, BufferPolicy> = {},
+    exclude: Interval[] = [],
+    freshness: Freshness = 'fresh',
+  ): Promise<CandidateSlot[]> {
+    const from = options.notBefore && options.notBefore > options.windowStart ? options.notBefore : options.windowStart;
+    const paddingMs = Math.max(0, ...emails.map(e => bufferPaddingMinutes(buffers[e]))) * 60 * 1000;
+    const busyMap = await this.getBusyMap(organizer, emails, new Date(from.getTime() - paddingMs), new Date(options.windowEnd.getTime() + paddingMs), exclude, freshness);
+
+    const slots = findCandidateSlots(emails.map(e => blockedIntervals(busyMap, e, buffers[e])), options);
+    logger.log(`Found ${slots.length} candidate slot(s) of ${options.durationMinutes}m for ${emails.length} attendee(s)`);
+    return slots;
+  }
+
+  /**
+   * For each interval, the attendees who can't make it once buffers, travel time and focus blocks are
+   * taken into account. Calendars that couldn't be read are reported as `unresolved`, not busy.
+   */
+  async findBusyAttendees(
+    organizer: string,
+    emails: string[],
+    intervals: Interval[],
+    buffers: Record<string, BufferPolicy> = {},
+    exclude: Interval[] = [],
+    freshness: Freshness = 'fresh',
+  ): Promise<{ busy: string[][]; unresolved: string[] }> {
+    if (emails.length === 0 || intervals.length === 0) {
+      return { busy: intervals.map(() => []), unresolved: [] };
+    }
+
+    const paddingMs = Math.max(0, ...emails.map(e => bufferPaddingMinutes(buffers[e]))) * 60 * 1000;
+    const from = new Date(Math.min(...intervals.map(i => i.start.getTime())) - paddingMs);
+    const to = new Date(Math.max(...intervals.map(i => i.end.getTime())) + paddingMs);
+    const busyMap = await this.getBusyMap(organizer, emails, from, to, exclude, freshness);
+
+    const blocked = emails.map(e => blockedIntervals(busyMap, e, buffers[e]));
+    return {
+      busy: intervals.map(interval =>
+        emails.filter((_, i) => overlapsAny(blocked[i], interval.start, interval.end))
+      ),
+      unresolved: busyMap.unresolved,
+    };
+  }
+}
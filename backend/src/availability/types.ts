@@ -0,0 +1,30 @@
+import { WorkingHoursPolicy } from '../policy/types';
+
+export interface Interval { start: Date; end: Date; }
+
+// 'cached' may answer from the free/busy cache (for display); 'fresh' always reads the calendars (before booking)
+export type Freshness = 'fresh' | 'cached';
+
+export interface SlotSearchOptions {
+  windowStart: Date;
+  windowEnd: Date;
+  durationMinutes: number;
+  granularityMinutes?: number;       // candidate starts are aligned to this many minutes (default 30)
+  minFragmentMinutes?: number;       // avoid slots that leave a shorter gap next to a busy block
+  workingHours?: WorkingHoursPolicy[]; // every policy must contain the slot
+  notBefore?: Date;                  // typically "now"
+}
+
+export interface CandidateSlot { start: Date; end: Date; fragmentMinutes?: number; }
+
+/**
+ * Busy intervals per attendee (lowercased email), merged and sorted. Focus blocks count as busy.
+ * `inPerson` holds the subset of busy time at a physical location (padded with travel time when blocking).
+ * Attendees whose schedule could not be read are listed in `unresolved`.
+ */
+export interface BusyMap { busy: Record<string, Interval[]>; inPerson: Record<string, Interval[]>; unresolved: string[]; }
+
+export interface ScheduleItemRules {
+  statuses?: string[];          // statuses that block (default BLOCKING_STATUSES)
+  focusSubjectPattern?: RegExp; // items with a matching subject block whatever their status
+}
@@ -0,0 +1,54 @@
+import { BadRequestException, Body, Controller, Delete, ForbiddenException, Get, Param, Put, Query, Request, UseGuards } from '@nestjs/common';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { CalendarFeedDTO } from './types';
+import { SignedInGuard } from '../auth/signed-in.guard';
+import { isAdmin } from '../auth/admin.guard';
+
+@Controller('calendar-feeds')
+@UseGuards(SignedInGuard)
+export class CalendarFeedsController {
+  constructor(private feeds: CalendarFeedsService, private providers: CalendarProvidersService) { }
+
+  // Admins see every feed; anyone else the one on their own address and the ones they added
+  @Get()
+  async list(@Request() req: any) {
+    return this.feeds.listFeeds(isAdmin(req.user.email) ? undefined : req.user.email);
+  }
+
+  @Put(':email')
+  async set(@Param('email') email: string, @Body() dto: CalendarFeedDTO, @Request() req: any) {
+    this.checkCanManage(email, req.user.email);
+    return this.feeds.setFeed(email, dto, req.user.email);
+  }
+
+  @Delete(':email')
+  async remove(@Param('email') email: string, @Request() req: any) {
+    const feed = await this.feeds.getFeed(email);
+    const requester = req.user.email.toLowerCase();
+    if (feed.addedBy !== requester && feed.email !== requester && !isAdmin(requester)) {
+      throw new ForbiddenException('Only whoever added this calendar feed or an admin can remove it');
+    }
+    return this.feeds.removeFeed(email);
+  }
+
+  // Preview of what the feed contributes to availability checks
+  @Get(':email/busy')
+  async busy(@Param('email') email: string, @Query('from') from: string, @Query('to') to: string, @Request() req: any) {
+    this.checkCanManage(email, req.user.email);
+    const start = from ? new Date(from) : new Date();
+    const end = to ? new Date(to) : new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) throw new BadRequestException('from and to must be ISO dates');
+    const busy = await this.feeds.getBusyIntervals([email], start, end);
+    return (busy[email.toLowerCase()] || []).map(i => ({ start: i.start.toISOString(), end: i.end.toISOString() }));
+  }
+
+  // Anyone signed in can attach a partner's feed (an address outside the organization); for colleagues' addresses
+  // only the user themselves or an admin
+  private checkCanManage(email: string, requester: string) {
+    const internal = this.providers.isInternal(email, requester);
+    if (internal && email.toLowerCase() !== requester.toLowerCase() && !isAdmin(requester)) {
+      throw new ForbiddenException('You can only manage the calendar feed on your own address or an external one');
+    }
+  }
+}
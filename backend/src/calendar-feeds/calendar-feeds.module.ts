@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { CalendarFeedsService } from './calendar-feeds.service';
+import { CalendarFeedsController } from './calendar-feeds.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { PolicyModule } from '../policy/policy.module';
+
+@Module({
+  imports: [PrismaModule, AuthModule, CalendarProvidersModule, PolicyModule],
+  controllers: [CalendarFeedsController],
+  providers: [CalendarFeedsService],
+  exports: [CalendarFeedsService],
+})
+export class CalendarFeedsModule { }
@@ -0,0 +1,203 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import axios from 'axios';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { Interval } from '../availability/types';
+import { mergeIntervals } from '../availability/availability-engine';
+import { PolicyService } from '../policy/policy.service';
+import { icalBusyIntervals, parseIcal } from './ical';
+import { CalendarFeedDTO, CalendarFeedSummary } from './types';
+const logger = new Logger('CalendarFeedsService');
+
+// Feeds larger than this are rejected rather than parsed
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10000;
+
+// Feed URLs come from users, so they may only reach public addresses: never loopback, link-local or private networks
+const NON_PUBLIC = new BlockList();
+for (const [address, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+  NON_PUBLIC.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]] as const) {
+  NON_PUBLIC.addSubnet(address, prefix, 'ipv6');
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * https URL whose host, if written as an IP address, is public. Named hosts are checked when they are resolved.
+ */
+function checkFeedUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BadRequestException('Feed URL is not a valid URL');
+  }
+  if (parsed.protocol !== 'https:') throw new BadRequestException('Feed URL must be https (or webcal)');
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) throw new BadRequestException('Feed URL must point to a public address');
+}
+
+// Resolves like the default lookup, but refuses hosts with a non-public address; used for every connection, so a
+// redirect or a DNS answer that changed since the feed was added can't reach internal services either
+async function publicLookup(hostname: string) {
+  const addresses = await lookup(hostname, { all: true });
+  const blocked = addresses.find(a => !isPublicAddress(a.address));
+  if (blocked) throw new Error(`${hostname} resolves to a non-public address (${blocked.address})`);
+  return addresses;
+}
+
+/**
+ * iCalendar free/busy sources for attendees outside the tenant. URL feeds are fetched on demand and cached
+ * for CALENDAR_FEED_CACHE_MINUTES; if a refresh fails the last good copy keeps being used.
+ */
+@Injectable()
+export class CalendarFeedsService {
+  private cache = new Map<string, { text: string; fetchedAt: number }>();
+
+  constructor(@Inject('PRISMA') private prisma: any, private policy: PolicyService) { }
+
+  private cacheMs(): number {
+    return parseInt(process.env.CALENDAR_FEED_CACHE_MINUTES || '15', 10) * 60 * 1000;
+  }
+
+  /**
+   * Every feed, or only those `visibleTo` can see: the one on their own address and the ones they added
+   */
+  async listFeeds(visibleTo?: string): Promise<CalendarFeedSummary[]> {
+    const key = visibleTo?.toLowerCase();
+    const where = key ? { OR: [{ email: key }, { addedBy: key }] } : {};
+    const feeds = await this.prisma.calendarFeed.findMany({ where, orderBy: { email: 'asc' } });
+    return feeds.map((f: any) => this.toSummary(f));
+  }
+
+  async getFeed(email: string): Promise<CalendarFeedSummary> {
+    const feed = await this.prisma.calendarFeed.findUnique({ where: { email: email.toLowerCase() } });
+    if (!feed) throw new NotFoundException(`No calendar feed for ${email}`);
+    return this.toSummary(feed);
+  }
+
+  /**
+   * Attach (or replace) the feed on `email`; `addedBy` is recorded, and may remove it again
+   */
+  async setFeed(email: string, dto: CalendarFeedDTO, addedBy?: string): Promise<CalendarFeedSummary> {
+    const key = email.toLowerCase();
+    if (!!dto.url === !!dto.ics) throw new BadRequestException('Provide either url or ics');
+
+    let text: string;
+    let url: string | null = null;
+    if (dto.url) {
+      url = this.normalizeUrl(dto.url);
+      text = await this.fetchFeed(url);
+    } else {
+      text = dto.ics!;
+    }
+    if (!parseIcal(text).components.some(c => c.type === 'VCALENDAR')) {
+      throw new BadRequestException('Not an iCalendar document (no VCALENDAR)');
+    }
+
+    const data = { url, content: url ? null : text, addedBy: addedBy?.toLowerCase() ?? null, lastFetchedAt: new Date(), lastError: null };
+    const feed = await this.prisma.calendarFeed.upsert({ where: { email: key }, update: data, create: { email: key, ...data } });
+    this.cache.set(key, { text, fetchedAt: Date.now() });
+    logger.log(`Attached ${url ? 'iCalendar feed' : 'uploaded .ics'} to ${key}`);
+    return this.toSummary(feed);
+  }
+
+  async removeFeed(email: string) {
+    const key = email.toLowerCase();
+    const existing = await this.prisma.calendarFeed.findUnique({ where: { email: key } });
+    if (!existing) throw new NotFoundException(`No calendar feed for ${email}`);
+    await this.prisma.calendarFeed.delete({ where: { email: key } });
+    this.cache.delete(key);
+    logger.log(`Removed calendar feed for ${key}`);
+    return { message: 'Calendar feed removed', email: key };
+  }
+
+  /**
+   * Lowercased addresses among `emails` that have a feed
+   */
+  async emailsWithFeeds(emails: string[]): Promise<Set<string>> {
+    if (emails.length === 0) return new Set();
+    const feeds = await this.prisma.calendarFeed.findMany({
+      where: { email: { in: emails.map(e => e.toLowerCase()) } },
+      select: { email: true },
+    });
+    return new Set(feeds.map((f: any) => f.email));
+  }
+
+  /**
+   * Busy intervals in [from, to) per lowercased address, for the addresses that have a readable feed
+   */
+  async getBusyIntervals(emails: string[], from: Date, to: Date): Promise<Record<string, Interval[]>> {
+    const result: Record<string, Interval[]> = {};
+    if (emails.length === 0) return result;
+    const feeds = await this.prisma.calendarFeed.findMany({ where: { email: { in: emails.map(e => e.toLowerCase()) } } });
+    for (const feed of feeds) {
+      const text = await this.getFeedText(feed);
+      if (text === null) continue;
+      try {
+        // Floating times are read in the attendee's timezone (their policy's, which falls back to the organization's)
+        const { timeZone } = await this.policy.getPolicyForUser(feed.email);
+        result[feed.email] = mergeIntervals(icalBusyIntervals(text, from, to, timeZone));
+      } catch (error: any) {
+        logger.warn(`Could not parse calendar feed for ${feed.email}: ${error.message}`);
+      }
+    }
+    return result;
+  }
+
+  private async getFeedText(feed: any): Promise<string | null> {
+    if (!feed.url) return feed.content;
+
+    const cached = this.cache.get(feed.email);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheMs()) return cached.text;
+    try {
+      const text = await this.fetchFeed(feed.url);
+      this.cache.set(feed.email, { text, fetchedAt: Date.now() });
+      await this.prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastFetchedAt: new Date(), lastError: null } });
+      return text;
+    } catch (error: any) {
+      logger.warn(`Could not refresh calendar feed for ${feed.email}: ${error.message}`);
+      await this.prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastError: String(error.message).slice(0, 500) } });
+      return cached?.text ?? null;
+    }
+  }
+
+  private normalizeUrl(raw: string): string {
+    const url = raw.trim().replace(/^webcals?:\/\//i, 'https://');
+    checkFeedUrl(url);
+    return url;
+  }
+
+  private async fetchFeed(url: string): Promise<string> {
+    try {
+      checkFeedUrl(url);
+      const resp = await axios.get(url, {
+        responseType: 'text',
+        timeout: FETCH_TIMEOUT_MS,
+        maxContentLength: MAX_FEED_BYTES,
+        headers: { Accept: 'text/calendar, */*' },
+        lookup: publicLookup,
+        beforeRedirect: options => checkFeedUrl(options.href),
+      });
+      return resp.data;
+    } catch (error: any) {
+      throw new BadRequestException(`Could not fetch calendar feed: ${error.message}`);
+    }
+  }
+
+  private toSummary(feed: any): CalendarFeedSummary {
+    return {
+      email: feed.email,
+      source: feed.url ? 'url' : 'file',
+      url: feed.url ?? undefined,
+      addedBy: feed.addedBy ?? undefined,
+      lastFetchedAt: feed.lastFetchedAt?.toISOString(),
+      lastError: feed.lastError ?? undefined,
+    };
+  }
+}
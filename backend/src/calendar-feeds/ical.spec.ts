@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { icalBusyIntervals, icalEventOccurrences } from './ical';
+
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+const event = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+const JANUARY = [new Date('2030-01-01T00:00:00Z'), new Date('2030-02-01T00:00:00Z')] as const;
+const spans = (intervals: { start: Date; end: Date }[]) =>
+  intervals.map(i => `${i.start.toISOString().slice(0, 16)}/${i.end.toISOString().slice(11, 16)}`);
+
+// 09:00-10:00 in Berlin, 08:00Z in winter
+const berlinDaily = (...extra: string[]) => event(
+  'UID:standup',
+  'DTSTART;TZID=Europe/Berlin:20300107T090000',
+  'DTEND;TZID=Europe/Berlin:20300107T100000',
+  ...extra,
+);
+
+describe('icalBusyIntervals: recurring events', () => {
+  it('stops a series after COUNT occurrences', () => {
+    const ics = calendar(...berlinDaily('RRULE:FREQ=DAILY;COUNT=3'));
+    assert.deepEqual(spans(icalBusyIntervals(ics, ...JANUARY)), ['2030-01-07T08:00/09:00', '2030-01-08T08:00/09:00', '2030-01-09T08:00/09:00']);
+  });
+
+  it('counts COUNT from DTSTART, not from the start of the window', () => {
+    const ics = calendar(...berlinDaily('RRULE:FREQ=DAILY;COUNT=3'));
+    assert.deepEqual(spans(icalBusyIntervals(ics, new Date('2030-01-08T12:00:00Z'), JANUARY[1])), ['2030-01-09T08:00/09:00']);
+  });
+
+  it('stops a series at UNTIL, on each BYDAY', () => {
+    const ics = calendar(...berlinDaily('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20300116T235959Z'));
+    assert.deepEqual(spans(icalBusyIntervals(ics, ...JANUARY)), [
+      '2030-01-07T08:00/09:00', '2030-01-09T08:00/09:00', '2030-01-14T08:00/09:00', '2030-01-16T08:00/09:00',
+    ]);
+  });
+
+  it('drops EXDATE occurrences', () => {
+    const ics = calendar(...berlinDaily('RRULE:FREQ=DAILY;COUNT=4', 'EXDATE;TZID=Europe/Berlin:20300108T090000,20300109T090000'));
+    assert.deepEqual(spans(icalBusyIntervals(ics, ...JANUARY)), ['2030-01-07T08:00/09:00', '2030-01-10T08:00/09:00']);
+  });
+
+  it('puts a RECURRENCE-ID instance in place of the occurrence it moved', () => {
+    const ics = calendar(
+      ...berlinDaily('RRULE:FREQ=DAILY;COUNT=3'),
+      ...event(
+        'UID:standup',
+        'RECURRENCE-ID;TZID=Europe/Berlin:20300108T090000',
+        'DTSTART;TZID=Europe/Berlin:20300108T140000',
+        'DTEND;TZID=Europe/Berlin:20300108T150000',
+      ),
+    );
+    assert.deepEqual(spans(icalBusyIntervals(ics, ...JANUARY)), ['2030-01-07T08:00/09:00', '2030-01-08T13:00/14:00', '2030-01-09T08:00/09:00']);
+  });
+
+  it('finds occurrences of a long-running series far from its DTSTART', () => {
+    const ics = calendar(...event('UID:old', 'DTSTART:20100104T150000Z', 'DTEND:20100104T153000Z', 'RRULE:FREQ=WEEKLY;INTERVAL=2'));
+    const intervals = icalBusyIntervals(ics, new Date('2030-01-01T00:00:00Z'), new Date('2030-01-15T00:00:00Z'));
+    assert.deepEqual(spans(intervals), ['2030-01-07T15:00/15:30']);
+  });
+
+  it('skips transparent and cancelled events', () => {
+    const ics = calendar(
+      ...event('UID:a', 'DTSTART:20300107T090000Z', 'DTEND:20300107T100000Z', 'TRANSP:TRANSPARENT'),
+      ...event('UID:b', 'DTSTART:20300107T110000Z', 'DTEND:20300107T120000Z', 'STATUS:CANCELLED'),
+      ...event('UID:c', 'DTSTART:20300107T130000Z', 'DURATION:PT45M'),
+    );
+    assert.deepEqual(spans(icalBusyIntervals(ics, ...JANUARY)), ['2030-01-07T13:00/13:45']);
+  });
+});
+
+describe('icalBusyIntervals: timezones', () => {
+  const windowsZone = [
+    'BEGIN:VTIMEZONE',
+    'TZID:W. Europe Standard Time',
+    'BEGIN:STANDARD',
+    'DTSTART:16011028T030000',
+    'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10',
+    'TZOFFSETFROM:+0200',
+    'TZOFFSETTO:+0100',
+    'END:STANDARD',
+    'BEGIN:DAYLIGHT',
+    'DTSTART:16010325T020000',
+    'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3',
+    'TZOFFSETFROM:+0100',
+    'TZOFFSETTO:+0200',
+    'END:DAYLIGHT',
+    'END:VTIMEZONE',
+  ];
+
+  it('reads Windows TZIDs through the feed\'s VTIMEZONE, summer and winter', () => {
+    const ics = calendar(
+      ...windowsZone,
+      ...event('UID:w', 'DTSTART;TZID=W. Europe Standard Time:20300107T090000', 'DTEND;TZID=W. Europe Standard Time:20300107T100000'),
+      ...event('UID:s', 'DTSTART;TZID=W. Europe Standard Time:20300708T090000', 'DTEND;TZID=W. Europe Standard Time:20300708T100000'),
+    );
+    const intervals = icalBusyIntervals(ics, new Date('2030-01-01T00:00:00Z'), new Date('2031-01-01T00:00:00Z'));
+    assert.deepEqual(spans(intervals), ['2030-01-07T08:00/09:00', '2030-07-08T07:00/08:00']);
+  });
+
+  it('switches offset at the VTIMEZONE transition', () => {
+    // DST starts on 2030-03-31 in this zone
+    const ics = calendar(...windowsZone, ...event(
+      'UID:d',
+      'DTSTART;TZID=W. Europe Standard Time:20300329T090000',
+      'DTEND;TZID=W. Europe Standard Time:20300329T100000',
+      'RRULE:FREQ=DAILY;COUNT=4',
+    ));
+    const intervals = icalBusyIntervals(ics, new Date('2030-03-01T00:00:00Z'), new Date('2030-04-30T00:00:00Z'));
+    assert.deepEqual(spans(intervals), ['2030-03-29T08:00/09:00', '2030-03-30T08:00/09:00', '2030-03-31T07:00/08:00', '2030-04-01T07:00/08:00']);
+  });
+
+  it('reads floating times in the given zone, unless the feed names its own', () => {
+    const floating = event('UID:f', 'DTSTART:20300107T090000', 'DTEND:20300107T100000');
+    assert.deepEqual(spans(icalBusyIntervals(calendar(...floating), ...JANUARY, 'America/New_York')), ['2030-01-07T14:00/15:00']);
+    assert.deepEqual(spans(icalBusyIntervals(calendar(...floating), ...JANUARY)), ['2030-01-07T09:00/10:00']);
+    assert.deepEqual(spans(icalBusyIntervals(calendar('X-WR-TIMEZONE:Asia/Tokyo', ...floating), ...JANUARY, 'America/New_York')), ['2030-01-07T00:00/01:00']);
+  });
+
+  it('covers the whole local day for all-day events', () => {
+    const ics = calendar(...event('UID:h', 'DTSTART;VALUE=DATE:20300107', 'DTEND;VALUE=DATE:20300109'));
+    const [busy] = icalBusyIntervals(ics, ...JANUARY, 'Asia/Kolkata');
+    assert.equal(busy.start.toISOString(), '2030-01-06T18:30:00.000Z');
+    assert.equal(busy.end.toISOString(), '2030-01-08T18:30:00.000Z');
+  });
+});
+
+describe('icalBusyIntervals: VFREEBUSY', () => {
+  it('takes busy periods (end or duration), skipping FBTYPE=FREE and periods outside the window', () => {
+    const ics = calendar(
+      'BEGIN:VFREEBUSY',
+      'FREEBUSY:20300107T090000Z/20300107T100000Z,20300107T120000Z/PT30M',
+      'FREEBUSY;FBTYPE=BUSY-TENTATIVE:20300108T090000Z/20300108T093000Z',
+      'FREEBUSY;FBTYPE=FREE:20300109T090000Z/20300109T170000Z',
+      'FREEBUSY:20300301T090000Z/20300301T100000Z',
+      'END:VFREEBUSY',
+    );
+    assert.deepEqual(spans(icalBusyIntervals(ics, ...JANUARY)), ['2030-01-07T09:00/10:00', '2030-01-07T12:00/12:30', '2030-01-08T09:00/09:30']);
+  });
+});
+
+describe('icalEventOccurrences', () => {
+  it('keeps cancelled and transparent events, with the event they came from', () => {
+    const ics = calendar(...event('UID:x', 'SUMMARY:Offsite', 'DTSTART:20300107T090000Z', 'DTEND:20300107T100000Z', 'STATUS:CANCELLED'));
+    const [occurrence] = icalEventOccurrences(ics, ...JANUARY);
+    assert.equal(occurrence.start.toISOString(), '2030-01-07T09:00:00.000Z');
+    assert.equal(occurrence.event.properties.find(p => p.name === 'SUMMARY')?.value, 'Offsite');
+  });
+});
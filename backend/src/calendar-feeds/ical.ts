@@ -0,0 +1,466 @@
+import { Interval } from '../availability/types';
+import { addDaysToDateString, dayOfWeek, isValidTimeZone, zonedTimeToUtc } from '../policy/timezone';
+
+/**
+ * Minimal iCalendar (RFC 5545) reader for free/busy purposes: VEVENT (with RRULE/RDATE/EXDATE and
+ * RECURRENCE-ID overrides) and VFREEBUSY, with times resolved through IANA zones or the feed's VTIMEZONEs.
+ */
+
+export interface IcalProperty { name: string; params: Record<string, string>; value: string; }
+export interface IcalComponent { type: string; properties: IcalProperty[]; components: IcalComponent[]; }
+
+// Wall-clock value as written in the feed
+interface LocalDateTime { date: string; time: string; utc: boolean; dateOnly: boolean; tzid?: string; }
+
+interface Rrule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: LocalDateTime;
+  byDay?: { ordinal?: number; day: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Safety cap: a rule that can never match (e.g. BYMONTHDAY=31;BYMONTH=2) stops after this many empty periods
+const MAX_EMPTY_RRULE_PERIODS = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseIcal(text: string): IcalComponent {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const root: IcalComponent = { type: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: IcalComponent = { type: property.value.toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root;
+}
+
+function parseProperty(line: string): IcalProperty | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function prop(component: IcalComponent, name: string): IcalProperty | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+function props(component: IcalComponent, name: string): IcalProperty[] {
+  return component.properties.filter(p => p.name === name);
+}
+
+function findComponents(component: IcalComponent, type: string): IcalComponent[] {
+  return component.components.flatMap(c => (c.type === type ? [c] : findComponents(c, type)));
+}
+
+function parseDateTime(value: string, tzid?: string): LocalDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  return {
+    date: `${match[1]}-${match[2]}-${match[3]}`,
+    time: match[4] ? `${match[4]}:${match[5]}` : '00:00',
+    utc: !!match[7],
+    dateOnly: !match[4],
+    tzid,
+  };
+}
+
+function parseDateTimeProperty(property?: IcalProperty): LocalDateTime | null {
+  return property ? parseDateTime(property.value, property.params.TZID) : null;
+}
+
+/**
+ * ISO 8601 duration as used by iCalendar (e.g. "PT1H30M", "P1D", "P2W"), in milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((parseInt(w || '0', 10) * 7 + parseInt(d || '0', 10)) * 24 * 3600
+    + parseInt(h || '0', 10) * 3600 + parseInt(m || '0', 10) * 60 + parseInt(s || '0', 10)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseOffset(value: string): number {
+  const match = /^([+-])(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) return 0;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function parseRrule(value: string): Rrule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val;
+  }
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(parts.FREQ)) return null;
+  const numbers = (list?: string) => list?.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n));
+  return {
+    freq: parts.FREQ as Rrule['freq'],
+    interval: Math.max(parseInt(parts.INTERVAL || '1', 10) || 1, 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseDateTime(parts.UNTIL) ?? undefined : undefined,
+    byDay: parts.BYDAY?.split(',').flatMap(d => {
+      const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(d.trim().toUpperCase());
+      const day = match ? WEEKDAY_CODES.indexOf(match[2]) : -1;
+      return day >= 0 ? [{ ordinal: match![1] ? parseInt(match![1], 10) : undefined, day }] : [];
+    }),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Days of a month matching BYMONTHDAY / BYDAY (ordinals count within the month), or `fallbackDay`
+ */
+function monthCandidates(year: number, month: number, rule: Rrule, fallbackDay: number): string[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+  if (rule.byMonthDay?.length) {
+    days = rule.byMonthDay.map(d => (d < 0 ? length + d + 1 : d)).filter(d => d >= 1 && d <= length);
+  } else if (rule.byDay?.length) {
+    days = [];
+    for (const { ordinal, day } of rule.byDay) {
+      const matching: number[] = [];
+      for (let d = 1; d <= length; d++) {
+        if (dayOfWeek(toDateString(year, month, d)) === day) matching.push(d);
+      }
+      if (ordinal === undefined) days.push(...matching);
+      else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked) days.push(picked);
+      }
+    }
+  } else {
+    days = fallbackDay <= length ? [fallbackDay] : [];
+  }
+  // BYDAY without ordinals also narrows BYMONTHDAY
+  if (rule.byMonthDay?.length && rule.byDay?.length) {
+    const weekdays = rule.byDay.map(d => d.day);
+    days = days.filter(d => weekdays.includes(dayOfWeek(toDateString(year, month, d))));
+  }
+  return Array.from(new Set(days)).sort((a, b) => a - b).map(d => toDateString(year, month, d));
+}
+
+function applySetPos(dates: string[], setPos?: number[]): string[] {
+  if (!setPos?.length) return dates;
+  return setPos.map(p => (p > 0 ? dates[p - 1] : dates[dates.length + p])).filter(Boolean).sort();
+}
+
+const dayNumber = (date: string) => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+
+// Monday of the week `date` is in (weeks start on Monday, the RFC default WKST)
+const weekStartOf = (date: string) => addDaysToDateString(date, -((dayOfWeek(date) + 6) % 7));
+
+/**
+ * Whole periods of the rule (FREQ × INTERVAL) from the one holding `startDate` to the one holding `firstDate`
+ */
+function periodsUntil(rule: Rrule, startDate: string, firstDate: string): number {
+  if (firstDate <= startDate) return 0;
+  const [sy, sm] = startDate.split('-').map(n => parseInt(n, 10));
+  const [fy, fm] = firstDate.split('-').map(n => parseInt(n, 10));
+  const units = rule.freq === 'DAILY' ? dayNumber(firstDate) - dayNumber(startDate)
+    : rule.freq === 'WEEKLY' ? (dayNumber(weekStartOf(firstDate)) - dayNumber(weekStartOf(startDate))) / 7
+    : rule.freq === 'MONTHLY' ? (fy - sy) * 12 + fm - sm
+    : fy - sy;
+  return Math.floor(units / rule.interval);
+}
+
+/**
+ * Local dates of a recurrence rule starting at `startDate` that fall in [firstDate, lastDate] (inclusive), up to the
+ * rule's COUNT. Without a COUNT, expansion starts at the period holding `firstDate` rather than at `startDate`, so a
+ * long-running series costs the same as a new one; with one, occurrences have to be counted from the start.
+ * UNTIL is left to the caller, which compares instants.
+ */
+function expandRruleDates(rule: Rrule, startDate: string, firstDate: string, lastDate: string): string[] {
+  const [sy, sm, sd] = startDate.split('-').map(n => parseInt(n, 10));
+  const result: string[] = [];
+  const weekdays = rule.byDay?.map(d => d.day);
+  let counted = 0;
+  let emptyPeriods = 0;
+
+  for (let period = rule.count === undefined ? periodsUntil(rule, startDate, firstDate) : 0; emptyPeriods < MAX_EMPTY_RRULE_PERIODS; period++) {
+    let candidates: string[];
+    if (rule.freq === 'DAILY') {
+      const date = addDaysToDateString(startDate, period * rule.interval);
+      candidates = [date];
+      if (weekdays?.length) candidates = candidates.filter(d => weekdays.includes(dayOfWeek(d)));
+      if (rule.byMonthDay?.length) candidates = candidates.filter(d => rule.byMonthDay!.includes(parseInt(d.slice(8), 10)));
+    } else if (rule.freq === 'WEEKLY') {
+      const weekStart = addDaysToDateString(weekStartOf(startDate), period * 7 * rule.interval);
+      const days = weekdays?.length ? weekdays : [dayOfWeek(startDate)];
+      candidates = days.map(d => addDaysToDateString(weekStart, (d + 6) % 7)).sort();
+    } else if (rule.freq === 'MONTHLY') {
+      const monthIndex = sm - 1 + period * rule.interval;
+      candidates = monthCandidates(sy + Math.floor(monthIndex / 12), (monthIndex % 12) + 1, rule, sd);
+    } else {
+      const year = sy + period * rule.interval;
+      const months = rule.byMonth?.length ? rule.byMonth : [sm];
+      candidates = months.flatMap(m => monthCandidates(year, m, rule, sd)).sort();
+    }
+    if (rule.byMonth?.length && rule.freq !== 'YEARLY') {
+      candidates = candidates.filter(d => rule.byMonth!.includes(parseInt(d.slice(5, 7), 10)));
+    }
+
+    const dates = applySetPos(candidates, rule.bySetPos);
+    emptyPeriods = dates.length > 0 ? 0 : emptyPeriods + 1;
+    for (const date of dates) {
+      if (date < startDate) continue;
+      if (date > lastDate || (rule.count !== undefined && counted >= rule.count)) return result;
+      counted++;
+      if (date >= firstDate) result.push(date);
+    }
+    if (candidates.length > 0 && candidates[0] > lastDate) return result;
+  }
+  return result;
+}
+
+/**
+ * Turns wall-clock values into instants: IANA TZIDs via the runtime tz database, other TZIDs (e.g. Windows
+ * names from Outlook) via the feed's VTIMEZONE definitions, floating times in the feed's default zone.
+ */
+class TimeResolver {
+  private vtimezones = new Map<string, { offsetTo: number; start: LocalDateTime; rule: Rrule | null }[]>();
+
+  constructor(calendar: IcalComponent, private defaultZone: string) {
+    for (const vtimezone of findComponents(calendar, 'VTIMEZONE')) {
+      const tzid = prop(vtimezone, 'TZID')?.value;
+      if (!tzid) continue;
+      const observances = vtimezone.components
+        .filter(c => c.type === 'STANDARD' || c.type === 'DAYLIGHT')
+        .map(c => ({
+          offsetTo: parseOffset(prop(c, 'TZOFFSETTO')?.value || '+0000'),
+          start: parseDateTimeProperty(prop(c, 'DTSTART'))!,
+          rule: prop(c, 'RRULE') ? parseRrule(prop(c, 'RRULE')!.value) : null,
+        }))
+        .filter(o => o.start);
+      this.vtimezones.set(tzid, observances);
+    }
+  }
+
+  toInstant(value: LocalDateTime): Date {
+    if (value.utc) return new Date(`${value.date}T${value.time}:00Z`);
+    const tzid = value.tzid;
+    if (tzid && isValidTimeZone(tzid)) return zonedTimeToUtc(value.date, value.time, tzid);
+    if (tzid && this.vtimezones.has(tzid)) return this.fromVtimezone(value, this.vtimezones.get(tzid)!);
+    // e.g. "/mozilla.org/20050126_1/Europe/Berlin"
+    const suffix = tzid?.split('/').slice(-2).join('/');
+    if (suffix && isValidTimeZone(suffix)) return zonedTimeToUtc(value.date, value.time, suffix);
+    return zonedTimeToUtc(value.date, value.time, this.defaultZone);
+  }
+
+  private fromVtimezone(value: LocalDateTime, observances: { offsetTo: number; start: LocalDateTime; rule: Rrule | null }[]): Date {
+    const local = `${value.date}T${value.time}`;
+    // The most recent transition at or before the local time decides the offset
+    let best: { at: string; offset: number } | null = null;
+    for (const o of observances) {
+      const yearBefore = `${parseInt(value.date.slice(0, 4), 10) - 1}-01-01`;
+      const from = o.start.date > yearBefore ? o.start.date : yearBefore;
+      const dates = o.rule
+        ? expandRruleDates({ ...o.rule, count: undefined }, o.start.date, from, value.date)
+        : [o.start.date];
+      for (const date of dates) {
+        const at = `${date}T${o.start.time}`;
+        if (at <= local && (!best || at > best.at)) best = { at, offset: o.offsetTo };
+      }
+    }
+    const offset = best?.offset ?? observances[0]?.offsetTo ?? 0;
+    return new Date(new Date(`${local}:00Z`).getTime() - offset * 60000);
+  }
+
+  /**
+   * Start of the given local day in the feed's default zone (all-day events)
+   */
+  dayStart(date: string): Date {
+    return zonedTimeToUtc(date, '00:00', this.defaultZone);
+  }
+}
+
+function isBusyEvent(event: IcalComponent): boolean {
+  if ((prop(event, 'STATUS')?.value || '').toUpperCase() === 'CANCELLED') return false;
+  return (prop(event, 'TRANSP')?.value || 'OPAQUE').toUpperCase() !== 'TRANSPARENT';
+}
+
+export interface IcalOccurrence { start: Date; end: Date; event: IcalComponent; }
+
+/**
+ * Value of the first `name` property of a component, with TEXT escapes (\n, \, etc.) undone
+ */
+export function icalText(component: IcalComponent, name: string): string | undefined {
+  const value = prop(component, name)?.value;
+  return value === undefined ? undefined : value.replace(/\\([nN\;,])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+export function icalProperties(component: IcalComponent, name: string): IcalProperty[] {
+  return props(component, name);
+}
+
+function timeResolverFor(calendar: IcalComponent, defaultZone: string): TimeResolver {
+  const feedZone = findComponents(calendar, 'VCALENDAR').map(c => prop(c, 'X-WR-TIMEZONE')?.value).find(z => z && isValidTimeZone(z));
+  return new TimeResolver(calendar, feedZone || defaultZone);
+}
+
+/**
+ * First start and length of an event as written (DTSTART with DTEND or DURATION), null without a DTSTART
+ */
+function eventTiming(event: IcalComponent, resolver: TimeResolver) {
+  const start = parseDateTimeProperty(prop(event, 'DTSTART'));
+  if (!start) return null;
+  const toInstant = (value: LocalDateTime) => (value.dateOnly ? resolver.dayStart(value.date) : resolver.toInstant(value));
+  const firstStart = toInstant(start);
+  const end = parseDateTimeProperty(prop(event, 'DTEND'));
+  const duration = prop(event, 'DURATION') ? parseDuration(prop(event, 'DURATION')!.value) : null;
+  const durationMs = end ? toInstant(end).getTime() - firstStart.getTime() : duration ?? (start.dateOnly ? 24 * 3600 * 1000 : 0);
+  return { start, firstStart, durationMs, toInstant };
+}
+
+/**
+ * Every VEVENT of a document with its first start/end resolved to instants (series are not expanded)
+ */
+export function icalEvents(text: string, defaultZone = 'UTC'): IcalOccurrence[] {
+  const calendar = parseIcal(text);
+  const resolver = timeResolverFor(calendar, defaultZone);
+  return findComponents(calendar, 'VEVENT').flatMap(event => {
+    const timing = eventTiming(event, resolver);
+    return timing ? [{ start: timing.firstStart, end: new Date(timing.firstStart.getTime() + timing.durationMs), event }] : [];
+  });
+}
+
+/**
+ * VEVENT occurrences overlapping [from, to), series expanded and RECURRENCE-ID instances standing in for the
+ * occurrence they replace. Cancelled and transparent events are included; see icalBusyIntervals for busy time only.
+ */
+export function icalEventOccurrences(text: string, from: Date, to: Date, defaultZone = 'UTC'): IcalOccurrence[] {
+  const calendar = parseIcal(text);
+  return expandEvents(calendar, timeResolverFor(calendar, defaultZone), from, to);
+}
+
+function expandEvents(calendar: IcalComponent, resolver: TimeResolver, from: Date, to: Date): IcalOccurrence[] {
+  const occurrences: IcalOccurrence[] = [];
+  const keep = (start: Date, end: Date, event: IcalComponent) => {
+    if (end > start && start < to && end > from) occurrences.push({ start, end, event });
+  };
+
+  const events = findComponents(calendar, 'VEVENT');
+  // RECURRENCE-ID instances replace the occurrence of their series they were moved from
+  const overridden = new Map<string, Set<number>>();
+  for (const event of events) {
+    const uid = prop(event, 'UID')?.value;
+    const recurrenceId = parseDateTimeProperty(prop(event, 'RECURRENCE-ID'));
+    if (!uid || !recurrenceId) continue;
+    if (!overridden.has(uid)) overridden.set(uid, new Set());
+    overridden.get(uid)!.add(resolver.toInstant(recurrenceId).getTime());
+  }
+
+  for (const event of events) {
+    const timing = eventTiming(event, resolver);
+    if (!timing) continue;
+    const { start, firstStart, durationMs, toInstant } = timing;
+
+    const rule = prop(event, 'RRULE') ? parseRrule(prop(event, 'RRULE')!.value) : null;
+    const isOverride = !!prop(event, 'RECURRENCE-ID');
+    if (!rule || isOverride) {
+      keep(firstStart, new Date(firstStart.getTime() + durationMs), event);
+      continue;
+    }
+
+    const excluded = new Set<number>(overridden.get(prop(event, 'UID')?.value || '') || []);
+    for (const exdate of props(event, 'EXDATE')) {
+      for (const value of exdate.value.split(',')) {
+        const parsed = parseDateTime(value, exdate.params.TZID ?? start.tzid);
+        if (parsed) excluded.add(toInstant(parsed).getTime());
+      }
+    }
+    const until = rule.until ? (rule.until.dateOnly ? resolver.dayStart(addDaysToDateString(rule.until.date, 1)) : toInstant({ ...rule.until, tzid: rule.until.utc ? undefined : start.tzid })) : null;
+    // Local days from the earliest start that can still overlap the window to a day past its end (plus slack for
+    // zone offsets) are as far as we need to go
+    const firstDate = addDaysToDateString(from.toISOString().slice(0, 10), -Math.ceil(durationMs / DAY_MS) - 2);
+    const lastDate = addDaysToDateString(to.toISOString().slice(0, 10), 2);
+
+    const occurrenceStarts = expandRruleDates(rule, start.date, firstDate, lastDate).map(date => toInstant({ ...start, date }));
+    for (const rdate of props(event, 'RDATE')) {
+      for (const value of rdate.value.split(',')) {
+        const parsed = parseDateTime(value.split('/')[0], rdate.params.TZID ?? start.tzid);
+        if (parsed) occurrenceStarts.push(toInstant(parsed));
+      }
+    }
+    for (const occurrenceStart of occurrenceStarts) {
+      if (until && occurrenceStart > until) continue;
+      if (excluded.has(occurrenceStart.getTime())) continue;
+      keep(occurrenceStart, new Date(occurrenceStart.getTime() + durationMs), event);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Busy intervals in [from, to) from an iCalendar document: opaque, non-cancelled VEVENT occurrences and
+ * FREEBUSY periods other than FBTYPE=FREE. `defaultZone` applies to floating times unless the feed sets X-WR-TIMEZONE.
+ */
+export function icalBusyIntervals(text: string, from: Date, to: Date, defaultZone = 'UTC'): Interval[] {
+  const calendar = parseIcal(text);
+  const resolver = timeResolverFor(calendar, defaultZone);
+  const busy: Interval[] = expandEvents(calendar, resolver, from, to)
+    .filter(o => isBusyEvent(o.event))
+    .map(o => ({ start: o.start, end: o.end }));
+
+  for (const freebusy of findComponents(calendar, 'VFREEBUSY')) {
+    for (const property of props(freebusy, 'FREEBUSY')) {
+      if ((property.params.FBTYPE || 'BUSY').toUpperCase() === 'FREE') continue;
+      for (const period of property.value.split(',')) {
+        const [startValue, endValue] = period.split('/');
+        const periodStart = parseDateTime(startValue);
+        if (!periodStart || !endValue) continue;
+        const startInstant = resolver.toInstant(periodStart);
+        const periodEnd = parseDateTime(endValue);
+        const periodDuration = periodEnd ? null : parseDuration(endValue);
+        const endInstant = periodEnd ? resolver.toInstant(periodEnd) : new Date(startInstant.getTime() + (periodDuration ?? 0));
+        if (endInstant > startInstant && startInstant < to && endInstant > from) busy.push({ start: startInstant, end: endInstant });
+      }
+    }
+  }
+
+  return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -0,0 +1,13 @@
+export interface CalendarFeedDTO {
+  url?: string; // https or webcal URL of an .ics / free-busy feed
+  ics?: string; // or the contents of an .ics file
+}
+
+export interface CalendarFeedSummary {
+  email: string;
+  source: 'url' | 'file';
+  url?: string;
+  addedBy?: string;
+  lastFetchedAt?: string;
+  lastError?: string;
+}
@@ -0,0 +1,320 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+import { createHash, randomUUID } from 'crypto';
+import { IcalComponent, icalEventOccurrences, icalEvents, icalProperties, icalText } from '../calendar-feeds/ical';
+import { attendeeLine, buildIcs, buildRrule, buildVtimezone, escapeText, fold, formatLocal, formatUtc, toIcsAttendee } from '../meetings/ics-writer';
+import { requestWithRetry } from './retry';
+import {
+  AttendeeSchedule, BusyStatus, CalendarEntry, CalendarEvent, CalendarEventInput, CalendarEventPatch,
+  CalendarProvider, DirectoryGroup, DirectoryUser, EventAttendee,
+} from './types';
+const logger = new Logger('CalDavCalendarProvider');
+
+const RESPONSE_STATUS: Record<string, string> = {
+  'NEEDS-ACTION': 'none',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  TENTATIVE: 'tentativelyAccepted',
+};
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/.exec(text);
+  if (cdata) return cdata[1];
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+// Contents of every <ns:name> element in a WebDAV response, whatever the namespace prefix
+function xmlElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, 'g');
+  return Array.from(xml.matchAll(pattern), m => decodeXml(m[1]));
+}
+
+const propertyName = (line: string) => (/^[A-Za-z0-9-]+/.exec(line)?.[0] || '').toUpperCase();
+
+/**
+ * Rewrite the series master (the VEVENT without RECURRENCE-ID) of a stored calendar object: properties named in
+ * `replace` are dropped and the given lines added. Everything else (alarms, X- properties) is kept as is.
+ */
+function patchMasterEvent(text: string, replace: Record<string, string[]>, options: { dropOverrides?: boolean; vtimezone?: { tzid: string; lines: string[] } } = {}): string {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(l => l.trim() !== '');
+  const out: string[] = [];
+  const needsTimezone = options.vtimezone && !lines.some(l => l === `TZID:${options.vtimezone!.tzid}`);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i] !== 'BEGIN:VEVENT') {
+      out.push(lines[i]);
+      continue;
+    }
+    const end = lines.indexOf('END:VEVENT', i);
+    const block = lines.slice(i, end + 1);
+    i = end;
+    const isOverride = block.some(l => propertyName(l) === 'RECURRENCE-ID');
+    if (isOverride) {
+      if (!options.dropOverrides) out.push(...block);
+      continue;
+    }
+    if (needsTimezone && !out.some(l => l.startsWith(`TZID:${options.vtimezone!.tzid}`))) out.push(...options.vtimezone!.lines);
+    // Nested components (VALARM) keep their own properties
+    const kept: string[] = [];
+    let depth = 0;
+    for (const line of block.slice(1, -1)) {
+      if (line.startsWith('BEGIN:')) depth++;
+      if (depth > 0 || !(propertyName(line) in replace)) kept.push(line);
+      if (line.startsWith('END:')) depth--;
+    }
+    out.push('BEGIN:VEVENT', ...kept, ...Object.values(replace).flat(), 'END:VEVENT');
+  }
+  return out.map(fold).join('\r\n') + '\r\n';
+}
+
+/**
+ * Calendars on a CalDAV server (RFC 4791) reached with one service account that can read and write every user's
+ * calendar. Invitations rely on the server's implicit scheduling (RFC 6638); there is no directory or groups.
+ */
+@Injectable()
+export class CalDavCalendarProvider implements CalendarProvider {
+  readonly kind = 'caldav' as const;
+  private client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({ timeout: 20000, responseType: 'text', transformResponse: data => data });
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.CALDAV_URL;
+  }
+
+  private defaultZone(): string {
+    return process.env.ORG_TIMEZONE || 'Asia/Kolkata';
+  }
+
+  /**
+   * The user's calendar collection, from CALDAV_CALENDAR_PATH ({email} and {user}, the local part, are substituted)
+   */
+  private calendarUrl(email: string): string {
+    const base = process.env.CALDAV_URL;
+    if (!base) throw new Error('CalDAV is not configured: set CALDAV_URL');
+    const path = (process.env.CALDAV_CALENDAR_PATH || '/calendars/{email}/default/')
+      .replace('{email}', encodeURIComponent(email.toLowerCase()))
+      .replace('{user}', encodeURIComponent(email.split('@')[0].toLowerCase()));
+    return new URL(path.endsWith('/') ? path : `${path}/`, base).toString();
+  }
+
+  private eventUrl(eventId: string): string {
+    return new URL(eventId, process.env.CALDAV_URL).toString();
+  }
+
+  private async dav(method: string, url: string, options: { data?: string; headers?: Record<string, string> } = {}) {
+    const username = process.env.CALDAV_USERNAME;
+    return requestWithRetry(logger, 'CalDAV', () => this.client.request({
+      method,
+      url,
+      data: options.data,
+      headers: { 'Content-Type': 'application/xml; charset=utf-8', ...options.headers },
+      auth: username ? { username, password: process.env.CALDAV_PASSWORD || '' } : undefined,
+    }));
+  }
+
+  /**
+   * Calendar objects with an event in [from, to); series are expanded here rather than by the server
+   */
+  private async queryCalendar(email: string, from: Date, to: Date): Promise<string[]> {
+    const range = `start="${formatUtc(from)}" end="${formatUtc(to)}"`;
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop><C:calendar-data/></D:prop>
+  <C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT"><C:time-range ${range}/></C:comp-filter></C:comp-filter></C:filter>
+</C:calendar-query>`;
+    const resp = await this.dav('REPORT', this.calendarUrl(email), { data: body, headers: { Depth: '1' } });
+    return xmlElements(resp.data, 'calendar-data');
+  }
+
+  private occurrences(documents: string[], from: Date, to: Date) {
+    return documents.flatMap(doc => icalEventOccurrences(doc, from, to, this.defaultZone()));
+  }
+
+  async getSchedules(viewer: string, emails: string[], from: Date, to: Date): Promise<AttendeeSchedule[]> {
+    const schedules: AttendeeSchedule[] = [];
+    for (const email of emails) {
+      try {
+        const items = this.occurrences(await this.queryCalendar(email, from, to), from, to)
+          .filter(o => (icalText(o.event, 'STATUS') || '').toUpperCase() !== 'CANCELLED')
+          .map(o => ({ start: o.start, end: o.end, status: this.busyStatus(o.event), subject: icalText(o.event, 'SUMMARY'), location: icalText(o.event, 'LOCATION') }));
+        schedules.push({ email, items });
+      } catch (error: any) {
+        logger.warn(`Could not read CalDAV calendar of ${email}: ${error?.message || error}`);
+        schedules.push({ email, items: [], error: error?.response?.status === 404 ? 'notFound' : error?.message || 'unavailable' });
+      }
+    }
+    return schedules;
+  }
+
+  async listEntries(email: string, from: Date, to: Date): Promise<CalendarEntry[]> {
+    return this.occurrences(await this.queryCalendar(email, from, to), from, to).map(o => ({
+      start: o.start,
+      end: o.end,
+      subject: icalText(o.event, 'SUMMARY'),
+      categories: icalProperties(o.event, 'CATEGORIES').flatMap(p => p.value.split(/(?<!\\),/)).map(c => c.replace(/\\,/g, ',').trim()).filter(Boolean),
+      isCancelled: (icalText(o.event, 'STATUS') || '').toUpperCase() === 'CANCELLED',
+    }));
+  }
+
+  async createEvent(organizer: string, event: CalendarEventInput): Promise<CalendarEvent> {
+    // The same transaction id always maps to the same resource, so a retried create can't duplicate the event
+    const name = event.transactionId ? createHash('sha256').update(event.transactionId).digest('hex').slice(0, 32) : randomUUID();
+    const uid = `${name}@agentic-scheduler`;
+    const url = `${this.calendarUrl(organizer)}${name}.ics`;
+    const attendees = event.room
+      ? [...event.attendees, { email: event.room.email, name: event.room.displayName, type: 'resource' as const }]
+      : event.attendees;
+    if (event.isOnlineMeeting) logger.warn(`CalDAV can't create online meeting links; event for ${organizer} has none`);
+
+    const content = buildIcs({
+      uid,
+      sequence: 0,
+      subject: event.subject,
+      description: event.description,
+      location: event.room?.displayName || event.location,
+      start: event.start,
+      end: event.end,
+      organizer: { email: organizer },
+      attendees: attendees.map(toIcsAttendee),
+      recurrence: event.recurrence,
+      timeZone: event.timeZone,
+      tentative: event.showAs === 'tentative',
+    });
+
+    try {
+      await this.dav('PUT', url, { data: content, headers: { 'Content-Type': 'text/calendar; charset=utf-8', 'If-None-Match': '*' } });
+    } catch (error: any) {
+      if (error?.response?.status !== 412) throw error;
+      logger.warn(`Event ${uid} already exists for ${organizer}; returning it instead of creating a duplicate`);
+    }
+    return this.getEvent(organizer, new URL(url).pathname);
+  }
+
+  async getEvent(organizer: string, eventId: string): Promise<CalendarEvent> {
+    const resp = await this.dav('GET', this.eventUrl(eventId));
+    return this.toCalendarEvent(eventId, resp.data);
+  }
+
+  async updateEvent(organizer: string, eventId: string, patch: CalendarEventPatch): Promise<CalendarEvent> {
+    const url = this.eventUrl(eventId);
+    const current = await this.dav('GET', url);
+    const master = this.masterEvent(current.data);
+    const sequence = parseInt(icalText(master.event, 'SEQUENCE') || '0', 10) + 1;
+    const now = formatUtc(new Date());
+
+    const replace: Record<string, string[]> = { SEQUENCE: [`SEQUENCE:${sequence}`], DTSTAMP: [`DTSTAMP:${now}`], 'LAST-MODIFIED': [`LAST-MODIFIED:${now}`] };
+    if (patch.subject) replace.SUMMARY = [`SUMMARY:${escapeText(patch.subject)}`];
+    if (patch.attendees) replace.ATTENDEE = patch.attendees.map(a => attendeeLine(toIcsAttendee(a), true));
+
+    let vtimezone: { tzid: string; lines: string[] } | undefined;
+    const moved = !!(patch.start && patch.end);
+    if (patch.start && patch.end) {
+      if (patch.recurrence && patch.timeZone) {
+        const tz = patch.timeZone;
+        const year = parseInt(formatLocal(patch.start, tz).slice(0, 4), 10);
+        vtimezone = { tzid: tz, lines: buildVtimezone(tz, year, year + 2) };
+        replace.DTSTART = [`DTSTART;TZID=${tz}:${formatLocal(patch.start, tz)}`];
+        replace.DTEND = [`DTEND;TZID=${tz}:${formatLocal(patch.end, tz)}`];
+        replace.RRULE = [buildRrule(patch.recurrence, patch.start, tz)];
+      } else {
+        replace.DTSTART = [`DTSTART:${formatUtc(patch.start)}`];
+        replace.DTEND = [`DTEND:${formatUtc(patch.end)}`];
+      }
+      replace.DURATION = [];
+    }
+
+    // Moving a series invalidates the occurrences it had moved individually, as in Outlook
+    const content = patchMasterEvent(current.data, replace, { dropOverrides: moved, vtimezone });
+    const etag = current.headers?.etag;
+    await this.dav('PUT', url, { data: content, headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...(etag ? { 'If-Match': etag } : {}) } });
+    return this.toCalendarEvent(eventId, content);
+  }
+
+  async cancelEvent(organizer: string, eventId: string, comment?: string): Promise<void> {
+    // With implicit scheduling, deleting the organizer's copy sends attendees a CANCEL (without a message)
+    if (comment) logger.log(`Cancellation comment for ${eventId} is not sent over CalDAV`);
+    await this.dav('DELETE', this.eventUrl(eventId));
+  }
+
+  async deleteEvent(organizer: string, eventId: string): Promise<void> {
+    // SCHEDULE-AGENT=CLIENT (RFC 6638) tells the server not to send attendees anything for the delete
+    const url = this.eventUrl(eventId);
+    const current = await this.dav('GET', url);
+    const attendees = icalProperties(this.masterEvent(current.data).event, 'ATTENDEE');
+    if (attendees.length > 0) {
+      const lines = attendees.map(a => {
+        const params = Object.entries({ ...a.params, 'SCHEDULE-AGENT': 'CLIENT' }).map(([k, v]) => `;${k}=${/[;:,]/.test(v) ? `"${v}"` : v}`).join('');
+        return `ATTENDEE${params}:${a.value}`;
+      });
+      const etag = current.headers?.etag;
+      await this.dav('PUT', url, {
+        data: patchMasterEvent(current.data, { ATTENDEE: lines }),
+        headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...(etag ? { 'If-Match': etag } : {}) },
+      });
+    }
+    await this.dav('DELETE', url);
+  }
+
+  /**
+   * CalDAV has no directory: a user exists when their calendar collection does
+   */
+  async findUser(email: string): Promise<DirectoryUser | null> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:"><D:prop><D:displayname/></D:prop></D:propfind>`;
+    try {
+      const resp = await this.dav('PROPFIND', this.calendarUrl(email), { data: body, headers: { Depth: '0' } });
+      return { id: email.toLowerCase(), email, displayName: xmlElements(resp.data, 'displayname')[0] || undefined };
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async expandGroup(email: string, maxMembers: number): Promise<DirectoryGroup | null> {
+    return null;
+  }
+
+  private busyStatus(event: IcalComponent): BusyStatus {
+    if ((icalText(event, 'TRANSP') || '').toUpperCase() === 'TRANSPARENT') return 'free';
+    return (icalText(event, 'STATUS') || '').toUpperCase() === 'TENTATIVE' ? 'tentative' : 'busy';
+  }
+
+  private masterEvent(text: string) {
+    const events = icalEvents(text, this.defaultZone());
+    const master = events.find(e => icalProperties(e.event, 'RECURRENCE-ID').length === 0) || events[0];
+    if (!master) throw new Error('Calendar object has no VEVENT');
+    return master;
+  }
+
+  private toCalendarEvent(eventId: string, text: string): CalendarEvent {
+    const master = this.masterEvent(text);
+    const attendees: EventAttendee[] = icalProperties(master.event, 'ATTENDEE').map(a => {
+      const cutype = (a.params.CUTYPE || '').toUpperCase();
+      return {
+        email: a.value.replace(/^mailto:/i, ''),
+        name: a.params.CN,
+        type: cutype === 'ROOM' || cutype === 'RESOURCE' ? 'resource' : (a.params.ROLE || '').toUpperCase() === 'OPT-PARTICIPANT' ? 'optional' : 'required',
+        responseStatus: RESPONSE_STATUS[(a.params.PARTSTAT || 'NEEDS-ACTION').toUpperCase()] ?? 'none',
+      };
+    });
+    return {
+      provider: this.kind,
+      id: eventId,
+      iCalUId: icalText(master.event, 'UID'),
+      subject: icalText(master.event, 'SUMMARY'),
+      start: master.start,
+      end: master.end,
+      attendees,
+      location: icalText(master.event, 'LOCATION'),
+      onlineMeetingUrl: icalText(master.event, 'URL'),
+    };
+  }
+}
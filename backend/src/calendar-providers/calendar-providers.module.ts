@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { GraphModule } from '../graph/graph.module';
+import { UserSyncService } from '../user-sync/user-sync.service';
+import { CalendarProvidersService } from './calendar-providers.service';
+import { GraphCalendarProvider } from './graph-calendar.provider';
+import { GoogleCalendarProvider } from './google-calendar.provider';
+import { CalDavCalendarProvider } from './caldav-calendar.provider';
+import { FakeCalendarProvider } from './fake-calendar.provider';
+
+@Module({
+  imports: [GraphModule],
+  providers: [GraphCalendarProvider, GoogleCalendarProvider, CalDavCalendarProvider, FakeCalendarProvider, CalendarProvidersService, UserSyncService],
+  exports: [CalendarProvidersService, UserSyncService],
+})
+export class CalendarProvidersModule { }
@@ -0,0 +1,158 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { GraphCalendarProvider } from './graph-calendar.provider';
+import { GoogleCalendarProvider } from './google-calendar.provider';
+import { CalDavCalendarProvider } from './caldav-calendar.provider';
+import { FakeCalendarProvider } from './fake-calendar.provider';
+import { GraphClient } from '../graph/graph.client';
+import { isOfflineMode } from './offline';
+import { AttendeeSchedule, CALENDAR_PROVIDER_KINDS, CalendarProvider, CalendarProviderKind } from './types';
+const logger = new Logger('CalendarProvidersService');
+
+/**
+ * Routes every user to their calendar provider. CALENDAR_PROVIDER_ROUTES (JSON) maps addresses or domains to a
+ * provider, e.g. {"example.org":"google","lab.example.com":"caldav","alice@example.com":"microsoft"}; an exact
+ * address beats its domain, a domain covers its subdomains, and everyone else uses CALENDAR_PROVIDER_DEFAULT.
+ * In offline mode everyone uses the fake tenant and routes are ignored.
+ */
+@Injectable()
+export class CalendarProvidersService implements OnModuleInit {
+  private providers: Record<CalendarProviderKind, CalendarProvider>;
+  private routes: Record<string, CalendarProviderKind>;
+  private defaultKind: CalendarProviderKind;
+  readonly offline = isOfflineMode();
+
+  constructor(
+    graph: GraphCalendarProvider,
+    google: GoogleCalendarProvider,
+    caldav: CalDavCalendarProvider,
+    private fake: FakeCalendarProvider,
+    private graphClient: GraphClient,
+  ) {
+    this.providers = { microsoft: graph, google, caldav, fake };
+    if (this.offline) {
+      this.defaultKind = 'fake';
+      this.routes = {};
+      return;
+    }
+    this.defaultKind = this.parseKind(process.env.CALENDAR_PROVIDER_DEFAULT || 'microsoft', 'CALENDAR_PROVIDER_DEFAULT') ?? 'microsoft';
+    this.routes = this.parseRoutes(process.env.CALENDAR_PROVIDER_ROUTES);
+  }
+
+  onModuleInit() {
+    if (this.offline) {
+      if (!this.fake.isConfigured()) throw new Error('OFFLINE_MODE is on but the fake tenant fixtures file (FAKE_TENANT_FIXTURES) does not exist');
+      logger.warn('Offline mode: all calendars come from the fake tenant, Microsoft Graph is not called');
+      return;
+    }
+    const used = new Set<CalendarProviderKind>([this.defaultKind, ...Object.values(this.routes)]);
+    for (const kind of used) {
+      if (!this.providers[kind].isConfigured()) logger.warn(`Users are routed to ${kind} but it is not configured`);
+    }
+    logger.log(`Calendar providers: default ${this.defaultKind}, ${Object.keys(this.routes).length} route(s)`);
+  }
+
+  private parseKind(value: string, source: string): CalendarProviderKind | null {
+    const kind = value.trim().toLowerCase() as CalendarProviderKind;
+    if (CALENDAR_PROVIDER_KINDS.includes(kind)) return kind;
+    logger.warn(`Ignoring unknown calendar provider "${value}" in ${source} (expected ${CALENDAR_PROVIDER_KINDS.join(', ')})`);
+    return null;
+  }
+
+  private parseRoutes(raw?: string): Record<string, CalendarProviderKind> {
+    if (!raw) return {};
+    let parsed: Record<string, string>;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      logger.warn('CALENDAR_PROVIDER_ROUTES is not valid JSON; routing everyone to the default provider');
+      return {};
+    }
+    const routes: Record<string, CalendarProviderKind> = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      const kind = this.parseKind(String(value), `CALENDAR_PROVIDER_ROUTES["${key}"]`);
+      if (kind) routes[key.trim().toLowerCase()] = kind;
+    }
+    return routes;
+  }
+
+  private routeFor(email: string): CalendarProviderKind | undefined {
+    const address = email.toLowerCase();
+    if (this.routes[address]) return this.routes[address];
+    // sub.example.com falls back to example.com
+    const labels = (address.split('@')[1] || '').split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const route = this.routes[labels.slice(i).join('.')];
+      if (route) return route;
+    }
+    return undefined;
+  }
+
+  kindFor(email: string): CalendarProviderKind {
+    return this.routeFor(email) ?? this.defaultKind;
+  }
+
+  /**
+   * Whether the address (or its domain) has an explicit route, i.e. belongs to the organization
+   */
+  isRouted(email: string): boolean {
+    return this.routeFor(email) !== undefined;
+  }
+
+  /**
+   * Whether the address is a colleague of the organizer: same domain, or routed to one of the organization's providers
+   * (secondary and acquired domains)
+   */
+  isInternal(email: string, organizer: string): boolean {
+    const domain = (address: string) => address.split('@')[1]?.toLowerCase();
+    return domain(email) === domain(organizer) || this.isRouted(email);
+  }
+
+  get(kind: CalendarProviderKind): CalendarProvider {
+    return this.providers[kind] ?? this.providers[this.defaultKind];
+  }
+
+  forUser(email: string): CalendarProvider {
+    return this.providers[this.kindFor(email)];
+  }
+
+  /**
+   * Organizer for requests that name none and have no signed-in user
+   */
+  async defaultOrganizer(): Promise<string> {
+    return this.offline ? this.fake.defaultOrganizer() : this.graphClient.getAuthenticatedUserEmail();
+  }
+
+  /**
+   * Room mailboxes as Graph places (places/microsoft.graph.room)
+   */
+  async listRooms(): Promise<any[]> {
+    return this.offline ? this.fake.listRooms() : this.graphClient.listRooms();
+  }
+
+  /**
+   * Emails grouped by the provider their calendar lives in, in first-seen order
+   */
+  groupByProvider(emails: string[]): { provider: CalendarProvider; emails: string[] }[] {
+    const groups = new Map<CalendarProviderKind, string[]>();
+    for (const email of emails) {
+      const kind = this.kindFor(email);
+      if (!groups.has(kind)) groups.set(kind, []);
+      groups.get(kind)!.push(email);
+    }
+    return Array.from(groups.entries()).map(([kind, group]) => ({ provider: this.providers[kind], emails: group }));
+  }
+
+  /**
+   * Free/busy for attendees across providers. Each provider is queried as the organizer when they share it,
+   * otherwise as one of the attendees it serves (colleagues can see each other's free/busy).
+   */
+  async getSchedules(organizer: string, emails: string[], from: Date, to: Date): Promise<AttendeeSchedule[]> {
+    const organizerKind = this.kindFor(organizer);
+    const schedules: AttendeeSchedule[] = [];
+    for (const group of this.groupByProvider(emails)) {
+      const viewer = group.provider.kind === organizerKind ? organizer : group.emails[0];
+      schedules.push(...await group.provider.getSchedules(viewer, group.emails, from, to));
+    }
+    return schedules;
+  }
+}
@@ -0,0 +1,18 @@
+// Calls to calendar APIs in flight at once for one fan-out (per-attendee reads, group expansion)
+export const MAX_CONCURRENT_REQUESTS = 8;
+
+/**
+ * Map over items with at most `limit` calls in flight; results keep the input order
+ */
+export async function mapConcurrently<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>, limit = MAX_CONCURRENT_REQUESTS): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,288 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { RecurrenceDTO } from '../scheduling/types';
+import { Occurrence, expandOccurrences } from '../scheduling/recurrence';
+import { addDaysToDateString } from '../policy/timezone';
+import {
+  AttendeeSchedule, BusyStatus, CalendarEntry, CalendarEvent, CalendarEventInput, CalendarEventPatch,
+  CalendarProvider, DirectoryGroup, DirectoryUser, EventAttendee,
+} from './types';
+const logger = new Logger('FakeCalendarProvider');
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A calendar entry in the fixtures file. Same shape as the agent's sample slots ({start, end, available}),
+ * optionally with a subject, a Graph showAs status, categories or a recurrence.
+ */
+interface FixtureEvent {
+  start: string;
+  end: string;
+  available?: boolean;
+  subject?: string;
+  showAs?: BusyStatus;
+  categories?: string[];
+  recurrence?: RecurrenceDTO;
+  timeZone?: string;
+}
+
+interface FakeTenantFixtures {
+  anchor?: string;   // YYYY-MM-DD; fixture dates move forward by whole weeks so this week is the current one
+  users: { email: string; displayName?: string; events?: FixtureEvent[] }[];
+  groups?: { email: string; displayName?: string; members: string[] }[];
+  rooms?: { emailAddress: string; displayName: string; events?: FixtureEvent[]; [key: string]: any }[];  // Graph place shape
+}
+
+interface StoredEvent {
+  id: string;
+  calendar: string;       // owning mailbox (the organizer's)
+  subject?: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  timeZone: string;
+  recurrence?: RecurrenceDTO;
+  attendees: EventAttendee[];
+  location?: string;
+  showAs: BusyStatus;
+  categories: string[];
+  onlineMeetingUrl?: string;
+  transactionId?: string;
+}
+
+/**
+ * An in-memory tenant for offline development (see offline.ts): users, groups, rooms and their calendars are
+ * seeded from FAKE_TENANT_FIXTURES (default fake-tenant.json next to this file). Events created at runtime
+ * live until the process exits; attendees who are tenant users see them on their own free/busy.
+ */
+@Injectable()
+export class FakeCalendarProvider implements CalendarProvider {
+  readonly kind = 'fake' as const;
+  private tenant?: {
+    users: Map<string, DirectoryUser>;
+    groups: Map<string, DirectoryGroup>;
+    rooms: any[];
+    events: Map<string, StoredEvent>;
+  };
+
+  isConfigured(): boolean {
+    return existsSync(this.fixturesPath());
+  }
+
+  private fixturesPath(): string {
+    return resolve(process.env.FAKE_TENANT_FIXTURES || join(__dirname, 'fake-tenant.json'));
+  }
+
+  private load() {
+    if (this.tenant) return this.tenant;
+    const path = this.fixturesPath();
+    const fixtures: FakeTenantFixtures = JSON.parse(readFileSync(path, 'utf8'));
+
+    const weeks = fixtures.anchor ? Math.max(0, Math.floor((Date.now() - Date.parse(`${fixtures.anchor}T00:00:00Z`)) / WEEK_MS)) : 0;
+    const tenant = { users: new Map<string, DirectoryUser>(), groups: new Map<string, DirectoryGroup>(), rooms: [] as any[], events: new Map<string, StoredEvent>() };
+    const seed = (calendar: string, events: FixtureEvent[] = []) => {
+      for (const e of events) {
+        const recurrence = e.recurrence?.endDate ? { ...e.recurrence, endDate: addDaysToDateString(e.recurrence.endDate, weeks * 7) } : e.recurrence;
+        const id = randomUUID();
+        tenant.events.set(id, {
+          id,
+          calendar,
+          subject: e.subject,
+          start: new Date(Date.parse(e.start) + weeks * WEEK_MS),
+          end: new Date(Date.parse(e.end) + weeks * WEEK_MS),
+          timeZone: e.timeZone || 'UTC',
+          recurrence,
+          attendees: [],
+          showAs: e.showAs || (e.available ? 'free' : 'busy'),
+          categories: e.categories || [],
+        });
+      }
+    };
+
+    for (const u of fixtures.users) {
+      const email = u.email.toLowerCase();
+      tenant.users.set(email, { id: email, email: u.email, displayName: u.displayName });
+      seed(email, u.events);
+    }
+    for (const { events, ...room } of fixtures.rooms || []) {
+      const email = room.emailAddress.toLowerCase();
+      tenant.users.set(email, { id: email, email: room.emailAddress, displayName: room.displayName });
+      tenant.rooms.push(room);
+      seed(email, events);
+    }
+    for (const g of fixtures.groups || []) {
+      tenant.groups.set(g.email.toLowerCase(), { id: g.email.toLowerCase(), displayName: g.displayName || g.email, members: g.members, truncated: false });
+    }
+
+    logger.log(`Loaded fake tenant from ${path}: ${tenant.users.size} mailbox(es), ${tenant.events.size} event(s), shifted ${weeks} week(s)`);
+    this.tenant = tenant;
+    return tenant;
+  }
+
+  /**
+   * Occurrences of the event overlapping [from, to)
+   */
+  private occurrences(event: StoredEvent, from: Date, to: Date): Occurrence[] {
+    const all = event.recurrence
+      ? expandOccurrences(event.recurrence, event.start, event.end, event.timeZone, to)
+      : [{ start: event.start, end: event.end }];
+    return all.filter(o => o.start < to && o.end > from);
+  }
+
+  /**
+   * Events on the mailbox's calendar: its own plus those it was invited to and hasn't declined
+   */
+  private eventsOn(email: string): StoredEvent[] {
+    const address = email.toLowerCase();
+    return Array.from(this.load().events.values()).filter(e =>
+      e.calendar === address
+      || e.attendees.some(a => a.email.toLowerCase() === address && a.responseStatus !== 'declined'));
+  }
+
+  async getSchedules(viewer: string, emails: string[], from: Date, to: Date): Promise<AttendeeSchedule[]> {
+    const { users } = this.load();
+    return emails.map(email => {
+      if (!users.has(email.toLowerCase())) return { email, items: [], error: 'notFound' };
+      const items = this.eventsOn(email).flatMap(event => this.occurrences(event, from, to).map(o => ({
+        start: o.start,
+        end: o.end,
+        status: event.showAs,
+        subject: event.subject,
+        location: event.location,
+      })));
+      return { email, items: items.sort((a, b) => a.start.getTime() - b.start.getTime()) };
+    });
+  }
+
+  async listEntries(email: string, from: Date, to: Date): Promise<CalendarEntry[]> {
+    return this.eventsOn(email).flatMap(event => this.occurrences(event, from, to).map(o => ({
+      start: o.start,
+      end: o.end,
+      subject: event.subject,
+      categories: event.categories,
+      isCancelled: false,
+    })));
+  }
+
+  async createEvent(organizer: string, event: CalendarEventInput): Promise<CalendarEvent> {
+    const { events } = this.load();
+    // Same transactionId, same event - as Graph does for a retried POST
+    const duplicate = event.transactionId && Array.from(events.values()).find(e => e.transactionId === event.transactionId);
+    if (duplicate) return this.toCalendarEvent(duplicate);
+
+    const id = randomUUID();
+    const attendees = event.attendees.map(a => ({ ...a, responseStatus: 'none' }));
+    if (event.room) attendees.push({ email: event.room.email, name: event.room.displayName, type: 'resource', responseStatus: 'accepted' });
+    const stored: StoredEvent = {
+      id,
+      calendar: organizer.toLowerCase(),
+      subject: event.subject,
+      description: event.description,
+      start: event.start,
+      end: event.end,
+      timeZone: event.timeZone || 'UTC',
+      recurrence: event.recurrence,
+      attendees,
+      location: event.room?.displayName || event.location,
+      showAs: event.showAs || 'busy',
+      categories: [],
+      onlineMeetingUrl: event.isOnlineMeeting ? `https://meet.fake.test/${id}` : undefined,
+      transactionId: event.transactionId,
+    };
+    events.set(id, stored);
+    logger.log(`Created "${event.subject}" for ${organizer} (${attendees.length} attendee(s))`);
+    return this.toCalendarEvent(stored);
+  }
+
+  async getEvent(organizer: string, eventId: string): Promise<CalendarEvent> {
+    return this.toCalendarEvent(this.findEvent(eventId));
+  }
+
+  async updateEvent(organizer: string, eventId: string, patch: CalendarEventPatch): Promise<CalendarEvent> {
+    const event = this.findEvent(eventId);
+    if (patch.subject) event.subject = patch.subject;
+    if (patch.start && patch.end) {
+      event.start = patch.start;
+      event.end = patch.end;
+      if (patch.timeZone) event.timeZone = patch.timeZone;
+      if (patch.recurrence) event.recurrence = patch.recurrence;
+    }
+    if (patch.attendees) {
+      // Attendees already invited keep their response; the room stays booked
+      const previous = new Map(event.attendees.map(a => [a.email.toLowerCase(), a]));
+      const rooms = event.attendees.filter(a => a.type === 'resource');
+      event.attendees = [
+        ...patch.attendees.map(a => ({ ...a, responseStatus: previous.get(a.email.toLowerCase())?.responseStatus || 'none' })),
+        ...rooms.filter(r => !patch.attendees!.some(a => a.email.toLowerCase() === r.email.toLowerCase())),
+      ];
+    }
+    return this.toCalendarEvent(event);
+  }
+
+  async cancelEvent(organizer: string, eventId: string, comment?: string): Promise<void> {
+    const event = this.findEvent(eventId);
+    this.load().events.delete(eventId);
+    logger.log(`Cancelled "${event.subject}"${comment ? `: ${comment}` : ''}`);
+  }
+
+  async deleteEvent(organizer: string, eventId: string): Promise<void> {
+    this.findEvent(eventId);
+    this.load().events.delete(eventId);
+  }
+
+  async findUser(email: string): Promise<DirectoryUser | null> {
+    return this.load().users.get(email.toLowerCase()) ?? null;
+  }
+
+  async expandGroup(email: string, maxMembers: number): Promise<DirectoryGroup | null> {
+    const group = this.load().groups.get(email.toLowerCase());
+    if (!group) return null;
+    return { ...group, members: group.members.slice(0, maxMembers), truncated: group.members.length > maxMembers };
+  }
+
+  /**
+   * Tenant users (rooms excluded), for user sync
+   */
+  listUsers(): DirectoryUser[] {
+    const roomEmails = new Set(this.load().rooms.map(r => r.emailAddress.toLowerCase()));
+    return Array.from(this.load().users.values()).filter(u => !roomEmails.has(u.email.toLowerCase()));
+  }
+
+  /**
+   * Rooms in the Graph place shape, so RoomsService maps them as it does Graph's
+   */
+  listRooms(): any[] {
+    return this.load().rooms;
+  }
+
+  /**
+   * Organizer when a request names none: DEFAULT_ORGANIZER_EMAIL, else the first fixture user
+   */
+  defaultOrganizer(): string {
+    const email = process.env.DEFAULT_ORGANIZER_EMAIL || this.listUsers()[0]?.email;
+    if (!email) throw new Error('The fake tenant has no users; add some to the fixtures or set DEFAULT_ORGANIZER_EMAIL');
+    return email;
+  }
+
+  private findEvent(eventId: string): StoredEvent {
+    const event = this.load().events.get(eventId);
+    if (!event) throw new NotFoundException(`Event ${eventId} not found in the fake tenant`);
+    return event;
+  }
+
+  private toCalendarEvent(event: StoredEvent): CalendarEvent {
+    return {
+      provider: this.kind,
+      id: event.id,
+      iCalUId: event.id,
+      subject: event.subject,
+      start: event.start,
+      end: event.end,
+      attendees: event.attendees.map(a => ({ ...a })),
+      location: event.location,
+      onlineMeetingUrl: event.onlineMeetingUrl,
+    };
+  }
+}
@@ -0,0 +1,282 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios, { AxiosInstance } from 'axios';
+import { createHash, createSign, randomUUID } from 'crypto';
+import { buildEventBody } from '../scheduling/event-body';
+import { buildRrule } from '../meetings/ics-writer';
+import { toLocalDateTimeString } from '../policy/timezone';
+import { requestWithRetry } from './retry';
+import {
+  AttendeeSchedule, CalendarEntry, CalendarEvent, CalendarEventInput, CalendarEventPatch,
+  CalendarProvider, DirectoryGroup, DirectoryUser, EventAttendee,
+} from './types';
+const logger = new Logger('GoogleCalendarProvider');
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const CALENDAR_SCOPE = 'https://www.googleapis.com/auth/calendar';
+const DIRECTORY_SCOPE = [
+  'https://www.googleapis.com/auth/admin.directory.user.readonly',
+  'https://www.googleapis.com/auth/admin.directory.group.readonly',
+  'https://www.googleapis.com/auth/admin.directory.group.member.readonly',
+].join(' ');
+
+// freeBusy accepts at most 50 calendars per query
+const FREEBUSY_MAX_CALENDARS = 50;
+
+const RESPONSE_STATUS: Record<string, string> = {
+  needsAction: 'none',
+  accepted: 'accepted',
+  declined: 'declined',
+  tentative: 'tentativelyAccepted',
+};
+
+const base64url = (data: string | Buffer) => Buffer.from(data).toString('base64url');
+
+/**
+ * Google Workspace calendars through the Calendar and Directory APIs, using a service account with
+ * domain-wide delegation: every call impersonates the user it acts for (directory calls impersonate GOOGLE_ADMIN_EMAIL).
+ */
+@Injectable()
+export class GoogleCalendarProvider implements CalendarProvider {
+  readonly kind = 'google' as const;
+  private client: AxiosInstance;
+  private tokens = new Map<string, { accessToken: string; expiresAt: number }>();
+
+  constructor() {
+    this.client = axios.create({ timeout: 20000, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  isConfigured(): boolean {
+    return !!(process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL && process.env.GOOGLE_PRIVATE_KEY);
+  }
+
+  /**
+   * Access token for `subject` via a signed JWT assertion (RFC 7523), cached until shortly before it expires
+   */
+  private async accessToken(subject: string, scope: string): Promise<string> {
+    const clientEmail = process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL;
+    const privateKey = process.env.GOOGLE_PRIVATE_KEY?.replace(/\\n/g, '\n');
+    if (!clientEmail || !privateKey) {
+      throw new Error('Google Calendar is not configured: set GOOGLE_SERVICE_ACCOUNT_EMAIL and GOOGLE_PRIVATE_KEY');
+    }
+
+    const cacheKey = `${subject.toLowerCase()} ${scope}`;
+    const cached = this.tokens.get(cacheKey);
+    if (cached && cached.expiresAt - 60000 > Date.now()) return cached.accessToken;
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const claims = base64url(JSON.stringify({ iss: clientEmail, sub: subject, scope, aud: TOKEN_URL, iat: now, exp: now + 3600 }));
+    const signature = createSign('RSA-SHA256').update(`${header}.${claims}`).sign(privateKey);
+    const assertion = `${header}.${claims}.${base64url(signature)}`;
+
+    const resp = await requestWithRetry(logger, 'Google token endpoint', () => this.client.post(
+      TOKEN_URL,
+      new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+    ));
+    this.tokens.set(cacheKey, { accessToken: resp.data.access_token, expiresAt: Date.now() + resp.data.expires_in * 1000 });
+    return resp.data.access_token;
+  }
+
+  private async request<T = any>(subject: string, scope: string, config: { method: string; url: string; params?: any; data?: any }): Promise<T> {
+    const token = await this.accessToken(subject, scope);
+    const resp = await requestWithRetry(logger, 'Google', () => this.client.request({ ...config, headers: { Authorization: `Bearer ${token}` } }));
+    return resp.data;
+  }
+
+  private calendarRequest<T = any>(subject: string, method: string, path: string, params?: any, data?: any): Promise<T> {
+    return this.request<T>(subject, CALENDAR_SCOPE, { method, url: `https://www.googleapis.com/calendar/v3${path}`, params, data });
+  }
+
+  private directoryRequest<T = any>(path: string, params?: any): Promise<T> {
+    const admin = process.env.GOOGLE_ADMIN_EMAIL;
+    if (!admin) throw new Error('GOOGLE_ADMIN_EMAIL is required for Google directory lookups');
+    return this.request<T>(admin, DIRECTORY_SCOPE, { method: 'GET', url: `https://admin.googleapis.com/admin/directory/v1${path}`, params });
+  }
+
+  async getSchedules(viewer: string, emails: string[], from: Date, to: Date): Promise<AttendeeSchedule[]> {
+    const schedules: AttendeeSchedule[] = [];
+    for (let i = 0; i < emails.length; i += FREEBUSY_MAX_CALENDARS) {
+      const chunk = emails.slice(i, i + FREEBUSY_MAX_CALENDARS);
+      const data = await this.calendarRequest(viewer, 'POST', '/freeBusy', undefined, {
+        timeMin: from.toISOString(),
+        timeMax: to.toISOString(),
+        items: chunk.map(id => ({ id })),
+      });
+      for (const email of chunk) {
+        const calendar = data.calendars?.[email] ?? data.calendars?.[email.toLowerCase()];
+        const errors = calendar?.errors || [];
+        schedules.push({
+          email,
+          // Google only reports busy blocks: no tentative/out-of-office distinction, no subjects
+          items: (calendar?.busy || []).map((b: any) => ({ start: new Date(b.start), end: new Date(b.end), status: 'busy' as const })),
+          error: !calendar ? 'notFound' : errors.length ? errors.map((e: any) => e.reason).join(', ') : undefined,
+        });
+      }
+    }
+    return schedules;
+  }
+
+  async listEntries(email: string, from: Date, to: Date): Promise<CalendarEntry[]> {
+    const entries: CalendarEntry[] = [];
+    let pageToken: string | undefined;
+    do {
+      const data = await this.calendarRequest(email, 'GET', `/calendars/${encodeURIComponent(email)}/events`, {
+        timeMin: from.toISOString(),
+        timeMax: to.toISOString(),
+        singleEvents: true,
+        maxResults: 250,
+        pageToken,
+      });
+      for (const e of data.items || []) {
+        entries.push({
+          start: this.parseTime(e.start),
+          end: this.parseTime(e.end),
+          subject: e.summary,
+          // Google has no categories; its native focus-time events count as the "Focus time" category
+          categories: e.eventType === 'focusTime' ? ['Focus time'] : [],
+          isCancelled: e.status === 'cancelled',
+        });
+      }
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+    return entries;
+  }
+
+  async createEvent(organizer: string, event: CalendarEventInput): Promise<CalendarEvent> {
+    const attendees = event.room
+      ? [...event.attendees, { email: event.room.email, name: event.room.displayName, type: 'resource' as const }]
+      : event.attendees;
+    const body: any = {
+      summary: event.subject,
+      description: buildEventBody(event.description).content,
+      ...this.timesBody(event),
+      attendees: this.toGoogleAttendees(attendees),
+      location: event.room?.displayName || event.location,
+    };
+    // A client-chosen id (base32hex: hex digits qualify) makes a retried create fail with 409 instead of duplicating
+    if (event.transactionId) body.id = createHash('sha256').update(event.transactionId).digest('hex');
+    if (event.isOnlineMeeting) {
+      body.conferenceData = { createRequest: { requestId: event.transactionId || randomUUID(), conferenceSolutionKey: { type: 'hangoutsMeet' } } };
+    }
+    // Google events can't be tentative for their own organizer; a hold still blocks the time
+    if (event.isReminderOn === false) body.reminders = { useDefault: false, overrides: [] };
+
+    try {
+      const created = await this.calendarRequest(organizer, 'POST', '/calendars/primary/events', { sendUpdates: 'all', conferenceDataVersion: 1 }, body);
+      return this.toCalendarEvent(created);
+    } catch (error: any) {
+      if (error?.response?.status === 409 && body.id) {
+        logger.warn(`Event ${body.id} already exists for ${organizer}; returning it instead of creating a duplicate`);
+        return this.getEvent(organizer, body.id);
+      }
+      throw error;
+    }
+  }
+
+  async getEvent(organizer: string, eventId: string): Promise<CalendarEvent> {
+    return this.toCalendarEvent(await this.calendarRequest(organizer, 'GET', `/calendars/primary/events/${encodeURIComponent(eventId)}`));
+  }
+
+  async updateEvent(organizer: string, eventId: string, patch: CalendarEventPatch): Promise<CalendarEvent> {
+    const body: any = {};
+    if (patch.subject) body.summary = patch.subject;
+    if (patch.attendees) body.attendees = this.toGoogleAttendees(patch.attendees);
+    if (patch.start && patch.end) Object.assign(body, this.timesBody({ ...patch, start: patch.start, end: patch.end }));
+    const updated = await this.calendarRequest(organizer, 'PATCH', `/calendars/primary/events/${encodeURIComponent(eventId)}`, { sendUpdates: 'all' }, body);
+    return this.toCalendarEvent(updated);
+  }
+
+  async cancelEvent(organizer: string, eventId: string, comment?: string): Promise<void> {
+    // Google's cancellation notice has no room for a message
+    if (comment) logger.log(`Cancellation comment for ${eventId} is not sent by Google Calendar`);
+    await this.calendarRequest(organizer, 'DELETE', `/calendars/primary/events/${encodeURIComponent(eventId)}`, { sendUpdates: 'all' });
+  }
+
+  async deleteEvent(organizer: string, eventId: string): Promise<void> {
+    await this.calendarRequest(organizer, 'DELETE', `/calendars/primary/events/${encodeURIComponent(eventId)}`, { sendUpdates: 'none' });
+  }
+
+  async findUser(email: string): Promise<DirectoryUser | null> {
+    try {
+      const user = await this.directoryRequest(`/users/${encodeURIComponent(email)}`);
+      return { id: user.id, email: user.primaryEmail, displayName: user.name?.fullName };
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async expandGroup(email: string, maxMembers: number): Promise<DirectoryGroup | null> {
+    let group: any;
+    try {
+      group = await this.directoryRequest(`/groups/${encodeURIComponent(email)}`);
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+
+    // Derived membership flattens nested groups; one extra member tells us the cap was hit
+    const members: string[] = [];
+    let pageToken: string | undefined;
+    do {
+      const data = await this.directoryRequest(`/groups/${encodeURIComponent(group.id)}/members`, {
+        includeDerivedMembership: true,
+        maxResults: 200,
+        pageToken,
+      });
+      members.push(...(data.members || []).filter((m: any) => m.type === 'USER' && m.email).map((m: any) => m.email));
+      pageToken = data.nextPageToken;
+    } while (pageToken && members.length <= maxMembers);
+
+    return { id: group.id, displayName: group.name || email, members: members.slice(0, maxMembers), truncated: members.length > maxMembers };
+  }
+
+  private timesBody(event: { start: Date; end: Date; timeZone?: string; recurrence?: CalendarEventInput['recurrence'] }) {
+    if (event.recurrence && event.timeZone) {
+      return {
+        start: { dateTime: toLocalDateTimeString(event.start, event.timeZone), timeZone: event.timeZone },
+        end: { dateTime: toLocalDateTimeString(event.end, event.timeZone), timeZone: event.timeZone },
+        recurrence: [buildRrule(event.recurrence, event.start, event.timeZone)],
+      };
+    }
+    return {
+      start: { dateTime: event.start.toISOString(), timeZone: 'UTC' },
+      end: { dateTime: event.end.toISOString(), timeZone: 'UTC' },
+    };
+  }
+
+  private toGoogleAttendees(attendees: EventAttendee[]) {
+    return attendees.map(a => ({
+      email: a.email,
+      ...(a.name ? { displayName: a.name } : {}),
+      ...(a.type === 'optional' ? { optional: true } : {}),
+      ...(a.type === 'resource' ? { resource: true } : {}),
+    }));
+  }
+
+  // All-day events only carry a date
+  private parseTime(value: { dateTime?: string; date?: string }): Date {
+    return new Date(value.dateTime || `${value.date}T00:00:00Z`);
+  }
+
+  private toCalendarEvent(event: any): CalendarEvent {
+    return {
+      provider: this.kind,
+      id: event.id,
+      iCalUId: event.iCalUID,
+      subject: event.summary,
+      start: this.parseTime(event.start),
+      end: this.parseTime(event.end),
+      attendees: (event.attendees || []).map((a: any) => ({
+        email: a.email,
+        name: a.displayName,
+        type: a.resource ? 'resource' : a.optional ? 'optional' : 'required',
+        responseStatus: a.organizer ? 'organizer' : RESPONSE_STATUS[a.responseStatus] ?? 'none',
+      })),
+      location: event.location,
+      onlineMeetingUrl: event.hangoutLink || event.conferenceData?.entryPoints?.find((p: any) => p.entryPointType === 'video')?.uri,
+      webLink: event.htmlLink,
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { GraphClient } from '../graph/graph.client';
+import { parseGraphDateTime } from '../availability/availability-engine';
+import { buildEventBody } from '../scheduling/event-body';
+import { toGraphRecurrence } from '../scheduling/recurrence';
+import { toLocalDateTimeString } from '../policy/timezone';
+import {
+  AttendeeSchedule, BusyStatus, CalendarEntry, CalendarEvent, CalendarEventInput, CalendarEventPatch,
+  CalendarProvider, DirectoryGroup, DirectoryUser, EventAttendee,
+} from './types';
+
+/**
+ * Microsoft 365 calendars through Graph (getSchedule, calendarView, events)
+ */
+@Injectable()
+export class GraphCalendarProvider implements CalendarProvider {
+  readonly kind = 'microsoft' as const;
+
+  constructor(private graph: GraphClient) { }
+
+  isConfigured(): boolean {
+    return !!(process.env.AZURE_TENANT_ID && process.env.AZURE_CLIENT_ID);
+  }
+
+  async getSchedules(viewer: string, emails: string[], from: Date, to: Date): Promise<AttendeeSchedule[]> {
+    const response = await this.graph.getSchedule(viewer, emails, from.toISOString(), to.toISOString());
+    return (response?.value || []).map((schedule: any) => ({
+      email: schedule.scheduleId,
+      error: schedule.error ? schedule.error.message || schedule.error.responseCode || 'unavailable' : undefined,
+      items: (schedule.scheduleItems || []).map((item: any) => ({
+        start: parseGraphDateTime(item.start),
+        end: parseGraphDateTime(item.end),
+        status: item.status as BusyStatus,
+        subject: item.subject,
+        location: item.location,
+      })),
+    }));
+  }
+
+  async listEntries(email: string, from: Date, to: Date): Promise<CalendarEntry[]> {
+    const events = await this.graph.getCalendarView(email, from.toISOString(), to.toISOString());
+    return events.map((e: any) => ({
+      start: parseGraphDateTime(e.start),
+      end: parseGraphDateTime(e.end),
+      subject: e.subject,
+      categories: e.categories || [],
+      isCancelled: !!e.isCancelled,
+    }));
+  }
+
+  async createEvent(organizer: string, event: CalendarEventInput): Promise<CalendarEvent> {
+    const payload: any = {
+      subject: event.subject,
+      body: buildEventBody(event.description),
+      ...this.timesPayload(event),
+      attendees: this.toGraphAttendees(event.attendees),
+      // Lets Graph drop a duplicate POST if requestWithRetry retries a create that actually succeeded
+      transactionId: event.transactionId || randomUUID(),
+    };
+    if (event.isOnlineMeeting) {
+      payload.isOnlineMeeting = true;
+      payload.onlineMeetingProvider = 'teamsForBusiness';
+    }
+    if (event.location) payload.location = { displayName: event.location };
+    if (event.room) {
+      payload.attendees.push({ emailAddress: { address: event.room.email, name: event.room.displayName }, type: 'Resource' });
+      payload.location = { displayName: event.room.displayName, locationEmailAddress: event.room.email, locationType: 'conferenceRoom' };
+    }
+    if (event.showAs) payload.showAs = event.showAs;
+    if (event.isReminderOn !== undefined) payload.isReminderOn = event.isReminderOn;
+
+    return this.toCalendarEvent(await this.graph.createEventForUser(organizer, payload));
+  }
+
+  async getEvent(organizer: string, eventId: string): Promise<CalendarEvent> {
+    return this.toCalendarEvent(await this.graph.getEventForUser(organizer, eventId));
+  }
+
+  async updateEvent(organizer: string, eventId: string, patch: CalendarEventPatch): Promise<CalendarEvent> {
+    const payload: any = {};
+    if (patch.subject) payload.subject = patch.subject;
+    if (patch.attendees) payload.attendees = this.toGraphAttendees(patch.attendees);
+    if (patch.start && patch.end) Object.assign(payload, this.timesPayload({ ...patch, start: patch.start, end: patch.end }));
+    return this.toCalendarEvent(await this.graph.updateEventForUser(organizer, eventId, payload));
+  }
+
+  async cancelEvent(organizer: string, eventId: string, comment?: string): Promise<void> {
+    await this.graph.cancelEventForUser(organizer, eventId, comment);
+  }
+
+  async deleteEvent(organizer: string, eventId: string): Promise<void> {
+    await this.graph.deleteEventForUser(organizer, eventId);
+  }
+
+  async findUser(email: string): Promise<DirectoryUser | null> {
+    try {
+      const user = await this.graph.getUserById(email);
+      return { id: user.id, email: user.mail || user.userPrincipalName, displayName: user.displayName ?? undefined };
+    } catch (error: any) {
+      if (error?.response?.status === 404) return null;
+      throw error;
+    }
+  }
+
+  async findUsers(emails: string[]): Promise<(DirectoryUser | null)[]> {
+    const users = await this.graph.getUsersByIds(emails);
+    return users.map(user => user && { id: user.id, email: user.mail || user.userPrincipalName, displayName: user.displayName ?? undefined });
+  }
+
+  async expandGroup(email: string, maxMembers: number): Promise<DirectoryGroup | null> {
+    return this.graph.expandGroupAddress(email, maxMembers);
+  }
+
+  /**
+   * Start/end (and recurrence): UTC for one-off events; a series is anchored in its timezone so occurrences
+   * keep their wall-clock time across DST
+   */
+  private timesPayload(event: { start: Date; end: Date; timeZone?: string; recurrence?: CalendarEventInput['recurrence'] }) {
+    if (event.recurrence && event.timeZone) {
+      return {
+        start: { dateTime: toLocalDateTimeString(event.start, event.timeZone), timeZone: event.timeZone },
+        end: { dateTime: toLocalDateTimeString(event.end, event.timeZone), timeZone: event.timeZone },
+        recurrence: toGraphRecurrence(event.recurrence, event.start, event.timeZone),
+      };
+    }
+    return {
+      start: { dateTime: event.start.toISOString(), timeZone: 'UTC' },
+      end: { dateTime: event.end.toISOString(), timeZone: 'UTC' },
+    };
+  }
+
+  private toGraphAttendees(attendees: EventAttendee[]) {
+    return attendees.map(a => ({
+      emailAddress: { address: a.email, ...(a.name ? { name: a.name } : {}) },
+      type: a.type.charAt(0).toUpperCase() + a.type.slice(1),
+    }));
+  }
+
+  private toCalendarEvent(event: any): CalendarEvent {
+    return {
+      provider: this.kind,
+      id: event.id,
+      iCalUId: event.iCalUId,
+      subject: event.subject,
+      start: parseGraphDateTime(event.start),
+      end: parseGraphDateTime(event.end),
+      attendees: (event.attendees || []).map((a: any) => {
+        const responseTime = a.status?.time;
+        return {
+          email: a.emailAddress?.address,
+          name: a.emailAddress?.name,
+          type: (a.type || 'required').toLowerCase(),
+          responseStatus: a.status?.response,
+          // Graph reports "no response yet" as 0001-01-01
+          respondedAt: responseTime && !responseTime.startsWith('0001') ? new Date(responseTime) : undefined,
+        };
+      }),
+      location: event.location?.displayName || undefined,
+      onlineMeetingUrl: event.onlineMeeting?.joinUrl || event.onlineMeetingUrl || undefined,
+      webLink: event.webLink,
+    };
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * OFFLINE_MODE=true runs the backend against the in-memory fake tenant (FakeCalendarProvider): every user is
+ * routed to it and nothing calls Microsoft, so no Azure credentials are needed.
+ */
+export function isOfflineMode(): boolean {
+  return process.env.OFFLINE_MODE === 'true';
+}
@@ -0,0 +1,62 @@
+import { Logger } from '@nestjs/common';
+import { AxiosResponse } from 'axios';
+
+export const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Wait before retry #attempt: the Retry-After header (seconds or an HTTP date) when given,
+ * otherwise exponential backoff capped at a minute
+ */
+export function retryDelayMs(retryAfter: string | undefined, attempt: number): number {
+  if (retryAfter) {
+    const s = parseInt(retryAfter, 10);
+    if (!isNaN(s)) return s * 1000;
+    const dt = Date.parse(retryAfter);
+    if (!isNaN(dt)) return Math.max(0, dt - Date.now());
+  }
+  return Math.min(60000, 1000 * Math.pow(2, attempt));
+}
+
+/**
+ * Whether a response status is worth retrying: throttling (429/503) or a transient 5xx
+ */
+export function isRetryableStatus(status?: number): boolean {
+  return !!status && (status === 429 || (status >= 500 && status < 600));
+}
+
+/**
+ * Retry a calendar API call on throttling (429/503, honouring Retry-After) and transient 5xx errors,
+ * with exponential backoff capped at a minute.
+ */
+export async function requestWithRetry<T = any>(
+  logger: Logger,
+  label: string,
+  fn: () => Promise<AxiosResponse<T>>,
+  maxRetries = 5,
+): Promise<AxiosResponse<T>> {
+  let attempt = 0;
+  let lastErr: any = null;
+  while (attempt <= maxRetries) {
+    try {
+      const resp = await fn();
+      return resp;
+    } catch (err: any) {
+      lastErr = err;
+      attempt++;
+      const status = err?.response?.status;
+      const waitMs = retryDelayMs(err?.response?.headers?.['retry-after'], attempt);
+      if ([429, 503].includes(status)) {
+        logger.warn(`${label} throttled (status=${status}). retry #${attempt} after ${waitMs}ms`);
+        await sleep(waitMs);
+        continue;
+      }
+      if (status >= 500 && status < 600) {
+        logger.warn(`Transient server error ${status}. retry #${attempt} after ${waitMs}ms`);
+        await sleep(waitMs);
+        continue;
+      }
+      throw err;
+    }
+  }
+  throw lastErr;
+}
@@ -0,0 +1,111 @@
+import { RecurrenceDTO } from '../scheduling/types';
+
+// 'fake' is the in-memory tenant used in offline mode
+export type CalendarProviderKind = 'microsoft' | 'google' | 'caldav' | 'fake';
+
+export const CALENDAR_PROVIDER_KINDS: CalendarProviderKind[] = ['microsoft', 'google', 'caldav', 'fake'];
+
+// Free/busy status of a block, in Graph's vocabulary (other providers map onto it)
+export type BusyStatus = 'free' | 'tentative' | 'busy' | 'oof' | 'workingElsewhere' | 'unknown';
+
+export interface ScheduleItem {
+  start: Date;
+  end: Date;
+  status: BusyStatus;
+  subject?: string;     // only when the viewer may see it
+  location?: string;
+}
+
+/**
+ * One attendee's free/busy for a window; `error` means the calendar couldn't be read
+ */
+export interface AttendeeSchedule {
+  email: string;
+  items: ScheduleItem[];
+  error?: string;
+}
+
+/**
+ * An event as read from a calendar, for checks that need more than free/busy (focus categories)
+ */
+export interface CalendarEntry {
+  start: Date;
+  end: Date;
+  subject?: string;
+  categories: string[];
+  isCancelled: boolean;
+}
+
+export interface EventAttendee {
+  email: string;
+  name?: string;
+  type: 'required' | 'optional' | 'resource';
+  responseStatus?: string;   // Graph vocabulary: none | organizer | accepted | tentativelyAccepted | declined | notResponded
+  respondedAt?: Date;
+}
+
+export interface CalendarEventInput {
+  subject: string;
+  description?: string;          // agenda (markdown); each provider renders it its own way
+  start: Date;
+  end: Date;
+  timeZone?: string;             // required with recurrence: the series keeps its wall-clock time in this zone
+  recurrence?: RecurrenceDTO;
+  attendees: EventAttendee[];
+  location?: string;
+  room?: { email: string; displayName: string };  // booked as a resource attendee and used as the location
+  isOnlineMeeting?: boolean;     // Teams / Google Meet link, where the provider can create one
+  showAs?: 'busy' | 'tentative';
+  isReminderOn?: boolean;
+  transactionId?: string;        // lets the provider drop a duplicate create when a retry follows a lost response
+}
+
+export type CalendarEventPatch = Partial<Pick<CalendarEventInput, 'subject' | 'start' | 'end' | 'timeZone' | 'recurrence' | 'attendees'>>;
+
+export interface CalendarEvent {
+  provider: CalendarProviderKind;
+  id: string;                    // id (CalDAV: resource path) in the organizer's calendar
+  iCalUId?: string;
+  subject?: string;
+  start: Date;
+  end: Date;
+  attendees: EventAttendee[];
+  location?: string;
+  onlineMeetingUrl?: string;
+  webLink?: string;
+}
+
+export interface DirectoryUser {
+  id: string;
+  email: string;
+  displayName?: string;
+}
+
+export interface DirectoryGroup {
+  id: string;
+  displayName: string;
+  members: string[];
+  truncated: boolean;
+}
+
+/**
+ * A calendar backend. Each user is routed to one (see CalendarProvidersService); `viewer` is the account whose
+ * permissions a free/busy query runs under and belongs to the same provider as the attendees asked about.
+ */
+export interface CalendarProvider {
+  readonly kind: CalendarProviderKind;
+  isConfigured(): boolean;
+  getSchedules(viewer: string, emails: string[], from: Date, to: Date): Promise<AttendeeSchedule[]>;
+  listEntries(email: string, from: Date, to: Date): Promise<CalendarEntry[]>;
+  createEvent(organizer: string, event: CalendarEventInput): Promise<CalendarEvent>;
+  getEvent(organizer: string, eventId: string): Promise<CalendarEvent>;
+  updateEvent(organizer: string, eventId: string, patch: CalendarEventPatch): Promise<CalendarEvent>;
+  /** Cancel the event and notify attendees */
+  cancelEvent(organizer: string, eventId: string, comment?: string): Promise<void>;
+  /** Remove the event from the organizer's calendar without notifying attendees (where the provider allows it) */
+  deleteEvent(organizer: string, eventId: string): Promise<void>;
+  findUser(email: string): Promise<DirectoryUser | null>;
+  /** findUser for many users, where the provider can look them up in bulk; results in input order */
+  findUsers?(emails: string[]): Promise<(DirectoryUser | null)[]>;
+  expandGroup(email: string, maxMembers: number): Promise<DirectoryGroup | null>;
+}
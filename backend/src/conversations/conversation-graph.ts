@@ -0,0 +1,211 @@
+import { Annotation, BaseCheckpointSaver, END, LangGraphRunnableConfig, START, StateGraph } from "@langchain/langgraph";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod/v3";
+import { createChatModel } from "../agent/llm";
+import { MeetingDraft } from "../scheduling/types";
+import { followUpPrompt } from "./prompts";
+import type { ConversationMessage, ConversationStatus } from "./types";
+
+export const followUpSchema = z.object({
+  action: z.enum(["edit", "confirm", "cancel", "restart"]),
+  subject: z.string().nullable(),
+  startTime: z.string().nullable().describe("New start (ISO 8601, UTC) when the organizer names a new day or time"),
+  moveMinutes: z.number().int().nullable().describe("Move the meeting by this many minutes (negative: earlier), keeping its length"),
+  durationMinutes: z.number().int().positive().nullable(),
+  useAlternative: z.number().int().positive().nullable().describe("Number of the offered alternative the organizer picked"),
+  addAttendees: z.array(z.string()).describe("Required attendees to add: email addresses or names"),
+  addOptionalAttendees: z.array(z.string()).describe("Optional attendees to add: email addresses or names"),
+  removeAttendees: z.array(z.string()).describe("Attendees to drop: email addresses or names"),
+  isOnlineMeeting: z.boolean().nullable(),
+  location: z.string().nullable(),
+  description: z.string().nullable(),
+});
+
+export type FollowUp = z.infer<typeof followUpSchema>;
+
+/**
+ * What the conversation graph needs from the rest of the app (bound by ConversationsService)
+ */
+export interface ConversationDeps {
+  timeZone(organizer: string): Promise<string>;
+  extractDraft(input: string, organizer: string): Promise<MeetingDraft>;
+  checkDraft(organizer: string, draft: MeetingDraft): Promise<any>;
+  book(organizer: string, draft: MeetingDraft, sessionId: string): Promise<any>;
+  // Email addresses for names ("Priya"); names matching nobody or several people stay unresolved
+  resolvePeople(names: string[]): Promise<{ emails: string[]; unresolved: string[] }>;
+  describe(organizer: string, draft: MeetingDraft, availability: any | null): Promise<string>;
+}
+
+const ConversationState = Annotation.Root({
+  organizer: Annotation<string>,
+  input: Annotation<string>,
+  status: Annotation<ConversationStatus>,
+  draft: Annotation<MeetingDraft | null>,
+  availability: Annotation<any | null>,
+  booking: Annotation<any | null>,
+  // Where interpret sends the turn, and what the assistant answers
+  next: Annotation<"check" | "book" | "respond">,
+  reply: Annotation<string>,
+  messages: Annotation<ConversationMessage[]>({
+    reducer: (current, update) => current.concat(update),
+    default: () => [],
+  }),
+});
+
+export type ConversationGraphState = typeof ConversationState.State;
+
+const errorText = (error: any) => error?.response?.message || error?.message || String(error);
+
+/**
+ * One graph run per organizer message. The draft, its availability and the transcript live in the checkpointed
+ * state (thread id = session id), so a follow-up like "make it 30 minutes later and add Priya" edits the draft
+ * instead of starting over.
+ */
+export const buildConversationGraph = (deps: ConversationDeps, checkpointer: BaseCheckpointSaver) => {
+  const interpretNode = async (state: ConversationGraphState) => {
+    const said: ConversationMessage = { role: "user", content: state.input, at: new Date().toISOString() };
+    const status = state.status ?? "drafting";
+    if (status !== "drafting") {
+      return { messages: [said], status, next: "respond" as const, reply: `This meeting is already ${status}. Start a new conversation for another one.` };
+    }
+
+    try {
+      let changed: { draft: MeetingDraft; unresolved: string[] };
+      if (!state.draft) {
+        changed = await withPeopleResolved(await deps.extractDraft(state.input, state.organizer), deps);
+      } else {
+        const timeZone = await deps.timeZone(state.organizer);
+        const alternatives = state.availability?.alternativeSlots ?? [];
+        const interpreter = createChatModel(0).withStructuredOutput(followUpSchema, { name: "draft_changes" });
+        const followUp = await interpreter.invoke([
+          new SystemMessage(followUpPrompt(state.draft, alternatives, timeZone, new Date())),
+          new HumanMessage(state.input),
+        ]);
+
+        if (followUp.action === "confirm") return { messages: [said], status, next: "book" as const };
+        if (followUp.action === "cancel") {
+          return { messages: [said], status: "cancelled" as const, next: "respond" as const, reply: "Okay, I've dropped this meeting. Nothing was booked." };
+        }
+        changed = followUp.action === "restart"
+          ? await withPeopleResolved(await deps.extractDraft(state.input, state.organizer), deps)
+          : await applyFollowUp(state.draft, followUp, alternatives, deps);
+      }
+
+      const { draft, unresolved } = changed;
+      if (unresolved.length > 0) {
+        return {
+          messages: [said],
+          status,
+          draft,
+          next: "respond" as const,
+          reply: `I couldn't tell who ${unresolved.join(", ")} ${unresolved.length === 1 ? "is" : "are"}. What's their email address? I made your other changes.`,
+        };
+      }
+      return { messages: [said], status, draft, next: "check" as const };
+    } catch (error: any) {
+      return { messages: [said], status, next: "respond" as const, reply: `Sorry, I couldn't work that out: ${errorText(error)}` };
+    }
+  };
+
+  const checkNode = async (state: ConversationGraphState) => {
+    try {
+      const availability = await deps.checkDraft(state.organizer, state.draft!);
+      return { availability, reply: await deps.describe(state.organizer, state.draft!, availability) };
+    } catch (error: any) {
+      return { availability: null, reply: `${errorText(error)} What should I change?` };
+    }
+  };
+
+  const bookNode = async (state: ConversationGraphState, config: LangGraphRunnableConfig) => {
+    try {
+      const booking = await deps.book(state.organizer, state.draft!, String(config.configurable?.thread_id));
+      if (booking.created === false) {
+        const alternatives = booking.alternatives ?? [];
+        return {
+          availability: { ...state.availability, isSlotBusy: true, alternativeSlots: alternatives },
+          reply: (booking.conflict?.busyAttendees?.length
+            ? `I didn't book it: ${booking.conflict.busyAttendees.join(", ")} became busy. `
+            : `I didn't book it: I couldn't check ${booking.conflict?.unresolved?.join(", ") || "some required attendees"}'s calendar. `) +
+            (alternatives.length ? "Pick one of the other times or suggest another." : "Suggest another time."),
+        };
+      }
+      return { status: "booked" as const, booking, reply: `Booked "${state.draft!.subject}". Invitations are on their way.` };
+    } catch (error: any) {
+      return { reply: `I couldn't book it: ${errorText(error)}` };
+    }
+  };
+
+  const respondNode = (state: ConversationGraphState) => ({
+    messages: [{ role: "assistant" as const, content: state.reply, at: new Date().toISOString() }],
+  });
+
+  return new StateGraph(ConversationState)
+    .addNode("interpret", interpretNode)
+    .addNode("check", checkNode)
+    .addNode("book", bookNode)
+    .addNode("respond", respondNode)
+    .addEdge(START, "interpret")
+    .addConditionalEdges("interpret", (state: ConversationGraphState) => state.next, { check: "check", book: "book", respond: "respond" })
+    .addEdge("check", "respond")
+    .addEdge("book", "respond")
+    .addEdge("respond", END)
+    .compile({ checkpointer });
+};
+
+/**
+ * The draft with names among its attendees ("Priya") replaced by their addresses; names that can't be resolved
+ * are left out and reported
+ */
+const withPeopleResolved = async (draft: MeetingDraft, deps: Pick<ConversationDeps, "resolvePeople">) => {
+  const [required, optional] = await Promise.all([deps.resolvePeople(draft.attendees), deps.resolvePeople(draft.optionalAttendees)]);
+  return {
+    draft: { ...draft, attendees: required.emails, optionalAttendees: optional.emails },
+    unresolved: [...required.unresolved, ...optional.unresolved],
+  };
+};
+
+/**
+ * The draft with a follow-up's changes applied; times move together so the meeting keeps its length unless the
+ * duration itself changes
+ */
+export const applyFollowUp = async (
+  current: MeetingDraft,
+  followUp: FollowUp,
+  alternatives: { start: string; end: string }[],
+  deps: Pick<ConversationDeps, "resolvePeople">,
+): Promise<{ draft: MeetingDraft; unresolved: string[] }> => {
+  const draft: MeetingDraft = { ...current, attendees: [...current.attendees], optionalAttendees: [...current.optionalAttendees] };
+  let start = new Date(draft.startTime);
+  let minutes = Math.round((new Date(draft.endTime).getTime() - start.getTime()) / 60000);
+
+  const picked = followUp.useAlternative ? alternatives[followUp.useAlternative - 1] : undefined;
+  if (picked) {
+    start = new Date(picked.start);
+    minutes = Math.round((new Date(picked.end).getTime() - start.getTime()) / 60000);
+  } else if (followUp.startTime && !isNaN(Date.parse(followUp.startTime))) {
+    start = new Date(followUp.startTime);
+  }
+  if (followUp.moveMinutes) start = new Date(start.getTime() + followUp.moveMinutes * 60000);
+  if (followUp.durationMinutes) minutes = followUp.durationMinutes;
+  draft.startTime = start.toISOString();
+  draft.endTime = new Date(start.getTime() + minutes * 60000).toISOString();
+  draft.duration = minutes;
+
+  if (followUp.subject) draft.subject = followUp.subject;
+  if (followUp.isOnlineMeeting !== null) draft.isOnlineMeeting = followUp.isOnlineMeeting;
+  if (followUp.location) draft.location = followUp.location;
+  if (followUp.description) draft.description = followUp.description;
+
+  const [required, optional, removed] = await Promise.all([
+    deps.resolvePeople(followUp.addAttendees),
+    deps.resolvePeople(followUp.addOptionalAttendees),
+    deps.resolvePeople(followUp.removeAttendees),
+  ]);
+  const has = (list: string[], email: string) => list.some(e => e.toLowerCase() === email.toLowerCase());
+  const drop = (list: string[]) => list.filter(e => !has(removed.emails, e));
+  // Someone added as required stops being optional, and the other way round
+  draft.attendees = drop([...draft.attendees.filter(e => !has(optional.emails, e)), ...required.emails.filter(e => !has(draft.attendees, e))]);
+  draft.optionalAttendees = drop([...draft.optionalAttendees.filter(e => !has(required.emails, e)), ...optional.emails.filter(e => !has(draft.optionalAttendees, e))]);
+
+  return { draft, unresolved: [...required.unresolved, ...optional.unresolved, ...removed.unresolved] };
+};
@@ -0,0 +1,27 @@
+import { Body, Controller, Delete, Get, Param, Post, Request, UseGuards } from '@nestjs/common';
+import { SignedInGuard } from '../auth/signed-in.guard';
+import { ConversationsService } from './conversations.service';
+import { ConversationTurnDTO } from './types';
+
+@Controller('scheduling/conversations')
+@UseGuards(SignedInGuard)
+export class ConversationsController {
+  constructor(private conversations: ConversationsService) { }
+
+  // Starts a conversation (no sessionId) or continues one; books only after the organizer confirms. A conversation
+  // belongs to the signed-in user who started it
+  @Post()
+  async converse(@Body() dto: ConversationTurnDTO, @Request() req: any) {
+    return this.conversations.converse(dto, req.user.email);
+  }
+
+  @Get(':sessionId')
+  async get(@Param('sessionId') sessionId: string, @Request() req: any) {
+    return this.conversations.get(sessionId, req.user.email);
+  }
+
+  @Delete(':sessionId')
+  async discard(@Param('sessionId') sessionId: string, @Request() req: any) {
+    return this.conversations.discard(sessionId, req.user.email);
+  }
+}
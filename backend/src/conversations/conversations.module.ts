@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { PolicyModule } from '../policy/policy.module';
+import { SchedulingModule } from '../scheduling/scheduling.module';
+import { ConversationsService } from './conversations.service';
+import { ConversationsController } from './conversations.controller';
+
+@Module({
+  imports: [PrismaModule, AuthModule, CalendarProvidersModule, PolicyModule, SchedulingModule],
+  controllers: [ConversationsController],
+  providers: [ConversationsService],
+})
+export class ConversationsModule { }
@@ -0,0 +1,205 @@
+import { BadRequestException, ConflictException, ForbiddenException, Inject, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit, ServiceUnavailableException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { PolicyService } from '../policy/policy.service';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import { MeetingDraft } from '../scheduling/types';
+import { formatInTimeZone } from '../policy/timezone';
+import { llmConfigured } from '../agent/llm';
+import { ConversationDeps, ConversationGraphState, buildConversationGraph } from './conversation-graph';
+import { PrismaCheckpointSaver } from './prisma-checkpoint-saver';
+import { ConversationTurnDTO, ConversationView } from './types';
+const logger = new Logger('ConversationsService');
+
+/**
+ * Multi-turn scheduling: the first message is parsed like POST /scheduling/parse-natural-language, later ones edit
+ * that draft ("make it 30 minutes later and add Priya") until the organizer confirms and it is booked. Each
+ * conversation is a LangGraph thread checkpointed in the database, keyed by its session id.
+ */
+@Injectable()
+export class ConversationsService implements OnModuleInit, OnModuleDestroy {
+  private checkpointer: PrismaCheckpointSaver;
+  private graph: ReturnType<typeof buildConversationGraph>;
+  private ttlDays = parseInt(process.env.CONVERSATION_TTL_DAYS || '7', 10);
+  private timer: NodeJS.Timeout | null = null;
+  // Sessions answering a message in this instance. Per process: two instances could still answer the same session at
+  // once, so deployments with several instances should route a session to one of them (e.g. sticky sessions).
+  private answering = new Set<string>();
+
+  constructor(
+    @Inject('PRISMA') private prisma: any,
+    private policy: PolicyService,
+    private scheduling: SchedulingService,
+  ) {
+    this.checkpointer = new PrismaCheckpointSaver(prisma);
+    this.graph = buildConversationGraph(this.deps(), this.checkpointer);
+  }
+
+  onModuleInit() {
+    if (this.ttlDays <= 0) return;
+    this.timer = setInterval(() => void this.pruneIdle(), 24 * 60 * 60 * 1000);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  private async pruneIdle() {
+    try {
+      const deleted = await this.checkpointer.deleteThreadsIdleSince(new Date(Date.now() - this.ttlDays * 24 * 60 * 60 * 1000));
+      if (deleted > 0) logger.log(`Deleted ${deleted} conversation(s) idle for ${this.ttlDays} day(s)`);
+    } catch (error: any) {
+      logger.warn(`Could not prune idle conversations: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Answer one message, starting a conversation when no sessionId is given. The requester becomes the organizer of a
+   * new conversation and must be the organizer of an existing one.
+   */
+  async converse(dto: ConversationTurnDTO, requester: string): Promise<ConversationView> {
+    if (!dto.message?.trim()) throw new BadRequestException('message is required');
+    if (!llmConfigured()) throw new ServiceUnavailableException('Conversations need an LLM: set LLM_PROVIDER and its API key');
+    const sessionId = dto.sessionId || randomUUID();
+    const config = { configurable: { thread_id: sessionId } };
+
+    if (this.answering.has(sessionId)) throw new ConflictException('This conversation is still answering the previous message');
+    this.answering.add(sessionId);
+    try {
+      const existing = await this.state(sessionId);
+      if (dto.sessionId && !existing) throw new NotFoundException(`Conversation ${sessionId} not found`);
+      if (existing) this.checkOwner(existing, requester);
+
+      const result = await this.graph.invoke({ organizer: existing?.organizer ?? requester, input: dto.message.trim() }, config);
+      logger.log(`Conversation ${sessionId}: ${result.status}${result.draft ? `, draft at ${result.draft.startTime}` : ''}`);
+      return this.toView(sessionId, result);
+    } finally {
+      this.answering.delete(sessionId);
+    }
+  }
+
+  async get(sessionId: string, requester: string): Promise<ConversationView> {
+    const state = await this.state(sessionId);
+    if (!state) throw new NotFoundException(`Conversation ${sessionId} not found`);
+    this.checkOwner(state, requester);
+    return this.toView(sessionId, state);
+  }
+
+  async discard(sessionId: string, requester: string) {
+    const state = await this.state(sessionId);
+    if (!state) throw new NotFoundException(`Conversation ${sessionId} not found`);
+    this.checkOwner(state, requester);
+    await this.checkpointer.deleteThread(sessionId);
+    return { message: 'Conversation deleted', sessionId };
+  }
+
+  private async state(sessionId: string): Promise<ConversationGraphState | null> {
+    const snapshot = await this.graph.getState({ configurable: { thread_id: sessionId } });
+    return snapshot.values?.organizer ? snapshot.values as ConversationGraphState : null;
+  }
+
+  private checkOwner(state: ConversationGraphState, requester: string) {
+    if (!requester || state.organizer.toLowerCase() !== requester.toLowerCase()) {
+      throw new ForbiddenException('Only the organizer can use this conversation');
+    }
+  }
+
+  private toView(sessionId: string, state: ConversationGraphState): ConversationView {
+    return {
+      sessionId,
+      status: state.status ?? 'drafting',
+      reply: state.reply ?? '',
+      draft: state.draft ?? null,
+      availability: state.availability ?? null,
+      booking: state.booking ?? null,
+      messages: state.messages ?? [],
+    };
+  }
+
+  private deps(): ConversationDeps {
+    return {
+      timeZone: async organizer => (await this.policy.getPolicyForUser(organizer)).timeZone,
+      extractDraft: (input, organizer) => this.scheduling.extractMeetingDraft(input, organizer, { allowNames: true }),
+      checkDraft: (organizer, draft) => this.scheduling.checkMeetingDraft(organizer, draft),
+      book: (organizer, draft, sessionId) => this.scheduling.scheduleMeeting({
+        organizer,
+        subject: draft.subject,
+        attendees: [
+          ...draft.attendees.map(address => ({ emailAddress: { address }, type: 'Required' })),
+          ...draft.optionalAttendees.map(address => ({ emailAddress: { address }, type: 'Optional' })),
+        ],
+        start: draft.startTime,
+        end: draft.endTime,
+        durationMinutes: draft.duration,
+        recurrence: draft.recurrence,
+        room: draft.roomRequest,
+        isOnlineMeeting: draft.isOnlineMeeting,
+        location: draft.location,
+        description: draft.description,
+        createIfFree: true,
+        // A confirmation retried after a lost response doesn't book twice
+        idempotencyKey: `conversation-${sessionId}`,
+      }),
+      resolvePeople: names => this.resolvePeople(names),
+      describe: (organizer, draft, availability) => this.describe(organizer, draft, availability),
+    };
+  }
+
+  /**
+   * Addresses for attendee names, from the synced directory: a name resolves when exactly one person's display
+   * name contains it. Entries that already are addresses are kept.
+   */
+  private async resolvePeople(names: string[]): Promise<{ emails: string[]; unresolved: string[] }> {
+    const emails: string[] = [];
+    const unresolved: string[] = [];
+    const lookups = names.filter(name => !name.includes('@'));
+    const users = lookups.length === 0 ? [] : await this.prisma.user.findMany({
+      where: { deletedAt: null, email: { not: null } },
+      select: { email: true, displayName: true },
+    });
+    for (const name of names) {
+      if (name.includes('@')) {
+        emails.push(name);
+        continue;
+      }
+      // Matched in JS because SQLite comparisons are case-sensitive
+      const matches = users.filter((u: any) => u.displayName?.toLowerCase().includes(name.trim().toLowerCase()));
+      if (matches.length === 1) emails.push(matches[0].email);
+      else unresolved.push(name);
+    }
+    return { emails, unresolved };
+  }
+
+  /**
+   * The assistant's reply after a change: the draft as it stands, whether it works, and what to say next
+   */
+  private async describe(organizer: string, draft: MeetingDraft, availability: any): Promise<string> {
+    const { timeZone } = await this.policy.getPolicyForUser(organizer);
+    const when = `${formatInTimeZone(new Date(draft.startTime), timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}` +
+      `-${formatInTimeZone(new Date(draft.endTime), timeZone, { hour: '2-digit', minute: '2-digit' })} (${timeZone})`;
+    const who = [...draft.attendees, ...draft.optionalAttendees.map(email => `${email} (optional)`)].join(', ') || 'no attendees yet';
+    const lines = [`"${draft.subject}" on ${when} with ${who}.`];
+
+    const busy = Object.entries(availability.availabilityStatus ?? {}).filter(([, status]) => status === 'busy').map(([email]) => email);
+    const problems = [
+      busy.length ? `${busy.join(', ')} ${busy.length === 1 ? 'is' : 'are'} busy then` : '',
+      availability.roomUnavailable ? 'no matching room is free' : '',
+      availability.recurrenceConflicts?.length ? `${availability.recurrenceConflicts.length} occurrence(s) conflict` : '',
+    ].filter(Boolean);
+
+    if (problems.length === 0) {
+      lines.push(`Everyone required is free${availability.room ? ` and ${availability.room.displayName} is available` : ''}. Say "book it" to send the invite, or tell me what to change.`);
+    } else {
+      lines.push(`${problems.join('; ')}.`);
+      const alternatives: any[] = availability.alternativeSlots ?? [];
+      if (alternatives.length > 0) {
+        lines.push('Other times that work:');
+        alternatives.forEach((slot, i) => lines.push(`${i + 1}. ${formatInTimeZone(new Date(slot.start), timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`));
+        lines.push('Pick one, suggest another time, or say "book it" anyway.');
+      } else {
+        lines.push('Suggest another time, or say "book it" anyway.');
+      }
+    }
+    return lines.join('\n');
+  }
+}
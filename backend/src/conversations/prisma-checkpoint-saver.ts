@@ -0,0 +1,129 @@
+import { BaseCheckpointSaver, Checkpoint, CheckpointMetadata, CheckpointTuple, copyCheckpoint } from '@langchain/langgraph';
+import type { RunnableConfig } from '@langchain/core/runnables';
+
+type CheckpointListOptions = Parameters<BaseCheckpointSaver['list']>[1];
+type PendingWrite = Parameters<BaseCheckpointSaver['putWrites']>[1][number];
+
+// Special writes get fixed negative indices so a retried task doesn't store them twice (as LangGraph's own savers do)
+const WRITES_IDX_MAP: Record<string, number> = { __error__: -1, __scheduled__: -2, __interrupt__: -3, __resume__: -4 };
+
+/**
+ * LangGraph checkpointer on the Prisma database (AgentCheckpoint / AgentCheckpointWrite), so conversation state
+ * survives restarts and is shared by every instance. Checkpoint ids are time-ordered, so the latest sorts last.
+ */
+export class PrismaCheckpointSaver extends BaseCheckpointSaver {
+  constructor(private prisma: any) {
+    super();
+  }
+
+  private target(config: RunnableConfig) {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) throw new Error('Checkpoint config has no thread_id');
+    return {
+      threadId: String(threadId),
+      checkpointNs: config.configurable?.checkpoint_ns ?? '',
+      checkpointId: config.configurable?.checkpoint_id as string | undefined,
+    };
+  }
+
+  private async toTuple(row: any): Promise<CheckpointTuple> {
+    const writes = await this.prisma.agentCheckpointWrite.findMany({
+      where: { threadId: row.threadId, checkpointNs: row.checkpointNs, checkpointId: row.checkpointId },
+      orderBy: [{ taskId: 'asc' }, { idx: 'asc' }],
+    });
+    const configurable = { thread_id: row.threadId, checkpoint_ns: row.checkpointNs };
+    return {
+      config: { configurable: { ...configurable, checkpoint_id: row.checkpointId } },
+      checkpoint: await this.serde.loadsTyped(row.type, new Uint8Array(row.checkpoint)),
+      metadata: await this.serde.loadsTyped(row.type, new Uint8Array(row.metadata)),
+      parentConfig: row.parentCheckpointId ? { configurable: { ...configurable, checkpoint_id: row.parentCheckpointId } } : undefined,
+      pendingWrites: await Promise.all(writes.map(async (w: any) =>
+        [w.taskId, w.channel, await this.serde.loadsTyped(w.type, new Uint8Array(w.value))] as [string, string, unknown]
+      )),
+    };
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const { threadId, checkpointNs, checkpointId } = this.target(config);
+    const row = checkpointId
+      ? await this.prisma.agentCheckpoint.findUnique({ where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId } } })
+      : await this.prisma.agentCheckpoint.findFirst({ where: { threadId, checkpointNs }, orderBy: { checkpointId: 'desc' } });
+    return row ? this.toTuple(row) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options ?? {};
+    const where: any = {};
+    if (config.configurable?.thread_id !== undefined) where.threadId = String(config.configurable.thread_id);
+    if (config.configurable?.checkpoint_ns !== undefined) where.checkpointNs = config.configurable.checkpoint_ns;
+    const checkpointId: any = {};
+    if (config.configurable?.checkpoint_id) checkpointId.equals = config.configurable.checkpoint_id;
+    if (before?.configurable?.checkpoint_id) checkpointId.lt = before.configurable.checkpoint_id;
+    if (Object.keys(checkpointId).length > 0) where.checkpointId = checkpointId;
+
+    const rows = await this.prisma.agentCheckpoint.findMany({ where, orderBy: { checkpointId: 'desc' } });
+    let remaining = limit;
+    for (const row of rows) {
+      if (remaining !== undefined && remaining <= 0) return;
+      const tuple = await this.toTuple(row);
+      if (filter && !Object.entries(filter).every(([key, value]) => (tuple.metadata as any)?.[key] === value)) continue;
+      if (remaining !== undefined) remaining--;
+      yield tuple;
+    }
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const { threadId, checkpointNs, checkpointId: parentCheckpointId } = this.target(config);
+    const [[type, serialized], [, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata),
+    ]);
+    const data = {
+      parentCheckpointId: parentCheckpointId ?? null,
+      type,
+      checkpoint: Buffer.from(serialized),
+      metadata: Buffer.from(serializedMetadata),
+    };
+    await this.prisma.agentCheckpoint.upsert({
+      where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId: checkpoint.id } },
+      update: data,
+      create: { threadId, checkpointNs, checkpointId: checkpoint.id, ...data },
+    });
+    return { configurable: { thread_id: threadId, checkpoint_ns: checkpointNs, checkpoint_id: checkpoint.id } };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const { threadId, checkpointNs, checkpointId } = this.target(config);
+    if (!checkpointId) throw new Error('Checkpoint config has no checkpoint_id');
+    for (const [index, [channel, value]] of writes.entries()) {
+      const idx = WRITES_IDX_MAP[channel] ?? index;
+      const [type, serialized] = await this.serde.dumpsTyped(value);
+      const key = { threadId, checkpointNs, checkpointId, taskId, idx };
+      const data = { channel, type, value: Buffer.from(serialized) };
+      // Regular writes are kept as first stored; special ones (errors, interrupts) are replaced
+      await this.prisma.agentCheckpointWrite.upsert({
+        where: { threadId_checkpointNs_checkpointId_taskId_idx: key },
+        update: idx < 0 ? data : {},
+        create: { ...key, ...data },
+      });
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.prisma.agentCheckpointWrite.deleteMany({ where: { threadId } });
+    await this.prisma.agentCheckpoint.deleteMany({ where: { threadId } });
+  }
+
+  /**
+   * Delete threads whose latest checkpoint is older than `cutoff`; returns how many
+   */
+  async deleteThreadsIdleSince(cutoff: Date): Promise<number> {
+    const idle = await this.prisma.agentCheckpoint.groupBy({
+      by: ['threadId'],
+      _max: { createdAt: true },
+      having: { createdAt: { _max: { lt: cutoff } } },
+    });
+    for (const { threadId } of idle) await this.deleteThread(threadId);
+    return idle.length;
+  }
+}
@@ -0,0 +1,21 @@
+import { MeetingDraft } from '../scheduling/types';
+import { formatInTimeZone } from '../policy/timezone';
+
+export const followUpPrompt = (draft: MeetingDraft, alternatives: { start: string; end: string }[], timeZone: string, now: Date) => `
+You help an organizer refine a meeting draft over several messages. Read their latest message and say how it changes
+the draft. Only fill in what the message changes; leave everything else null or empty.
+
+Now: ${now.toISOString()} (${formatInTimeZone(now, timeZone, { dateStyle: 'full', timeStyle: 'short' })} in ${timeZone}).
+Times the organizer mentions are in ${timeZone}; give startTime in UTC.
+
+Current draft:
+${JSON.stringify(draft, null, 2)}
+
+Alternatives offered so far:
+${alternatives.length ? alternatives.map((a, i) => `${i + 1}. ${formatInTimeZone(new Date(a.start), timeZone)} - ${formatInTimeZone(new Date(a.end), timeZone, { timeStyle: 'short' })}`).join('\n') : 'none'}
+
+action is "confirm" when they want it booked as it stands ("book it", "yes, send it"), "cancel" when they give up on
+it, "restart" when they describe a different meeting from scratch, and "edit" otherwise.
+"30 minutes later" is moveMinutes 30; "make it 45 minutes" is durationMinutes 45; "the second option" is
+useAlternative 2; "add Priya" puts "Priya" in addAttendees (keep names as written if you don't know the address).
+`;
@@ -0,0 +1,25 @@
+import { MeetingDraft } from '../scheduling/types';
+
+// drafting until the organizer confirms (booked) or gives up (cancelled); a closed conversation takes no more edits
+export type ConversationStatus = 'drafting' | 'booked' | 'cancelled';
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  at: string;
+}
+
+export interface ConversationTurnDTO {
+  message: string;
+  sessionId?: string;          // continue this conversation; a new one is started without it
+}
+
+export interface ConversationView {
+  sessionId: string;
+  status: ConversationStatus;
+  reply: string;               // the assistant's answer to the last message
+  draft: MeetingDraft | null;
+  availability: any | null;    // checkMeetingDraft result for the draft: who is busy, room, alternatives
+  booking: any | null;         // scheduleMeeting result once booked
+  messages: ConversationMessage[];
+}
@@ -0,0 +1,206 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { GraphClient } from '../graph/graph.client';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { FreeBusyCacheService } from './free-busy-cache.service';
+
+const logger = new Logger('CalendarSubscriptionsService');
+
+const MINUTE_MS = 60 * 1000;
+// Graph caps subscriptions on Outlook events at 4230 minutes
+const SUBSCRIPTION_LIFETIME_MS = 4200 * MINUTE_MS;
+// Renew subscriptions that would expire before the check after next
+const RENEW_BEFORE_MS = 24 * 60 * MINUTE_MS;
+const RENEWAL_INTERVAL_MS = 60 * MINUTE_MS;
+// lastUsedAt is written at most this often per user
+const TOUCH_INTERVAL_MS = 60 * MINUTE_MS;
+// A failed subscribe isn't retried for this long, so a broken webhook doesn't cost a Graph call per read
+const SUBSCRIBE_RETRY_MS = 30 * MINUTE_MS;
+
+/**
+ * Graph change notifications on the events of users whose free/busy we read, so their cached free/busy is dropped
+ * as soon as their calendar changes. Needs a public GRAPH_WEBHOOK_URL pointing at POST /webhooks/graph; without it
+ * (or offline, or for users on other providers) cached free/busy just expires after its TTL.
+ * Subscriptions are renewed hourly while the user's free/busy is still being read within SUBSCRIPTION_IDLE_DAYS.
+ */
+@Injectable()
+export class CalendarSubscriptionsService implements OnModuleInit, OnModuleDestroy {
+  private webhookUrl = process.env.GRAPH_WEBHOOK_URL || '';
+  private idleMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private touched = new Map<string, number>();
+  private failed = new Map<string, number>();
+  private subscribing = new Set<string>();
+  private eventListeners: ((email: string, eventId: string) => void)[] = [];
+
+  constructor(
+    @Inject('PRISMA') private prisma: any,
+    private graph: GraphClient,
+    private providers: CalendarProvidersService,
+    private cache: FreeBusyCacheService,
+  ) {
+    this.idleMs = parseInt(process.env.SUBSCRIPTION_IDLE_DAYS || '7', 10) * 24 * 60 * MINUTE_MS;
+  }
+
+  get enabled(): boolean {
+    return !!this.webhookUrl && !this.providers.offline && this.providers.get('microsoft').isConfigured();
+  }
+
+  onModuleInit() {
+    if (!this.enabled) {
+      logger.log('Calendar change notifications disabled: cached free/busy expires after its TTL only');
+      return;
+    }
+    this.timer = setInterval(() => void this.renewDue(), RENEWAL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /**
+   * Call `listener` with the mailbox and event id whenever a watched calendar reports a changed event
+   */
+  onEventChanged(listener: (email: string, eventId: string) => void) {
+    this.eventListeners.push(listener);
+  }
+
+  /**
+   * Make sure the users' calendars are watched. Returns at once; subscribing happens in the background.
+   */
+  watch(emails: string[]) {
+    if (!this.enabled) return;
+    const now = Date.now();
+    for (const email of new Set(emails.map(e => e.toLowerCase()))) {
+      if (this.providers.kindFor(email) !== 'microsoft') continue;
+      if (now - (this.touched.get(email) ?? 0) < TOUCH_INTERVAL_MS) continue;
+      if (now - (this.failed.get(email) ?? 0) < SUBSCRIBE_RETRY_MS) continue;
+      if (this.subscribing.has(email)) continue;
+      this.subscribing.add(email);
+      void this.ensureSubscription(email).finally(() => this.subscribing.delete(email));
+    }
+  }
+
+  private async ensureSubscription(email: string) {
+    try {
+      const existing = await this.prisma.calendarSubscription.findUnique({ where: { email } });
+      if (existing && existing.expiresAt.getTime() > Date.now() + RENEW_BEFORE_MS) {
+        await this.prisma.calendarSubscription.update({ where: { email }, data: { lastUsedAt: new Date() } });
+      } else if (existing) {
+        await this.renew(existing);
+      } else {
+        await this.subscribe(email);
+      }
+      this.touched.set(email, Date.now());
+      this.failed.delete(email);
+    } catch (error: any) {
+      this.failed.set(email, Date.now());
+      logger.warn(`Could not watch the calendar of ${email}: ${error?.response?.data?.error?.message || error?.message || error}`);
+    }
+  }
+
+  private async subscribe(email: string) {
+    const clientState = randomBytes(24).toString('hex');
+    const subscription = await this.graph.createSubscription({
+      changeType: 'created,updated,deleted',
+      resource: `/users/${email}/events`,
+      notificationUrl: this.webhookUrl,
+      lifecycleNotificationUrl: this.webhookUrl,
+      expirationDateTime: new Date(Date.now() + SUBSCRIPTION_LIFETIME_MS).toISOString(),
+      clientState,
+    });
+    try {
+      await this.prisma.calendarSubscription.create({
+        data: { email, subscriptionId: subscription.id, clientState, expiresAt: new Date(subscription.expirationDateTime) },
+      });
+    } catch (error) {
+      // Another instance subscribed the same user first
+      await this.graph.deleteSubscription(subscription.id).catch(() => undefined);
+      throw error;
+    }
+    // Changes made before the subscription existed were never notified
+    await this.cache.invalidate([email]);
+    logger.log(`Watching the calendar of ${email} until ${subscription.expirationDateTime}`);
+  }
+
+  private async renew(record: any) {
+    try {
+      const renewed = await this.graph.renewSubscription(record.subscriptionId, new Date(Date.now() + SUBSCRIPTION_LIFETIME_MS).toISOString());
+      await this.prisma.calendarSubscription.update({
+        where: { id: record.id },
+        data: { expiresAt: new Date(renewed.expirationDateTime), lastUsedAt: new Date() },
+      });
+    } catch (error: any) {
+      if (error?.response?.status !== 404) throw error;
+      // Graph already removed it; start over
+      await this.drop(record);
+      await this.subscribe(record.email);
+    }
+  }
+
+  private async drop(record: any) {
+    await this.prisma.calendarSubscription.deleteMany({ where: { id: record.id } });
+    await this.cache.invalidate([record.email]);
+    this.touched.delete(record.email);
+  }
+
+  /**
+   * Renew subscriptions about to expire; delete those whose free/busy nobody read lately
+   */
+  async renewDue() {
+    const due = await this.prisma.calendarSubscription.findMany({ where: { expiresAt: { lt: new Date(Date.now() + RENEW_BEFORE_MS) } } });
+    let renewed = 0;
+    let removed = 0;
+    for (const record of due) {
+      try {
+        if (record.lastUsedAt.getTime() < Date.now() - this.idleMs) {
+          await this.graph.deleteSubscription(record.subscriptionId).catch((error: any) => {
+            if (error?.response?.status !== 404) throw error;
+          });
+          await this.drop(record);
+          removed++;
+        } else {
+          await this.renew(record);
+          renewed++;
+        }
+      } catch (error: any) {
+        logger.warn(`Could not renew the subscription for ${record.email}: ${error?.response?.data?.error?.message || error?.message || error}`);
+      }
+    }
+    if (due.length > 0) logger.log(`Subscriptions: ${renewed} renewed, ${removed} removed as idle`);
+  }
+
+  /**
+   * Change and lifecycle notifications posted to the webhook. Ones that don't carry the subscription's
+   * clientState are ignored, since anybody can post to the URL.
+   */
+  async handleNotifications(notifications: any[]) {
+    for (const notification of notifications) {
+      const record = await this.prisma.calendarSubscription.findUnique({ where: { subscriptionId: String(notification.subscriptionId) } });
+      if (!record || record.clientState !== notification.clientState) {
+        logger.warn(`Ignoring notification for unknown subscription ${notification.subscriptionId}`);
+        continue;
+      }
+
+      switch (notification.lifecycleEvent) {
+        case undefined:
+          await this.cache.invalidate([record.email]);
+          if (notification.resourceData?.id) this.eventListeners.forEach(listener => listener(record.email, notification.resourceData.id));
+          break;
+        case 'missed':
+          await this.cache.invalidate([record.email]);
+          break;
+        case 'reauthorizationRequired':
+          await this.renew(record).catch((error: any) => logger.warn(`Could not reauthorize the subscription for ${record.email}: ${error?.message || error}`));
+          break;
+        case 'subscriptionRemoved':
+          logger.warn(`Graph removed the subscription for ${record.email}`);
+          await this.drop(record);
+          break;
+        default:
+          logger.warn(`Unknown lifecycle event ${notification.lifecycleEvent} for ${record.email}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { GraphModule } from '../graph/graph.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { FreeBusyCacheService } from './free-busy-cache.service';
+import { CalendarSubscriptionsService } from './calendar-subscriptions.service';
+import { GraphWebhookController } from './graph-webhook.controller';
+
+@Module({
+  imports: [PrismaModule, GraphModule, CalendarProvidersModule],
+  controllers: [GraphWebhookController],
+  providers: [FreeBusyCacheService, CalendarSubscriptionsService],
+  exports: [FreeBusyCacheService, CalendarSubscriptionsService],
+})
+export class FreeBusyCacheModule { }
@@ -0,0 +1,146 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { CacheKind, CachedDay, CachedItems, TimedItem } from './types';
+
+const logger = new Logger('FreeBusyCacheService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CACHE_KINDS: CacheKind[] = ['schedule', 'entries'];
+
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Per-user calendar data by UTC day, so any window made of whole days can be answered from it. Uses Redis
+ * (REDIS_URL) so every instance shares the cache and its invalidations; without it, falls back to process memory.
+ * Entries are fresh for FREEBUSY_CACHE_TTL_SECONDS, served stale (and refreshed in the background by the caller)
+ * up to FREEBUSY_CACHE_MAX_STALE_SECONDS, and dropped as soon as a change notification arrives for the user.
+ */
+@Injectable()
+export class FreeBusyCacheService {
+  private local = new Map<string, Map<string, CachedDay>>();
+  private ttlMs: number;
+  private maxStaleMs: number;
+
+  constructor(@Inject('REDIS') private redisClient: Redis | null) {
+    if (!redisClient) logger.warn('REDIS_URL not set: free/busy is cached per instance');
+    this.ttlMs = parseInt(process.env.FREEBUSY_CACHE_TTL_SECONDS || '300', 10) * 1000;
+    this.maxStaleMs = parseInt(process.env.FREEBUSY_CACHE_MAX_STALE_SECONDS || '3600', 10) * 1000;
+  }
+
+  get enabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  private keyFor(kind: CacheKind, email: string): string {
+    return `freebusy:${kind}:${email.toLowerCase()}`;
+  }
+
+  /**
+   * UTC days covering [from, to); callers fetch and cache whole days
+   */
+  daysOf(from: Date, to: Date): { from: Date; to: Date; days: string[] } {
+    const start = Math.floor(from.getTime() / DAY_MS) * DAY_MS;
+    const end = Math.ceil(to.getTime() / DAY_MS) * DAY_MS;
+    const days: string[] = [];
+    for (let t = start; t < end; t += DAY_MS) days.push(dayKey(t));
+    return { from: new Date(start), to: new Date(end), days };
+  }
+
+  private async readDays(key: string, days: string[]): Promise<(CachedDay | undefined)[]> {
+    if (this.redisClient) {
+      const raw = await this.redisClient.hmget(key, ...days);
+      return raw.map(value => {
+        if (!value) return undefined;
+        const day = JSON.parse(value);
+        return { fetchedAt: day.fetchedAt, items: day.items.map((i: any) => ({ ...i, start: new Date(i.start), end: new Date(i.end) })) };
+      });
+    }
+    const stored = this.local.get(key);
+    return days.map(day => stored?.get(day));
+  }
+
+  /**
+   * Cached items per user (lowercased) overlapping [from, to). Users missing a day, or with a day past the maximum
+   * staleness, are left out and have to be fetched.
+   */
+  async read<T extends TimedItem>(kind: CacheKind, emails: string[], from: Date, to: Date): Promise<Map<string, CachedItems<T>>> {
+    const hits = new Map<string, CachedItems<T>>();
+    if (!this.enabled) return hits;
+    const { days } = this.daysOf(from, to);
+    const now = Date.now();
+
+    for (const email of emails) {
+      const key = email.toLowerCase();
+      let cached: (CachedDay | undefined)[];
+      try {
+        cached = await this.readDays(this.keyFor(kind, key), days);
+      } catch (error: any) {
+        logger.warn(`Free/busy cache read failed for ${key}: ${error?.message || error}`);
+        continue;
+      }
+      if (cached.some(day => !day || now - day.fetchedAt > this.maxStaleMs)) continue;
+
+      // An item spanning midnight is stored under each day it touches
+      const seen = new Set<string>();
+      const items = (cached as CachedDay<T>[])
+        .flatMap(day => day.items)
+        .filter(item => item.start < to && item.end > from)
+        .filter(item => {
+          const id = JSON.stringify(item);
+          if (seen.has(id)) return false;
+          seen.add(id);
+          return true;
+        });
+      hits.set(key, { items, stale: cached.some(day => now - day!.fetchedAt > this.ttlMs) });
+    }
+    return hits;
+  }
+
+  /**
+   * Store a user's items for [from, to), which must be whole UTC days (see daysOf)
+   */
+  async write<T extends TimedItem>(kind: CacheKind, email: string, from: Date, to: Date, items: T[]) {
+    if (!this.enabled) return;
+    const fetchedAt = Date.now();
+    const byDay: Record<string, CachedDay<T>> = {};
+    for (let t = from.getTime(); t < to.getTime(); t += DAY_MS) {
+      byDay[dayKey(t)] = { fetchedAt, items: items.filter(i => i.start.getTime() < t + DAY_MS && i.end.getTime() > t) };
+    }
+
+    const key = this.keyFor(kind, email);
+    try {
+      if (this.redisClient) {
+        const fields = Object.fromEntries(Object.entries(byDay).map(([day, value]) => [day, JSON.stringify(value)]));
+        await this.redisClient.multi().hset(key, fields).pexpire(key, this.maxStaleMs).exec();
+        return;
+      }
+      const stored = this.local.get(key) ?? new Map<string, CachedDay>();
+      for (const [day, value] of Object.entries(byDay)) stored.set(day, value);
+      // Forget days nobody asked for again within the staleness limit
+      for (const [day, value] of stored) {
+        if (fetchedAt - value.fetchedAt > this.maxStaleMs) stored.delete(day);
+      }
+      this.local.set(key, stored);
+    } catch (error: any) {
+      logger.warn(`Free/busy cache write failed for ${email}: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Drop everything cached for the users, e.g. after their calendar changed
+   */
+  async invalidate(emails: string[]) {
+    const keys = Array.from(new Set(emails.map(e => e.toLowerCase())))
+      .flatMap(email => CACHE_KINDS.map(kind => this.keyFor(kind, email)));
+    if (keys.length === 0) return;
+    try {
+      if (this.redisClient) {
+        await this.redisClient.del(...keys);
+        return;
+      }
+      keys.forEach(key => this.local.delete(key));
+    } catch (error: any) {
+      logger.warn(`Free/busy cache invalidation failed: ${error?.message || error}`);
+    }
+  }
+}
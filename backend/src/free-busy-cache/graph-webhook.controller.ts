@@ -0,0 +1,28 @@
+import { Body, Controller, Logger, Post, Query, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { CalendarSubscriptionsService } from './calendar-subscriptions.service';
+
+const logger = new Logger('GraphWebhookController');
+
+/**
+ * Endpoint behind GRAPH_WEBHOOK_URL for change and lifecycle notifications. Graph expects an answer within
+ * a few seconds, so notifications are acknowledged first and processed afterwards.
+ */
+@Controller('webhooks/graph')
+export class GraphWebhookController {
+  constructor(private subscriptions: CalendarSubscriptionsService) { }
+
+  @Post()
+  async notify(@Query('validationToken') validationToken: string | undefined, @Body() body: any, @Res() res: Response) {
+    // Handshake when a subscription is created: echo the token as plain text
+    if (validationToken) {
+      res.status(200).type('text/plain').send(validationToken);
+      return;
+    }
+
+    res.status(202).send();
+    const notifications = Array.isArray(body?.value) ? body.value : [];
+    this.subscriptions.handleNotifications(notifications)
+      .catch((error: any) => logger.error(`Failed to process ${notifications.length} notification(s): ${error?.message || error}`));
+  }
+}
@@ -0,0 +1,12 @@
+// What is cached per user: getSchedule items, or calendar entries read for focus categories
+export type CacheKind = 'schedule' | 'entries';
+
+export interface TimedItem { start: Date; end: Date; }
+
+/**
+ * A user's cached items for a window; `stale` once any day in it is older than the TTL
+ */
+export interface CachedItems<T extends TimedItem> { items: T[]; stale: boolean; }
+
+// One UTC day of a user's calendar as stored
+export interface CachedDay<T extends TimedItem = TimedItem> { fetchedAt: number; items: T[]; }
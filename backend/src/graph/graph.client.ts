@@ -1,9 +1,33 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { Injectable, Logger } from '@nestjs/common';
 import { AuthService } from '../auth/auth.service';
+import { isRetryableStatus, requestWithRetry, retryDelayMs, sleep } from '../calendar-providers/retry';
 
 const logger = new Logger('GraphClient');
 
+// Event start/end in responses come back in UTC instead of the event's own timezone
+const UTC_TIMES = { Prefer: 'outlook.timezone="UTC"' };
+// Graph limits: sub-requests per $batch call, schedules per getSchedule call
+const MAX_BATCH_REQUESTS = 20;
+const MAX_SCHEDULES_PER_REQUEST = 20;
+const USER_SELECT = 'id,displayName,mail,userPrincipalName';
+
+export interface BatchRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  url: string;                 // relative to the API version, e.g. /users/{id}
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+export interface BatchResponse<T = any> {
+  status: number;
+  headers: Record<string, string>;
+  body: T;
+}
+
+const headerValue = (headers: Record<string, string>, name: string) =>
+  Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+
 @Injectable()
 export class GraphClient {
   private client: AxiosInstance;
@@ -21,49 +45,52 @@ export class GraphClient {
     return { Authorization: `Bearer ${token.accessToken}` };
   }
 
-  private sleep(ms: number) { return new Promise(r => setTimeout(r, ms)); }
-
   async requestWithRetry<T = any>(fn: () => Promise<AxiosResponse<T>>, maxRetries = 5): Promise<AxiosResponse<T>> {
-    let attempt = 0;
-    let lastErr: any = null;
-    while (attempt <= maxRetries) {
-      try {
-        const resp = await fn();
-        return resp;
-      } catch (err: any) {
-        lastErr = err;
-        attempt++;
-        const status = err?.response?.status;
-        const retryAfterRaw = err?.response?.headers?.['retry-after'];
-        let waitMs = Math.min(60000, 1000 * Math.pow(2, attempt));
-        if (retryAfterRaw) {
-          const s = parseInt(retryAfterRaw, 10);
-          if (!isNaN(s)) waitMs = s * 1000;
-          else {
-            const dt = Date.parse(retryAfterRaw);
-            if (!isNaN(dt)) waitMs = Math.max(0, dt - Date.now());
-          }
-        }
-        if ([429, 503].includes(status)) {
-          logger.warn(`Graph throttled (status=${status}). retry #${attempt} after ${waitMs}ms`);
-          await this.sleep(waitMs);
-          continue;
+    return requestWithRetry(logger, 'Graph', fn, maxRetries);
+  }
+
+  /**
+   * Send requests through JSON batching ($batch), MAX_BATCH_REQUESTS per call. Sub-requests that are throttled or
+   * hit a transient error are retried on their own, honouring their Retry-After. Responses are in request order;
+   * one that still fails is returned with its error status rather than thrown.
+   */
+  async batch<T = any>(requests: BatchRequest[], maxRetries = 5): Promise<BatchResponse<T>[]> {
+    const results: BatchResponse<T>[] = new Array(requests.length);
+    let pending = requests.map((_, index) => index);
+    for (let attempt = 0; ; attempt++) {
+      for (let i = 0; i < pending.length; i += MAX_BATCH_REQUESTS) {
+        const chunk = pending.slice(i, i + MAX_BATCH_REQUESTS);
+        const payload = {
+          requests: chunk.map(index => {
+            const { method, url, body, headers } = requests[index];
+            const subHeaders = body !== undefined ? { 'Content-Type': 'application/json', ...headers } : headers;
+            return { id: String(index), method, url, ...(body !== undefined ? { body } : {}), ...(subHeaders ? { headers: subHeaders } : {}) };
+          }),
+        };
+        const headers = await this.withAuthHeaders();
+        const resp = await this.requestWithRetry(() => this.client.post('/$batch', payload, { headers }));
+        for (const sub of resp.data.responses || []) {
+          results[parseInt(sub.id, 10)] = { status: sub.status, headers: sub.headers || {}, body: sub.body };
         }
-        if (status >= 500 && status < 600) {
-          logger.warn(`Transient server error ${status}. retry #${attempt} after ${waitMs}ms`);
-          await this.sleep(waitMs);
-          continue;
+        for (const index of chunk) {
+          results[index] ??= { status: 500, headers: {}, body: { error: { message: 'No response in batch' } } as any };
         }
-        throw err;
       }
+
+      const retry = pending.filter(index => isRetryableStatus(results[index].status));
+      if (retry.length === 0 || attempt >= maxRetries) break;
+      const waitMs = Math.max(...retry.map(index => retryDelayMs(headerValue(results[index].headers, 'retry-after'), attempt + 1)));
+      logger.warn(`Graph batch: ${retry.length} of ${requests.length} sub-request(s) throttled or failed. retry #${attempt + 1} after ${waitMs}ms`);
+      await sleep(waitMs);
+      pending = retry;
     }
-    throw lastErr;
+    return results;
   }
 
-  async getPaged<T = any>(url: string, params?: any): Promise<T[]> {
+  async getPaged<T = any>(url: string, params?: any, maxItems = Infinity): Promise<T[]> {
     let next = url;
     const results: T[] = [];
-    while (next) {
+    while (next && results.length < maxItems) {
       const headers = await this.withAuthHeaders();
       const resp = await this.requestWithRetry(() => this.client.get(next, { headers, params }));
       const data = resp.data;
@@ -79,12 +106,93 @@ export class GraphClient {
 
   async getUserById(userIdOrPrincipalName: string) {
     const headers = await this.withAuthHeaders();
-    const resp = await this.requestWithRetry(() => this.client.get(`/users/${encodeURIComponent(userIdOrPrincipalName)}`, { headers, params: { '$select': 'id,displayName,mail,userPrincipalName' } }));
+    const resp = await this.requestWithRetry(() => this.client.get(`/users/${encodeURIComponent(userIdOrPrincipalName)}`, { headers, params: { '$select': USER_SELECT } }));
     return resp.data;
   }
 
+  /**
+   * getUserById for many users in one round trip ($batch); null for users that don't exist
+   */
+  async getUsersByIds(userIdsOrPrincipalNames: string[]) {
+    const responses = await this.batch(userIdsOrPrincipalNames.map(id => ({
+      method: 'GET' as const,
+      url: `/users/${encodeURIComponent(id)}?$select=${USER_SELECT}`,
+    })));
+    return responses.map((r, i) => {
+      if (r.status === 404) return null;
+      if (r.status >= 300) throw new Error(`Graph user lookup for ${userIdsOrPrincipalNames[i]} failed (${r.status}): ${r.body?.error?.message || 'unknown error'}`);
+      return r.body;
+    });
+  }
+
   async listUsers(top = 100) {
-    return this.getPaged('/users', { $top: top, $select: 'id,displayName,mail,userPrincipalName' });
+    return this.getPaged('/users', { $top: top, $select: USER_SELECT });
+  }
+
+  /**
+   * One round of /users/delta: every page up to the deltaLink to resume from next time. Without a deltaLink this
+   * enumerates the whole directory. Removed users come back with "@removed", manager changes as "manager@delta";
+   * an expired deltaLink fails with 410 Gone.
+   */
+  async getUsersDelta(deltaLink?: string): Promise<{ users: any[]; deltaLink: string }> {
+    let next = deltaLink || `/users/delta?$select=${USER_SELECT},accountEnabled,department,manager`;
+    const users: any[] = [];
+    for (;;) {
+      const headers = await this.withAuthHeaders();
+      const resp = await this.requestWithRetry(() => this.client.get(next, { headers }));
+      users.push(...(resp.data.value || []));
+      if (!resp.data['@odata.nextLink']) return { users, deltaLink: resp.data['@odata.deltaLink'] };
+      next = resp.data['@odata.nextLink'];
+    }
+  }
+
+  /**
+   * Mailbox timezone (Windows or IANA name) per user, batched; null where it can't be read
+   * (no mailbox, or MailboxSettings.Read not granted)
+   */
+  async getMailboxTimeZones(userIds: string[]): Promise<(string | null)[]> {
+    const responses = await this.batch(userIds.map(id => ({
+      method: 'GET' as const,
+      url: `/users/${encodeURIComponent(id)}/mailboxSettings?$select=timeZone`,
+    })));
+    return responses.map(r => (r.status < 300 ? r.body?.timeZone || null : null));
+  }
+
+  /**
+   * If the address belongs to a distribution list, mail-enabled security group or Microsoft 365 group,
+   * return the group with the addresses of its transitive user members (at most `maxMembers`).
+   * Returns null for anything that isn't a group (requires GroupMember.Read.All).
+   */
+  async expandGroupAddress(email: string, maxMembers: number) {
+    const headers = await this.withAuthHeaders();
+    const resp = await this.requestWithRetry(() => this.client.get('/groups', {
+      headers,
+      params: { $filter: `mail eq '${email.replace(/'/g, "''")}'`, $select: 'id,displayName,mail' },
+    }));
+    const group = resp.data.value?.[0];
+    if (!group) return null;
+
+    // Cast to users: nested groups and contacts have no calendar. One extra member tells us the cap was hit.
+    const members = (await this.getPaged(
+      `/groups/${group.id}/transitiveMembers/microsoft.graph.user`,
+      { $select: 'id,displayName,mail,userPrincipalName', $top: 999 },
+      maxMembers + 1,
+    ))
+      .map((m: any) => m.mail || m.userPrincipalName)
+      .filter(Boolean) as string[];
+    return {
+      id: group.id as string,
+      displayName: group.displayName as string,
+      members: members.slice(0, maxMembers),
+      truncated: members.length > maxMembers,
+    };
+  }
+
+  /**
+   * Room mailboxes in the tenant (requires Place.Read.All).
+   */
+  async listRooms() {
+    return this.getPaged('/places/microsoft.graph.room', { $top: 100 });
   }
 
   async findMeetingTimes(organizerUPN: string, attendees: any[], options: any) {
@@ -93,34 +201,117 @@ export class GraphClient {
     return resp.data;
   }
 
+  /**
+   * Free/busy for any number of attendees: split into MAX_SCHEDULES_PER_REQUEST-sized getSchedule calls sent as
+   * one $batch, with the schedules merged back in order. A chunk that still fails after retries reports each of its
+   * attendees as unreadable, so one bad chunk doesn't sink a large meeting; if every chunk fails, this throws.
+   */
   async getSchedule(organizer: string, attendees: string[], startTime: string, endTime: string) {
-    const headers = await this.withAuthHeaders();
     const url = `/users/${encodeURIComponent(organizer)}/calendar/getSchedule`;
-    const payload = {
-      schedules: attendees,
-      startTime: {
-        dateTime: startTime,
-        timeZone: 'UTC'
-      },
-      endTime: {
-        dateTime: endTime,
-        timeZone: 'UTC'
+    const chunks: string[][] = [];
+    for (let i = 0; i < attendees.length; i += MAX_SCHEDULES_PER_REQUEST) {
+      chunks.push(attendees.slice(i, i + MAX_SCHEDULES_PER_REQUEST));
+    }
+
+    const responses = await this.batch(chunks.map(schedules => ({
+      method: 'POST' as const,
+      url,
+      body: {
+        schedules,
+        startTime: {
+          dateTime: startTime,
+          timeZone: 'UTC'
+        },
+        endTime: {
+          dateTime: endTime,
+          timeZone: 'UTC'
+        },
+        availabilityViewInterval: 60
       },
-      availabilityViewInterval: 60
+    })));
+
+    const failed = responses.filter(r => r.status >= 300);
+    if (failed.length > 0 && failed.length === responses.length) {
+      throw new Error(`Graph getSchedule failed (${failed[0].status}): ${failed[0].body?.error?.message || 'unknown error'}`);
+    }
+    return {
+      value: responses.flatMap((r, i) => r.status < 300
+        ? r.body?.value || []
+        : chunks[i].map(scheduleId => ({ scheduleId, error: { message: r.body?.error?.message || `HTTP ${r.status}`, responseCode: r.body?.error?.code } }))),
     };
+  }
 
-    const res = await this.requestWithRetry(() =>
-      this.client.post(url, payload, { headers })
-    );
-    return res.data;
+  async getCalendarView(userPrincipalName: string, startTime: string, endTime: string, select = 'subject,categories,showAs,start,end,isCancelled') {
+    return this.getPaged(`/users/${encodeURIComponent(userPrincipalName)}/calendarView`, {
+      startDateTime: startTime,
+      endDateTime: endTime,
+      $select: select,
+      $top: 250,
+    });
   }
 
   async createEventForUser(userPrincipalName: string, eventPayload: any) {
-    const headers = await this.withAuthHeaders();
+    const headers = { ...await this.withAuthHeaders(), ...UTC_TIMES };
     const resp = await this.requestWithRetry(() => this.client.post(`/users/${encodeURIComponent(userPrincipalName)}/events`, eventPayload, { headers }));
     return resp.data;
   }
 
+  async getEventForUser(userPrincipalName: string, eventId: string) {
+    const headers = { ...await this.withAuthHeaders(), ...UTC_TIMES };
+    const resp = await this.requestWithRetry(() => this.client.get(`/users/${encodeURIComponent(userPrincipalName)}/events/${encodeURIComponent(eventId)}`, { headers }));
+    return resp.data;
+  }
+
+  async updateEventForUser(userPrincipalName: string, eventId: string, patch: any) {
+    const headers = { ...await this.withAuthHeaders(), ...UTC_TIMES };
+    const resp = await this.requestWithRetry(() => this.client.patch(`/users/${encodeURIComponent(userPrincipalName)}/events/${encodeURIComponent(eventId)}`, patch, { headers }));
+    return resp.data;
+  }
+
+  /**
+   * Cancel a meeting the user organizes; attendees receive a cancellation with the comment.
+   */
+  async cancelEventForUser(userPrincipalName: string, eventId: string, comment?: string) {
+    const headers = await this.withAuthHeaders();
+    await this.requestWithRetry(() => this.client.post(`/users/${encodeURIComponent(userPrincipalName)}/events/${encodeURIComponent(eventId)}/cancel`, { comment }, { headers }));
+  }
+
+  /**
+   * Remove the event from the user's calendar without notifying attendees.
+   */
+  async deleteEventForUser(userPrincipalName: string, eventId: string) {
+    const headers = await this.withAuthHeaders();
+    await this.requestWithRetry(() => this.client.delete(`/users/${encodeURIComponent(userPrincipalName)}/events/${encodeURIComponent(eventId)}`, { headers }));
+  }
+
+  /**
+   * Create a change-notification subscription. Graph validates notificationUrl (and lifecycleNotificationUrl)
+   * with a validationToken request before answering, so the webhook must already be reachable.
+   */
+  async createSubscription(subscription: {
+    changeType: string;
+    resource: string;
+    notificationUrl: string;
+    lifecycleNotificationUrl?: string;
+    expirationDateTime: string;
+    clientState: string;
+  }) {
+    const headers = await this.withAuthHeaders();
+    const resp = await this.requestWithRetry(() => this.client.post('/subscriptions', subscription, { headers }));
+    return resp.data;
+  }
+
+  async renewSubscription(subscriptionId: string, expirationDateTime: string) {
+    const headers = await this.withAuthHeaders();
+    const resp = await this.requestWithRetry(() => this.client.patch(`/subscriptions/${encodeURIComponent(subscriptionId)}`, { expirationDateTime }, { headers }));
+    return resp.data;
+  }
+
+  async deleteSubscription(subscriptionId: string) {
+    const headers = await this.withAuthHeaders();
+    await this.requestWithRetry(() => this.client.delete(`/subscriptions/${encodeURIComponent(subscriptionId)}`, { headers }));
+  }
+
   /**
    * Get the authenticated user's email from Microsoft Graph.
    * This uses the app's credentials to determine the default organizer.
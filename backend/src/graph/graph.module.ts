@@ -1,10 +1,9 @@
 import { Module } from '@nestjs/common';
 import { GraphClient } from './graph.client';
 import { AuthService } from '../auth/auth.service';
-import { UserSyncService } from '../user-sync/user-sync.service';
 
 @Module({
-  providers: [AuthService, GraphClient, UserSyncService],
-  exports: [GraphClient, UserSyncService],
+  providers: [AuthService, GraphClient],
+  exports: [GraphClient],
 })
 export class GraphModule {}
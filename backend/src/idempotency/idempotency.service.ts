@@ -0,0 +1,101 @@
+import { BadRequestException, ConflictException, Inject, Injectable, Logger, UnprocessableEntityException } from '@nestjs/common';
+import { createHash } from 'crypto';
+const logger = new Logger('IdempotencyService');
+
+/**
+ * Stores the outcome of a request under a client-supplied key so a retried request returns the original
+ * response instead of repeating its side effects. Keys are scoped (per organizer) and expire after
+ * IDEMPOTENCY_TTL_HOURS.
+ */
+@Injectable()
+export class IdempotencyService {
+  constructor(@Inject('PRISMA') private prisma: any) { }
+
+  private ttlMs(): number {
+    return parseInt(process.env.IDEMPOTENCY_TTL_HOURS || '24', 10) * 60 * 60 * 1000;
+  }
+
+  // A request that crashed leaves its key pending; after this lease a retry takes the key over
+  private leaseMs(): number {
+    return parseInt(process.env.IDEMPOTENCY_PENDING_LEASE_SECONDS || '120', 10) * 1000;
+  }
+
+  private hashRequest(request: any): string {
+    return createHash('sha256').update(JSON.stringify(request ?? null)).digest('hex');
+  }
+
+  /**
+   * Run `fn` once per (scope, key). A repeat with the same request returns the stored response; a repeat
+   * while the first is still running gets 409, and the key reused for a different request gets 422.
+   * Only results accepted by `shouldStore` are kept; otherwise (and on errors) the key is released for a retry.
+   * A pending key whose lease ran out (its request died without releasing it) is taken over by the retry.
+   */
+  async run<T>(key: string, scope: string, request: any, fn: () => Promise<T>, shouldStore: (result: T) => boolean = () => true): Promise<T> {
+    if (!key.trim() || key.length > 255) {
+      throw new BadRequestException('Idempotency key must be between 1 and 255 characters');
+    }
+    const requestHash = this.hashRequest(request);
+    const scopeKey = scope.toLowerCase();
+    const where = { scope_key: { scope: scopeKey, key } };
+
+    const existing = await this.prisma.idempotencyKey.findUnique({ where });
+    if (existing && existing.expiresAt > new Date()) {
+      if (existing.requestHash !== requestHash) {
+        throw new UnprocessableEntityException('Idempotency key was already used for a different request');
+      }
+      if (existing.status === 'completed') {
+        logger.log(`Replaying stored response for idempotency key ${key}`);
+        return JSON.parse(existing.response);
+      }
+      if (existing.pendingUntil && existing.pendingUntil > new Date()) {
+        throw new ConflictException('A request with this idempotency key is still in progress');
+      }
+      // Only one retry wins the takeover: the lease must still be the one we read
+      const { count } = await this.prisma.idempotencyKey.updateMany({
+        where: { scope: scopeKey, key, status: 'pending', pendingUntil: existing.pendingUntil },
+        data: { pendingUntil: new Date(Date.now() + this.leaseMs()) },
+      });
+      if (count === 0) throw new ConflictException('A request with this idempotency key is still in progress');
+      logger.warn(`Idempotency key ${key} was left pending past its lease; retrying the request`);
+    } else {
+      if (existing) await this.prisma.idempotencyKey.delete({ where });
+
+      // Opportunistic cleanup of expired keys
+      await this.prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+      try {
+        await this.prisma.idempotencyKey.create({
+          data: {
+            key,
+            scope: scopeKey,
+            requestHash,
+            pendingUntil: new Date(Date.now() + this.leaseMs()),
+            expiresAt: new Date(Date.now() + this.ttlMs()),
+          },
+        });
+      } catch (error: any) {
+        // Unique violation: a concurrent request with the same key got there first
+        if (error?.code === 'P2002') throw new ConflictException('A request with this idempotency key is still in progress');
+        throw error;
+      }
+    }
+
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      await this.prisma.idempotencyKey.delete({ where }).catch(() => undefined);
+      throw error;
+    }
+
+    if (shouldStore(result)) {
+      await this.prisma.idempotencyKey.update({
+        where,
+        data: { status: 'completed', pendingUntil: null, response: JSON.stringify(result), meetingId: (result as any)?.meetingId ?? null },
+      });
+    } else {
+      await this.prisma.idempotencyKey.delete({ where });
+    }
+    return result;
+  }
+}
@@ -0,0 +1,80 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+
+const logger = new Logger('BookingLockService');
+
+// Delete the key only if we still own it
+const RELEASE_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+/**
+ * Per-attendee booking locks so two concurrent requests can't check-then-book the same people.
+ * Uses the shared Redis client (REDIS_URL) so locks hold across instances; without it, falls back
+ * to in-process locks, which only protect a single instance.
+ */
+@Injectable()
+export class BookingLockService {
+  private localLocks = new Map<string, { token: string; expiresAt: number }>();
+  private ttlMs: number;
+  private waitMs: number;
+
+  constructor(@Inject('REDIS') private redisClient: Redis | null) {
+    if (!redisClient) logger.warn('REDIS_URL not set: booking locks only protect this instance');
+    this.ttlMs = parseInt(process.env.BOOKING_LOCK_TTL_MS || '30000', 10);
+    this.waitMs = parseInt(process.env.BOOKING_LOCK_WAIT_MS || '10000', 10);
+  }
+
+  private keyFor(email: string): string {
+    return `lock:booking:${email.toLowerCase()}`;
+  }
+
+  private async tryAcquire(key: string, token: string): Promise<boolean> {
+    if (this.redisClient) {
+      return (await this.redisClient.set(key, token, 'PX', this.ttlMs, 'NX')) === 'OK';
+    }
+    const existing = this.localLocks.get(key);
+    if (existing && existing.expiresAt > Date.now()) return false;
+    this.localLocks.set(key, { token, expiresAt: Date.now() + this.ttlMs });
+    return true;
+  }
+
+  private async release(key: string, token: string) {
+    if (this.redisClient) {
+      await this.redisClient.eval(RELEASE_SCRIPT, 1, key, token);
+      return;
+    }
+    if (this.localLocks.get(key)?.token === token) this.localLocks.delete(key);
+  }
+
+  /**
+   * Run `fn` while holding a lock for every address. Locks are taken in sorted order so two requests
+   * for overlapping attendees can't deadlock; if they can't all be taken within the wait time, throws 409.
+   */
+  async withLocks<T>(emails: string[], fn: () => Promise<T>): Promise<T> {
+    const keys = Array.from(new Set(emails.map(e => this.keyFor(e)))).sort();
+    const token = randomUUID();
+    const held: string[] = [];
+    const deadline = Date.now() + this.waitMs;
+
+    try {
+      for (const key of keys) {
+        while (!(await this.tryAcquire(key, token))) {
+          if (Date.now() > deadline) {
+            throw new ConflictException(`Another booking for ${key.replace('lock:booking:', '')} is in progress; try again`);
+          }
+          await new Promise(r => setTimeout(r, 100 + Math.random() * 100));
+        }
+        held.push(key);
+      }
+      return await fn();
+    } finally {
+      for (const key of held.reverse()) {
+        try {
+          await this.release(key, token);
+        } catch (error: any) {
+          logger.warn(`Failed to release ${key}: ${error?.message || error}`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { BookingLockService } from './booking-lock.service';
+
+@Module({
+  providers: [BookingLockService],
+  exports: [BookingLockService],
+})
+export class LockingModule { }
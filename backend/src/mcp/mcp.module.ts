@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { McpService } from './mcp.service';
 import { McpController } from './mcp.controller';
 import { SchedulingModule } from '../scheduling/scheduling.module';
+import { SchedulingAgentModule } from '../scheduling-agent/scheduling-agent.module';
 
 @Module({
-    imports: [SchedulingModule],
+    imports: [SchedulingModule, SchedulingAgentModule],
     controllers: [McpController],
     providers: [McpService],
 })
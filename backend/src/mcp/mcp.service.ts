@@ -4,6 +4,7 @@ import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 // Import Zod v3 from the SDK's bundled version to ensure compatibility
 import * as z3 from 'zod/v3';
 import { SchedulingService } from '../scheduling/scheduling.service';
+import { SchedulingAgentService } from '../scheduling-agent/scheduling-agent.service';
 import { Request, Response } from 'express';
 
 @Injectable()
@@ -11,7 +12,7 @@ export class McpService implements OnModuleInit {
     private server: McpServer;
     private transport: SSEServerTransport | null = null;
 
-    constructor(private schedulingService: SchedulingService) {
+    constructor(private schedulingService: SchedulingService, private schedulingAgent: SchedulingAgentService) {
         this.server = new McpServer({
             name: 'Meeting Scheduler MCP',
             version: '1.0.0',
@@ -26,9 +27,30 @@ export class McpService implements OnModuleInit {
         // Define schemas using Zod v3 (bundled with the SDK) for compatibility
         const meetingParamsSchema = z3.object({
             organizer: z3.string().email().describe('Email address of the meeting organizer'),
-            attendees: z3.array(z3.string().email()).describe('Array of attendee email addresses'),
+            attendees: z3.array(z3.string().email()).describe('Array of required attendee email addresses'),
+            optionalAttendees: z3.array(z3.string().email()).optional().describe('Optional attendees: invited, but their availability does not constrain the slot'),
             start: z3.string().datetime().describe('Start of the time window (ISO 8601 datetime)'),
             end: z3.string().datetime().describe('End of the time window (ISO 8601 datetime)'),
+            durationMinutes: z3.number().int().positive().optional().describe('Meeting length in minutes (default 60)'),
+            meetingType: z3.string().optional().describe('Meeting type for buffer rules, e.g. "one-on-one", "interview", "external"'),
+            recurrence: z3.object({
+                pattern: z3.enum(['daily', 'weekly', 'monthly', 'yearly']),
+                interval: z3.number().int().positive().optional().describe('Repeat every N days/weeks/months/years'),
+                daysOfWeek: z3.array(z3.string()).optional().describe('Weekly only, e.g. ["tuesday"]'),
+                endDate: z3.string().optional().describe('Last date of the series (YYYY-MM-DD)'),
+                occurrences: z3.number().int().positive().optional().describe('Number of occurrences (alternative to endDate)'),
+            }).optional().describe('Make this a recurring meeting; every occurrence is checked for conflicts'),
+            room: z3.object({
+                email: z3.string().email().optional().describe('Book this exact room'),
+                capacity: z3.number().int().positive().optional().describe('Minimum number of people the room must hold'),
+                building: z3.string().optional(),
+                equipment: z3.array(z3.string()).optional().describe('e.g. ["video", "display"]'),
+            }).optional().describe('Also book a free meeting room matching these requirements'),
+            createIfFree: z3.boolean().optional().describe('schedule_meeting only: re-check availability and refuse to book if a required attendee is busy'),
+            isOnlineMeeting: z3.boolean().optional().describe('schedule_meeting only: add a Teams link (defaults to the organization setting)'),
+            description: z3.string().optional().describe('schedule_meeting only: agenda or notes for the invite, in markdown'),
+            location: z3.string().optional().describe('schedule_meeting only: free-text location, e.g. an address'),
+            idempotencyKey: z3.string().max(255).optional().describe('schedule_meeting only: unique key per booking; retrying with the same key returns the original result instead of creating a second event'),
         });
 
         this.server.registerTool(
@@ -38,7 +60,7 @@ export class McpService implements OnModuleInit {
                 inputSchema: meetingParamsSchema as any,
             },
             async (args: any) => {
-                const result = await this.schedulingService.suggestSlots(args);
+                const result = await this.schedulingService.suggestSlots(this.toAttendeeArgs(args));
                 return {
                     content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
                 };
@@ -52,12 +74,41 @@ export class McpService implements OnModuleInit {
                 inputSchema: meetingParamsSchema as any,
             },
             async (args: any) => {
-                const result = await this.schedulingService.scheduleMeeting(args);
+                const result = await this.schedulingService.scheduleMeeting(this.toAttendeeArgs(args));
                 return {
                     content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
                 };
             },
         );
+
+        this.server.registerTool(
+            'plan_meeting',
+            {
+                description: 'Work out a meeting from a free-form request (e.g. "an hour with the design leads before the sprint review, avoiding Fridays"): looks up people, reads calendars and searches slots, then proposes a time and attendees to book with schedule_meeting. Nothing is booked.',
+                inputSchema: z3.object({
+                    request: z3.string().min(1).describe('What to schedule, in plain language'),
+                    organizer: z3.string().email().optional().describe('Email address of the meeting organizer'),
+                    maxSteps: z3.number().int().positive().optional().describe('Rounds of tool calls the agent may use (capped by the server)'),
+                }) as any,
+            },
+            async (args: any) => {
+                const result = await this.schedulingAgent.plan(args);
+                return {
+                    content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }],
+                };
+            },
+        );
+    }
+
+    private toAttendeeArgs(args: any) {
+        const { optionalAttendees = [], ...rest } = args;
+        return {
+            ...rest,
+            attendees: [
+                ...args.attendees.map((address: string) => ({ emailAddress: { address }, type: 'Required' })),
+                ...optionalAttendees.map((address: string) => ({ emailAddress: { address }, type: 'Optional' })),
+            ],
+        };
     }
 
     async handleSSE(req: Request, res: Response) {
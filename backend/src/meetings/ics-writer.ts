@@ -0,0 +1,240 @@
+import { RecurrenceDTO } from '../scheduling/types';
+import { addDaysToDateString, dayOfWeek, getTimeZoneOffsetMinutes, getZonedParts, toLocalDateString, zonedTimeToUtc } from '../policy/timezone';
+
+/**
+ * iCalendar (RFC 5545 / iTIP RFC 5546) invite writer, for mail systems that don't cope with Outlook's own invites.
+ */
+
+export interface IcsAttendee {
+  email: string;
+  name?: string;
+  role: 'REQ-PARTICIPANT' | 'OPT-PARTICIPANT' | 'NON-PARTICIPANT';
+  cutype: 'INDIVIDUAL' | 'ROOM';
+  partstat: 'NEEDS-ACTION' | 'ACCEPTED' | 'DECLINED' | 'TENTATIVE';
+}
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  method?: 'REQUEST' | 'CANCEL'; // omitted for a calendar object stored on a CalDAV server (RFC 4791 forbids METHOD there)
+  subject: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  start: Date;
+  end: Date;
+  organizer: { email: string; name?: string };
+  attendees: IcsAttendee[];
+  recurrence?: RecurrenceDTO;
+  timeZone?: string;      // required with recurrence: the series keeps its wall-clock time in this zone
+  lastModified?: Date;
+  tentative?: boolean;    // STATUS:TENTATIVE, e.g. a hold
+}
+
+const PRODID = '-//Agentic Scheduler//Meeting Scheduler//EN';
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+export function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Parameter values with separators must be quoted; quotes themselves aren't allowed
+function paramValue(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+export function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+export function formatLocal(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/**
+ * Fold content lines at 75 octets (continuation lines start with a space), never splitting a UTF-8 character
+ */
+export function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * VTIMEZONE for an IANA zone covering the given years, built from the runtime tz database:
+ * one observance per actual offset change, so it's exact for those years without RRULE guesswork.
+ */
+export function buildVtimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  const rangeStart = Date.UTC(fromYear, 0, 1);
+  const initialOffset = getTimeZoneOffsetMinutes(new Date(rangeStart), timeZone);
+  const observance = (type: 'STANDARD' | 'DAYLIGHT', start: string, from: number, to: number) => lines.push(
+    `BEGIN:${type}`, `DTSTART:${start}`, `TZOFFSETFROM:${formatOffset(from)}`, `TZOFFSETTO:${formatOffset(to)}`, `END:${type}`,
+  );
+  observance('STANDARD', `${fromYear}0101T000000`, initialOffset, initialOffset);
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  let previous = initialOffset;
+  for (let t = rangeStart + dayMs; t <= Date.UTC(toYear, 11, 31); t += dayMs) {
+    const offset = getTimeZoneOffsetMinutes(new Date(t), timeZone);
+    if (offset === previous) continue;
+    // Narrow the change down to the minute
+    let lo = t - dayMs;
+    let hi = t;
+    while (hi - lo > 60000) {
+      const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+      if (getTimeZoneOffsetMinutes(new Date(mid), timeZone) === previous) lo = mid; else hi = mid;
+    }
+    // DTSTART is the wall-clock time of the change in the offset in effect before it
+    const local = new Date(hi + previous * 60000);
+    const start = formatUtc(local).slice(0, -1);
+    observance(offset > previous ? 'DAYLIGHT' : 'STANDARD', start, previous, offset);
+    previous = offset;
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * RRULE for a series whose first occurrence starts at `start` (local to `timeZone`), matching toGraphRecurrence
+ */
+export function buildRrule(recurrence: RecurrenceDTO, start: Date, timeZone: string): string {
+  const parts = [`FREQ=${recurrence.pattern.toUpperCase()}`, `INTERVAL=${recurrence.interval || 1}`];
+  if (recurrence.pattern === 'weekly') {
+    const days = recurrence.daysOfWeek?.length
+      ? recurrence.daysOfWeek.map(d => WEEKDAY_NAMES.indexOf(d.toLowerCase())).filter(d => d >= 0)
+      : [dayOfWeek(toLocalDateString(start, timeZone))];
+    parts.push(`BYDAY=${days.map(d => WEEKDAY_CODES[d]).join(',')}`, 'WKST=SU');
+  } else if (recurrence.pattern === 'monthly') {
+    parts.push(`BYMONTHDAY=${getZonedParts(start, timeZone).day}`);
+  } else if (recurrence.pattern === 'yearly') {
+    const { month, day } = getZonedParts(start, timeZone);
+    parts.push(`BYMONTH=${month}`, `BYMONTHDAY=${day}`);
+  }
+  if (recurrence.occurrences) {
+    parts.push(`COUNT=${recurrence.occurrences}`);
+  } else if (recurrence.endDate) {
+    // endDate is inclusive in local time; UNTIL must be UTC when DTSTART has a TZID
+    const until = new Date(zonedTimeToUtc(addDaysToDateString(recurrence.endDate, 1), '00:00', timeZone).getTime() - 1000);
+    parts.push(`UNTIL=${formatUtc(until)}`);
+  }
+  return `RRULE:${parts.join(';')}`;
+}
+
+export function attendeeLine(a: IcsAttendee, rsvp: boolean): string {
+  const name = a.name ? `;CN=${paramValue(a.name)}` : '';
+  const rsvpParam = rsvp && a.role !== 'NON-PARTICIPANT' ? ';RSVP=TRUE' : '';
+  return `ATTENDEE;CUTYPE=${a.cutype};ROLE=${a.role};PARTSTAT=${a.partstat}${rsvpParam}${name}:mailto:${a.email}`;
+}
+
+export function buildIcs(event: IcsEvent): string {
+  const series = event.recurrence && event.timeZone ? { recurrence: event.recurrence, timeZone: event.timeZone } : null;
+  const lines = ['BEGIN:VCALENDAR', `PRODID:${PRODID}`, 'VERSION:2.0', 'CALSCALE:GREGORIAN'];
+  if (event.method) lines.push(`METHOD:${event.method}`);
+
+  if (series) {
+    const startYear = getZonedParts(event.start, series.timeZone).year;
+    const endYear = series.recurrence.endDate ? parseInt(series.recurrence.endDate.slice(0, 4), 10) : startYear + 2;
+    lines.push(...buildVtimezone(series.timeZone, startYear, Math.max(startYear, Math.min(endYear, startYear + 5))));
+  }
+
+  lines.push(
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+  );
+  if (series) {
+    lines.push(
+      `DTSTART;TZID=${series.timeZone}:${formatLocal(event.start, series.timeZone)}`,
+      `DTEND;TZID=${series.timeZone}:${formatLocal(event.end, series.timeZone)}`,
+      buildRrule(series.recurrence, event.start, series.timeZone),
+    );
+  } else {
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`);
+  }
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+
+  lines.push(`SUMMARY:${escapeText(event.subject)}`);
+  const description = [event.description, event.url ? `Join: ${event.url}` : undefined].filter(Boolean).join('\n\n');
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+
+  const organizerName = event.organizer.name ? `;CN=${paramValue(event.organizer.name)}` : '';
+  lines.push(`ORGANIZER${organizerName}:mailto:${event.organizer.email}`);
+  lines.push(...event.attendees.map(a => attendeeLine(a, event.method !== 'CANCEL')));
+
+  const status = event.method === 'CANCEL' ? 'CANCELLED' : event.tentative ? 'TENTATIVE' : 'CONFIRMED';
+  lines.push(`STATUS:${status}`, 'TRANSP:OPAQUE', 'END:VEVENT', 'END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+const PARTSTAT: Record<string, IcsAttendee['partstat']> = {
+  accepted: 'ACCEPTED',
+  organizer: 'ACCEPTED',
+  declined: 'DECLINED',
+  tentativelyaccepted: 'TENTATIVE',
+};
+
+/**
+ * Attendee as stored or returned by a calendar provider (type required/optional/resource, Graph response vocabulary)
+ */
+export function toIcsAttendee(a: { email: string; name?: string | null; type: string; responseStatus?: string | null }): IcsAttendee {
+  return {
+    email: a.email,
+    name: a.name ?? undefined,
+    role: a.type === 'optional' ? 'OPT-PARTICIPANT' : a.type === 'resource' ? 'NON-PARTICIPANT' : 'REQ-PARTICIPANT',
+    cutype: a.type === 'resource' ? 'ROOM' : 'INDIVIDUAL',
+    partstat: PARTSTAT[(a.responseStatus || '').toLowerCase()] ?? 'NEEDS-ACTION',
+  };
+}
+
+/**
+ * Invite for a stored meeting (as returned by MeetingStoreService.getMeeting): REQUEST while it's on, CANCEL once cancelled
+ */
+export function meetingToIcsEvent(meeting: any, recurrence?: RecurrenceDTO): IcsEvent {
+  const organizerEmail = meeting.organizer.email.toLowerCase();
+  return {
+    uid: meeting.iCalUId || `meeting-${meeting.id}@agentic-scheduler`,
+    sequence: meeting.sequence ?? 0,
+    method: meeting.status === 'cancelled' ? 'CANCEL' : 'REQUEST',
+    subject: meeting.subject,
+    description: meeting.description ?? undefined,
+    location: meeting.location ?? undefined,
+    url: meeting.onlineMeetingUrl ?? undefined,
+    start: meeting.start,
+    end: meeting.end,
+    organizer: { email: organizerEmail, name: meeting.organizer.displayName ?? undefined },
+    attendees: (meeting.attendees || [])
+      .filter((a: any) => a.email.toLowerCase() !== organizerEmail)
+      .map(toIcsAttendee),
+    recurrence,
+    timeZone: meeting.series?.timeZone,
+    lastModified: meeting.history?.length ? meeting.history[meeting.history.length - 1].createdAt : undefined,
+  };
+}
@@ -0,0 +1,173 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AttendeeRecord, MeetingAction, NewMeetingRecord } from './types';
+import { CalendarEvent } from '../calendar-providers/types';
+const logger = new Logger('MeetingStoreService');
+
+/**
+ * Persistence for meetings booked through the API: the Meeting row, its attendees and an append-only history.
+ * Every write path (schedule, reschedule, update, cancel) goes through here so the history stays complete.
+ */
+@Injectable()
+export class MeetingStoreService {
+  constructor(@Inject('PRISMA') private prisma: any) { }
+
+  /**
+   * Denormalized fields we keep from the provider's event
+   */
+  private eventFields(event?: CalendarEvent) {
+    return {
+      graphEventId: event?.id ?? undefined,
+      iCalUId: event?.iCalUId ?? undefined,
+      onlineMeetingUrl: event?.onlineMeetingUrl || undefined,
+      location: event?.location || undefined,
+    };
+  }
+
+  private attendeeRows(attendees: AttendeeRecord[]) {
+    // One row per address; a later duplicate (e.g. organizer listed twice) is ignored
+    const seen = new Set<string>();
+    return attendees
+      .filter(a => {
+        const key = a.email.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map(a => ({
+        email: a.email.toLowerCase(),
+        name: a.name ?? null,
+        type: a.type,
+        isInternal: a.isInternal,
+        responseStatus: a.responseStatus || 'none',
+        respondedAt: a.respondedAt ?? null,
+      }));
+  }
+
+  private historyEntry(action: MeetingAction, actor?: string, details?: any) {
+    return { action, actor: actor ?? null, details: details ? JSON.stringify(details) : null };
+  }
+
+  async recordCreated(record: NewMeetingRecord) {
+    const meeting = await this.prisma.meeting.create({
+      data: {
+        subject: record.subject,
+        start: record.start,
+        end: record.end,
+        organizerId: record.organizerId,
+        seriesId: record.seriesId ?? null,
+        description: record.description ?? null,
+        ...this.eventFields(record.event),
+        calendarProvider: record.event.provider,
+        status: 'scheduled',
+        attendees: { create: this.attendeeRows(record.attendees) },
+        history: { create: [this.historyEntry('created', record.actor, { start: record.start, end: record.end })] },
+      },
+    });
+    logger.log(`Stored meeting ${meeting.id} with ${record.attendees.length} attendee(s)`);
+    return meeting;
+  }
+
+  async recordRescheduled(id: number, previous: { start: Date; end: Date }, next: { start: Date; end: Date }, actor?: string, details?: any) {
+    return this.prisma.meeting.update({
+      where: { id },
+      data: {
+        start: next.start,
+        end: next.end,
+        status: 'rescheduled',
+        sequence: { increment: 1 },
+        history: { create: [this.historyEntry('rescheduled', actor, { from: previous, to: next, ...details })] },
+      },
+    });
+  }
+
+  /**
+   * Record an update; when `attendees` is given the stored list is replaced by it.
+   */
+  async recordUpdated(id: number, changes: { subject?: string }, attendees: AttendeeRecord[] | undefined, event: CalendarEvent, actor?: string) {
+    const writes: any[] = [];
+    if (attendees) {
+      writes.push(this.prisma.meetingAttendee.deleteMany({ where: { meetingId: id } }));
+    }
+    writes.push(this.prisma.meeting.update({
+      where: { id },
+      data: {
+        ...(changes.subject ? { subject: changes.subject } : {}),
+        ...this.eventFields(event),
+        ...(attendees ? { attendees: { create: this.attendeeRows(attendees) } } : {}),
+        sequence: { increment: 1 },
+        history: {
+          create: [this.historyEntry('updated', actor, {
+            ...changes,
+            attendees: attendees?.map(a => a.email),
+          })],
+        },
+      },
+    }));
+    const results = await this.prisma.$transaction(writes);
+    return results[results.length - 1];
+  }
+
+  async recordCancelled(id: number, actor?: string, details?: any) {
+    return this.prisma.meeting.update({
+      where: { id },
+      data: {
+        status: 'cancelled',
+        sequence: { increment: 1 },
+        history: { create: [this.historyEntry('cancelled', actor, details)] },
+      },
+    });
+  }
+
+  /**
+   * Store attendee responses read from the calendar. Not part of the history: attendees respond in their own
+   * calendar app, not through the API.
+   */
+  async recordResponses(id: number, responses: { email: string; responseStatus: string; respondedAt: Date }[]) {
+    await this.prisma.$transaction([
+      ...responses.map(r => this.prisma.meetingAttendee.updateMany({
+        where: { meetingId: id, email: r.email.toLowerCase() },
+        data: { responseStatus: r.responseStatus, respondedAt: r.respondedAt },
+      })),
+      this.prisma.meeting.update({ where: { id }, data: { rsvpSyncedAt: new Date() } }),
+    ]);
+  }
+
+  /**
+   * Record that required attendees declined and how the organization's policy reacted
+   */
+  async recordDeclined(id: number, attendees: string[], details: any) {
+    return this.prisma.meetingHistory.create({ data: { meetingId: id, ...this.historyEntry('declined', undefined, { attendees, ...details }) } });
+  }
+
+  async getMeeting(id: number) {
+    const meeting = await this.prisma.meeting.findUnique({
+      where: { id },
+      include: {
+        organizer: true,
+        series: true,
+        attendees: { orderBy: { id: 'asc' } },
+        history: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+    if (!meeting) return null;
+    return {
+      ...meeting,
+      history: meeting.history.map((h: any) => ({ ...h, details: h.details ? JSON.parse(h.details) : null })),
+    };
+  }
+
+  /**
+   * Meetings organized by the given user, most recent first
+   */
+  async listMeetings(organizerEmail: string, options: { status?: string; take?: number } = {}) {
+    return this.prisma.meeting.findMany({
+      where: {
+        organizer: { email: organizerEmail },
+        ...(options.status ? { status: options.status } : {}),
+      },
+      include: { attendees: true },
+      orderBy: { start: 'desc' },
+      take: options.take || 50,
+    });
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { MeetingStoreService } from './meeting-store.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [MeetingStoreService],
+  exports: [MeetingStoreService],
+})
+export class MeetingsModule { }
@@ -0,0 +1,25 @@
+import { CalendarEvent } from '../calendar-providers/types';
+
+export type MeetingStatus = 'scheduled' | 'rescheduled' | 'cancelled';
+export type MeetingAction = 'created' | 'rescheduled' | 'updated' | 'cancelled' | 'declined';
+
+export interface AttendeeRecord {
+  email: string;
+  name?: string;
+  type: 'required' | 'optional' | 'resource';
+  isInternal: boolean;
+  responseStatus?: string;   // Graph vocabulary (other providers map onto it)
+  respondedAt?: Date;
+}
+
+export interface NewMeetingRecord {
+  subject: string;
+  start: Date;
+  end: Date;
+  organizerId: number;
+  seriesId?: number | null;
+  description?: string;       // agenda markdown
+  event: CalendarEvent;       // event created in the organizer's calendar
+  attendees: AttendeeRecord[];
+  actor?: string;
+}
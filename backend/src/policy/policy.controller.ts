@@ -0,0 +1,80 @@
+import { Body, Controller, ForbiddenException, Get, Param, Put, Query, Request, UseGuards } from '@nestjs/common';
+import { PolicyService } from './policy.service';
+import { BufferPolicyUpdateDTO, MeetingDefaultsPolicyUpdateDTO, WorkingHoursPolicyUpdateDTO } from './types';
+import { toLocalDateString } from './timezone';
+import { OptionalAzureADGuard } from '../auth/optional-azure-ad.guard';
+import { SignedInGuard } from '../auth/signed-in.guard';
+import { AdminGuard, isAdmin } from '../auth/admin.guard';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+
+@Controller('policy')
+export class PolicyController {
+  constructor(private policy: PolicyService, private providers: CalendarProvidersService) { }
+
+  @Get('working-hours')
+  @UseGuards(OptionalAzureADGuard)
+  async getWorkingHours(@Query('email') email: string, @Request() req: any) {
+    const userEmail = req.user?.email || email || await this.providers.defaultOrganizer();
+    return this.policy.getPolicyForUser(userEmail);
+  }
+
+  @Get('working-hours/window')
+  @UseGuards(OptionalAzureADGuard)
+  async getWorkingWindow(@Query('date') date: string, @Query('email') email: string, @Request() req: any) {
+    const userEmail = req.user?.email || email || await this.providers.defaultOrganizer();
+    const policy = await this.policy.getPolicyForUser(userEmail);
+    return this.policy.describeWorkingWindow(policy, date || toLocalDateString(new Date(), policy.timeZone));
+  }
+
+  @Get('buffers')
+  @UseGuards(OptionalAzureADGuard)
+  async getBuffers(@Query('email') email: string, @Request() req: any) {
+    const userEmail = req.user?.email || email || await this.providers.defaultOrganizer();
+    return this.policy.getBufferPolicyForUser(userEmail);
+  }
+
+  @Get('meeting-defaults')
+  @UseGuards(OptionalAzureADGuard)
+  async getMeetingDefaults(@Query('email') email: string, @Request() req: any) {
+    const userEmail = req.user?.email || email || await this.providers.defaultOrganizer();
+    return this.policy.getMeetingDefaults(userEmail);
+  }
+
+  @Get('meeting-types')
+  getMeetingTypes() {
+    return this.policy.getMeetingTypes();
+  }
+
+  @Put('users/:email/buffers')
+  @UseGuards(SignedInGuard)
+  async setUserBuffers(@Param('email') email: string, @Body() dto: BufferPolicyUpdateDTO, @Request() req: any) {
+    this.checkCanEdit(email, req.user.email);
+    return this.policy.setUserBuffers(email, dto);
+  }
+
+  @Put('users/:email')
+  @UseGuards(SignedInGuard)
+  async setUserOverride(@Param('email') email: string, @Body() dto: WorkingHoursPolicyUpdateDTO, @Request() req: any) {
+    this.checkCanEdit(email, req.user.email);
+    return this.policy.setUserOverride(email, dto);
+  }
+
+  @Put('organizations/:domain/meeting-defaults')
+  @UseGuards(AdminGuard)
+  async setOrganizationMeetingDefaults(@Param('domain') domain: string, @Body() dto: MeetingDefaultsPolicyUpdateDTO) {
+    return this.policy.setOrganizationMeetingDefaults(domain, dto);
+  }
+
+  @Put('organizations/:domain')
+  @UseGuards(AdminGuard)
+  async setOrganizationDefaults(@Param('domain') domain: string, @Body() dto: WorkingHoursPolicyUpdateDTO) {
+    return this.policy.setOrganizationDefaults(domain, dto);
+  }
+
+  // Users change their own policy; admins anyone's
+  private checkCanEdit(email: string, requester: string) {
+    if (email.toLowerCase() !== requester.toLowerCase() && !isAdmin(requester)) {
+      throw new ForbiddenException('You can only change your own policy');
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PolicyService } from './policy.service';
+import { PolicyController } from './policy.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+
+@Module({
+  imports: [PrismaModule, CalendarProvidersModule],
+  controllers: [PolicyController],
+  providers: [PolicyService],
+  exports: [PolicyService],
+})
+export class PolicyModule { }
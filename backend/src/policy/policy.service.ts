@@ -0,0 +1,254 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { UserSyncService } from '../user-sync/user-sync.service';
+import { BufferPolicy, BufferPolicyUpdateDTO, DECLINE_REACTIONS, DeclineReaction, MeetingDefaultsPolicy, MeetingDefaultsPolicyUpdateDTO, WorkingHoursPolicy, WorkingHoursPolicyUpdateDTO, WorkingWindow } from './types';
+import { isValidTimeZone } from './timezone';
+import { getWorkingWindow, isWithinWorkingHours } from './working-hours';
+const logger = new Logger('PolicyService');
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Built-in buffers per meeting type; MEETING_TYPE_BUFFERS (JSON) can override or add types
+const MEETING_TYPE_BUFFERS: Record<string, Pick<BufferPolicy, 'bufferBeforeMinutes' | 'bufferAfterMinutes'>> = {
+  'one-on-one': { bufferBeforeMinutes: 0, bufferAfterMinutes: 5 },
+  interview: { bufferBeforeMinutes: 10, bufferAfterMinutes: 15 },
+  external: { bufferBeforeMinutes: 10, bufferAfterMinutes: 10 },
+  workshop: { bufferBeforeMinutes: 15, bufferAfterMinutes: 15 },
+};
+
+/**
+ * Resolves working-hours policy for users.
+ * Precedence: per-user override (User row) > per-organization default (OrganizationPolicy row, keyed by email domain) > env defaults.
+ * For the timezone, the user's synced mailbox timezone comes between the override and the organization default.
+ */
+@Injectable()
+export class PolicyService {
+  constructor(
+    @Inject('PRISMA') private prisma: any,
+    private userSync: UserSyncService,
+  ) { }
+
+  getDefaultPolicy(): WorkingHoursPolicy {
+    return {
+      timeZone: process.env.ORG_TIMEZONE || 'Asia/Kolkata',
+      workDayStart: process.env.ORG_WORK_DAY_START || '09:00',
+      workDayEnd: process.env.ORG_WORK_DAY_END || '18:00',
+      workDays: this.parseWorkDays(process.env.ORG_WORK_DAYS) ?? [0, 1, 2, 3, 4, 5, 6],
+    };
+  }
+
+  async getOrganizationPolicy(domain: string): Promise<WorkingHoursPolicy> {
+    const defaults = this.getDefaultPolicy();
+    const org = await this.prisma.organizationPolicy.findUnique({ where: { domain: domain.toLowerCase() } });
+    return this.merge(defaults, org);
+  }
+
+  async getPolicyForUser(email: string): Promise<WorkingHoursPolicy> {
+    const domain = email.split('@')[1] || '';
+    const orgPolicy = await this.getOrganizationPolicy(domain);
+    // A user removed from the directory gets the organization's policy, not their old override
+    const user = await this.prisma.user.findFirst({ where: { email, deletedAt: null } });
+    return this.merge(orgPolicy, user);
+  }
+
+  async getPoliciesForUsers(emails: string[]): Promise<Record<string, WorkingHoursPolicy>> {
+    const result: Record<string, WorkingHoursPolicy> = {};
+    for (const email of emails) {
+      result[email] = await this.getPolicyForUser(email);
+    }
+    return result;
+  }
+
+  async setUserOverride(email: string, dto: WorkingHoursPolicyUpdateDTO) {
+    const data = this.toRecord(dto);
+    const user = await this.userSync.ensureUserInPrisma(this.prisma, email);
+    if (!user) throw new BadRequestException(`Unknown user: ${email}`);
+    await this.prisma.user.update({ where: { id: user.id }, data });
+    logger.log(`Updated working-hours override for ${email}`);
+    return this.getPolicyForUser(email);
+  }
+
+  async setOrganizationDefaults(domain: string, dto: WorkingHoursPolicyUpdateDTO) {
+    const data = this.toRecord(dto);
+    const key = domain.toLowerCase();
+    await this.prisma.organizationPolicy.upsert({
+      where: { domain: key },
+      update: data,
+      create: { domain: key, ...data },
+    });
+    logger.log(`Updated organization working-hours defaults for ${key}`);
+    return this.getOrganizationPolicy(key);
+  }
+
+  getDefaultBufferPolicy(): BufferPolicy {
+    return {
+      bufferBeforeMinutes: parseInt(process.env.DEFAULT_BUFFER_BEFORE_MINUTES || '0', 10),
+      bufferAfterMinutes: parseInt(process.env.DEFAULT_BUFFER_AFTER_MINUTES || '0', 10),
+      travelMinutes: parseInt(process.env.DEFAULT_TRAVEL_MINUTES || '0', 10),
+    };
+  }
+
+  getMeetingTypes(): Record<string, Pick<BufferPolicy, 'bufferBeforeMinutes' | 'bufferAfterMinutes'>> {
+    let overrides = {};
+    if (process.env.MEETING_TYPE_BUFFERS) {
+      try {
+        overrides = JSON.parse(process.env.MEETING_TYPE_BUFFERS);
+      } catch (error) {
+        logger.warn('Ignoring MEETING_TYPE_BUFFERS: not valid JSON');
+      }
+    }
+    return { ...MEETING_TYPE_BUFFERS, ...overrides };
+  }
+
+  async getBufferPolicyForUser(email: string): Promise<BufferPolicy> {
+    const defaults = this.getDefaultBufferPolicy();
+    const user = await this.prisma.user.findFirst({ where: { email, deletedAt: null } });
+    return {
+      bufferBeforeMinutes: user?.bufferBeforeMinutes ?? defaults.bufferBeforeMinutes,
+      bufferAfterMinutes: user?.bufferAfterMinutes ?? defaults.bufferAfterMinutes,
+      travelMinutes: user?.travelMinutes ?? defaults.travelMinutes,
+    };
+  }
+
+  /**
+   * Effective buffers per attendee (keyed by the emails as passed in) for a meeting of the given type:
+   * the larger of the attendee's own buffer and the meeting type's.
+   */
+  async getBufferPoliciesForUsers(emails: string[], meetingType?: string): Promise<Record<string, BufferPolicy>> {
+    let typeBuffers = { bufferBeforeMinutes: 0, bufferAfterMinutes: 0 };
+    if (meetingType) {
+      const types = this.getMeetingTypes();
+      if (!types[meetingType]) {
+        throw new BadRequestException(`Unknown meeting type: ${meetingType}. Known types: ${Object.keys(types).join(', ')}`);
+      }
+      typeBuffers = types[meetingType];
+    }
+
+    const result: Record<string, BufferPolicy> = {};
+    for (const email of emails) {
+      const own = await this.getBufferPolicyForUser(email);
+      result[email] = {
+        bufferBeforeMinutes: Math.max(own.bufferBeforeMinutes, typeBuffers.bufferBeforeMinutes || 0),
+        bufferAfterMinutes: Math.max(own.bufferAfterMinutes, typeBuffers.bufferAfterMinutes || 0),
+        travelMinutes: own.travelMinutes,
+      };
+    }
+    return result;
+  }
+
+  async setUserBuffers(email: string, dto: BufferPolicyUpdateDTO) {
+    for (const field of ['bufferBeforeMinutes', 'bufferAfterMinutes', 'travelMinutes'] as const) {
+      const value = dto[field];
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 0 || value > 240)) {
+        throw new BadRequestException(`${field} must be an integer between 0 and 240`);
+      }
+    }
+    const user = await this.userSync.ensureUserInPrisma(this.prisma, email);
+    if (!user) throw new BadRequestException(`Unknown user: ${email}`);
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: {
+        bufferBeforeMinutes: dto.bufferBeforeMinutes,
+        bufferAfterMinutes: dto.bufferAfterMinutes,
+        travelMinutes: dto.travelMinutes,
+      },
+    });
+    logger.log(`Updated meeting buffers for ${email}`);
+    return this.getBufferPolicyForUser(email);
+  }
+
+  /**
+   * Meeting defaults for the organization a user belongs to (keyed by email domain), falling back to env defaults
+   */
+  async getMeetingDefaults(email: string): Promise<MeetingDefaultsPolicy> {
+    return this.getOrganizationMeetingDefaults(email.split('@')[1] || '');
+  }
+
+  async getOrganizationMeetingDefaults(domain: string): Promise<MeetingDefaultsPolicy> {
+    const org = await this.prisma.organizationPolicy.findUnique({ where: { domain: domain.toLowerCase() } });
+    return {
+      onlineMeetingsByDefault: org?.onlineMeetingsByDefault ?? process.env.DEFAULT_ONLINE_MEETINGS === 'true',
+      onRequiredDecline: this.declineReaction(org?.onRequiredDecline || process.env.DEFAULT_ON_REQUIRED_DECLINE),
+    };
+  }
+
+  private declineReaction(value?: string | null): DeclineReaction {
+    return DECLINE_REACTIONS.includes(value as DeclineReaction) ? value as DeclineReaction : 'none';
+  }
+
+  async setOrganizationMeetingDefaults(domain: string, dto: MeetingDefaultsPolicyUpdateDTO) {
+    if (dto.onlineMeetingsByDefault !== undefined && dto.onlineMeetingsByDefault !== null && typeof dto.onlineMeetingsByDefault !== 'boolean') {
+      throw new BadRequestException('onlineMeetingsByDefault must be a boolean');
+    }
+    if (dto.onRequiredDecline !== undefined && dto.onRequiredDecline !== null && !DECLINE_REACTIONS.includes(dto.onRequiredDecline)) {
+      throw new BadRequestException(`onRequiredDecline must be one of ${DECLINE_REACTIONS.join(', ')}`);
+    }
+    const key = domain.toLowerCase();
+    const data = { onlineMeetingsByDefault: dto.onlineMeetingsByDefault, onRequiredDecline: dto.onRequiredDecline };
+    await this.prisma.organizationPolicy.upsert({
+      where: { domain: key },
+      update: data,
+      create: { domain: key, ...data },
+    });
+    logger.log(`Updated organization meeting defaults for ${key}`);
+    return this.getOrganizationMeetingDefaults(key);
+  }
+
+  getWorkingWindow(policy: WorkingHoursPolicy, localDate: string) {
+    return getWorkingWindow(policy, localDate);
+  }
+
+  describeWorkingWindow(policy: WorkingHoursPolicy, localDate: string): WorkingWindow {
+    const window = this.getWorkingWindow(policy, localDate);
+    return {
+      date: localDate,
+      timeZone: policy.timeZone,
+      start: window.start.toISOString(),
+      end: window.end.toISOString(),
+      isWorkingDay: window.isWorkingDay,
+    };
+  }
+
+  isWithinWorkingHours(policy: WorkingHoursPolicy, start: Date, end: Date): boolean {
+    return isWithinWorkingHours(policy, start, end);
+  }
+
+  private merge(base: WorkingHoursPolicy, override: any): WorkingHoursPolicy {
+    if (!override) return base;
+    return {
+      // A synced mailbox timezone is the user's default; an explicit override still wins
+      timeZone: override.timeZone || override.mailboxTimeZone || base.timeZone,
+      workDayStart: override.workDayStart || base.workDayStart,
+      workDayEnd: override.workDayEnd || base.workDayEnd,
+      workDays: this.parseWorkDays(override.workDays) ?? base.workDays,
+    };
+  }
+
+  private parseWorkDays(raw?: string | null): number[] | null {
+    if (!raw) return null;
+    const days = raw.split(',').map(d => parseInt(d.trim(), 10)).filter(d => d >= 0 && d <= 6);
+    return days.length > 0 ? days : null;
+  }
+
+  private toRecord(dto: WorkingHoursPolicyUpdateDTO) {
+    if (dto.timeZone !== undefined && !isValidTimeZone(dto.timeZone)) {
+      throw new BadRequestException(`Invalid IANA time zone: ${dto.timeZone}`);
+    }
+    for (const field of ['workDayStart', 'workDayEnd'] as const) {
+      if (dto[field] !== undefined && !TIME_PATTERN.test(dto[field]!)) {
+        throw new BadRequestException(`${field} must be in HH:mm format`);
+      }
+    }
+    if (dto.workDayStart && dto.workDayEnd && dto.workDayStart >= dto.workDayEnd) {
+      throw new BadRequestException('workDayEnd must be after workDayStart');
+    }
+    if (dto.workDays !== undefined && (!Array.isArray(dto.workDays) || dto.workDays.some(d => !Number.isInteger(d) || d < 0 || d > 6))) {
+      throw new BadRequestException('workDays must be an array of integers 0 (Sunday) to 6 (Saturday)');
+    }
+    return {
+      timeZone: dto.timeZone,
+      workDayStart: dto.workDayStart,
+      workDayEnd: dto.workDayEnd,
+      workDays: dto.workDays?.join(','),
+    };
+  }
+}
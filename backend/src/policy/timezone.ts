@@ -0,0 +1,119 @@
+/**
+ * IANA timezone helpers built on Intl.DateTimeFormat.
+ * All conversions go through the runtime's tz database, so DST transitions are handled correctly.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let fmt = formatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: any = {};
+  for (const p of formatterFor(timeZone).formatToParts(date)) {
+    if (p.type !== 'literal') parts[p.type] = parseInt(p.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (IST => 330, PDT => -420).
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert a wall-clock time ("YYYY-MM-DD", "HH:mm") in a zone to the UTC instant.
+ * Non-existent local times (spring-forward gap) resolve to the instant after the gap.
+ */
+export function zonedTimeToUtc(localDate: string, localTime: string, timeZone: string): Date {
+  const [y, m, d] = localDate.split('-').map(n => parseInt(n, 10));
+  const [hh, mm] = localTime.split(':').map(n => parseInt(n, 10));
+  const guess = Date.UTC(y, m - 1, d, hh, mm);
+
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(guess), timeZone);
+  let result = guess - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    const candidate = guess - secondOffset * 60000;
+    if (getTimeZoneOffsetMinutes(new Date(candidate), timeZone) === secondOffset) result = candidate;
+  }
+  return new Date(result);
+}
+
+/**
+ * Calendar date ("YYYY-MM-DD") of the instant as seen in the zone.
+ */
+export function toLocalDateString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * Wall-clock date-time ("YYYY-MM-DDTHH:mm:ss", no offset) of the instant in the zone, as Graph expects alongside a timeZone.
+ */
+export function toLocalDateTimeString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+}
+
+export function addDaysToDateString(localDate: string, days: number): string {
+  const [y, m, d] = localDate.split('-').map(n => parseInt(n, 10));
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Day of week (0 = Sunday) for a "YYYY-MM-DD" calendar date.
+ */
+export function dayOfWeek(localDate: string): number {
+  const [y, m, d] = localDate.split('-').map(n => parseInt(n, 10));
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+export function formatInTimeZone(date: Date, timeZone: string, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }): string {
+  return date.toLocaleString('en-US', { timeZone, ...options });
+}
@@ -0,0 +1,25 @@
+export interface WorkingHoursPolicy {
+  timeZone: string;      // IANA zone, e.g. "Asia/Kolkata", "Europe/Berlin"
+  workDayStart: string;  // "HH:mm" local time
+  workDayEnd: string;    // "HH:mm" local time
+  workDays: number[];    // 0 = Sunday ... 6 = Saturday
+}
+export interface WorkingWindow { date: string; timeZone: string; start: string; end: string; isWorkingDay: boolean; }
+export type WorkingHoursPolicyUpdateDTO = Partial<WorkingHoursPolicy>;
+
+export interface BufferPolicy {
+  bufferBeforeMinutes: number; // free time kept before a meeting
+  bufferAfterMinutes: number;  // free time kept after a meeting
+  travelMinutes: number;       // extra padding around in-person events
+}
+export type BufferPolicyUpdateDTO = Partial<BufferPolicy>;
+
+// What happens when a required attendee declines: nothing, propose new times, or move the meeting to the best one
+export type DeclineReaction = 'none' | 'propose' | 'reschedule';
+export const DECLINE_REACTIONS: DeclineReaction[] = ['none', 'propose', 'reschedule'];
+
+export interface MeetingDefaultsPolicy {
+  onlineMeetingsByDefault: boolean; // add a Teams link when the request doesn't say
+  onRequiredDecline: DeclineReaction;
+}
+export type MeetingDefaultsPolicyUpdateDTO = Partial<MeetingDefaultsPolicy>;
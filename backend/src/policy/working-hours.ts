@@ -0,0 +1,37 @@
+import { WorkingHoursPolicy } from './types';
+import { addDaysToDateString, dayOfWeek, toLocalDateString, zonedTimeToUtc } from './timezone';
+
+/**
+ * Working window for a local calendar date ("YYYY-MM-DD") in the policy's timezone, as UTC instants.
+ */
+export function getWorkingWindow(policy: WorkingHoursPolicy, localDate: string): { start: Date; end: Date; isWorkingDay: boolean } {
+  return {
+    start: zonedTimeToUtc(localDate, policy.workDayStart, policy.timeZone),
+    end: zonedTimeToUtc(localDate, policy.workDayEnd, policy.timeZone),
+    isWorkingDay: policy.workDays.includes(dayOfWeek(localDate)),
+  };
+}
+
+/**
+ * Whether [start, end) falls entirely inside a working window of the policy.
+ */
+export function isWithinWorkingHours(policy: WorkingHoursPolicy, start: Date, end: Date): boolean {
+  const window = getWorkingWindow(policy, toLocalDateString(start, policy.timeZone));
+  return window.isWorkingDay && start >= window.start && end <= window.end;
+}
+
+/**
+ * All working windows of the policy that intersect [from, to), clipped to it, in chronological order.
+ */
+export function getWorkingIntervals(policy: WorkingHoursPolicy, from: Date, to: Date): { start: Date; end: Date }[] {
+  const intervals: { start: Date; end: Date }[] = [];
+  const lastDate = toLocalDateString(to, policy.timeZone);
+  for (let date = toLocalDateString(from, policy.timeZone); date <= lastDate; date = addDaysToDateString(date, 1)) {
+    const window = getWorkingWindow(policy, date);
+    if (!window.isWorkingDay) continue;
+    const start = window.start > from ? window.start : from;
+    const end = window.end < to ? window.end : to;
+    if (start < end) intervals.push({ start, end });
+  }
+  return intervals;
+}
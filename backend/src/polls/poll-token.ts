@@ -0,0 +1,31 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function signingSecret(): string {
+  const secret = process.env.POLL_SIGNING_SECRET;
+  if (!secret) throw new Error('POLL_SIGNING_SECRET is not configured');
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', signingSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Voting token for one voter on one poll: "<pollId>.<voterId>.<hmac>". Anyone holding it can vote as that voter.
+ */
+export function createPollToken(pollId: number, voterId: number): string {
+  const payload = `${pollId}.${voterId}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * The poll and voter a token was issued for, or null if it's malformed or the signature doesn't match
+ */
+export function verifyPollToken(token: string): { pollId: number; voterId: number } | null {
+  const match = /^(\d+)\.(\d+)\.([A-Za-z0-9_-]+)$/.exec(token || '');
+  if (!match) return null;
+  const expected = Buffer.from(sign(`${match[1]}.${match[2]}`));
+  const actual = Buffer.from(match[3]);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return { pollId: parseInt(match[1], 10), voterId: parseInt(match[2], 10) };
+}
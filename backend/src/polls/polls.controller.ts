@@ -0,0 +1,45 @@
+import { Body, Controller, Get, Param, ParseIntPipe, Post, Request, UseGuards } from '@nestjs/common';
+import { PollsService } from './polls.service';
+import { CreatePollDTO, FinalizePollDTO, PollVoteDTO } from './types';
+import { SignedInGuard } from '../auth/signed-in.guard';
+
+@Controller('polls')
+export class PollsController {
+  constructor(private polls: PollsService) { }
+
+  // Public voting endpoints: the signed token is the only credential
+  @Get('vote/:token')
+  async getForVoter(@Param('token') token: string) {
+    return this.polls.getPollForVoter(token);
+  }
+
+  @Post('vote/:token')
+  async vote(@Param('token') token: string, @Body() dto: PollVoteDTO) {
+    return this.polls.vote(token, dto);
+  }
+
+  // Managing a poll needs the signed-in organizer
+  @Post()
+  @UseGuards(SignedInGuard)
+  async create(@Body() dto: CreatePollDTO, @Request() req: any) {
+    return this.polls.createPoll(req.user.email, dto);
+  }
+
+  @Get(':id')
+  @UseGuards(SignedInGuard)
+  async get(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.polls.getPoll(id, req.user.email);
+  }
+
+  @Post(':id/finalize')
+  @UseGuards(SignedInGuard)
+  async finalize(@Param('id', ParseIntPipe) id: number, @Body() dto: FinalizePollDTO, @Request() req: any) {
+    return this.polls.finalizePoll(id, dto, req.user.email);
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(SignedInGuard)
+  async cancel(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.polls.cancelPoll(id, req.user.email);
+  }
+}
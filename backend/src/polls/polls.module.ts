@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PollsService } from './polls.service';
+import { PollsController } from './polls.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { AuthModule } from '../auth/auth.module';
+import { AvailabilityModule } from '../availability/availability.module';
+import { PolicyModule } from '../policy/policy.module';
+import { SchedulingModule } from '../scheduling/scheduling.module';
+
+@Module({
+  imports: [PrismaModule, CalendarProvidersModule, AuthModule, AvailabilityModule, PolicyModule, SchedulingModule],
+  controllers: [PollsController],
+  providers: [PollsService],
+})
+export class PollsModule { }
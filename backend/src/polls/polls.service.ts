@@ -0,0 +1,310 @@
+import { BadRequestException, ConflictException, ForbiddenException, GoneException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { PolicyService } from '../policy/policy.service';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import { normalizeAttendees } from '../scheduling/attendees';
+import { overlapsAny } from '../availability/availability-engine';
+import { createPollToken, verifyPollToken } from './poll-token';
+import { CreatePollDTO, FinalizePollDTO, PollAnswer, PollSlotTally, PollVoteDTO } from './types';
+const logger = new Logger('PollsService');
+
+const ANSWERS: PollAnswer[] = ['yes', 'maybe', 'no'];
+const MIN_SLOTS = 3;
+const MAX_SLOTS = 5;
+
+/**
+ * Meeting polls for attendees whose calendars we can't read: the organizer offers 3-5 slots that work internally,
+ * external attendees vote through signed links without signing in, and finalizing books the chosen slot.
+ */
+@Injectable()
+export class PollsService {
+  constructor(
+    @Inject('PRISMA') private prisma: any,
+    private providers: CalendarProvidersService,
+    private availability: AvailabilityService,
+    private policy: PolicyService,
+    private scheduling: SchedulingService,
+  ) { }
+
+  private pollDurationDays(): number {
+    return parseInt(process.env.POLL_DURATION_DAYS || '7', 10);
+  }
+
+  private voteUrl(token: string): string {
+    return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/poll/${token}`;
+  }
+
+  async createPoll(organizer: string, dto: CreatePollDTO) {
+    if (!dto.subject) throw new BadRequestException('subject is required');
+    if (!Array.isArray(dto.slots) || dto.slots.length < MIN_SLOTS || dto.slots.length > MAX_SLOTS) {
+      throw new BadRequestException(`A poll needs between ${MIN_SLOTS} and ${MAX_SLOTS} candidate slots`);
+    }
+    const now = new Date();
+    const slots = dto.slots.map(s => ({ start: new Date(s.start), end: new Date(s.end) }));
+    if (slots.some(s => isNaN(s.start.getTime()) || isNaN(s.end.getTime()) || s.end <= s.start)) {
+      throw new BadRequestException('Every slot needs a valid start before its end');
+    }
+    if (slots.some(s => s.start < now)) throw new BadRequestException('Slots must be in the future');
+
+    const attendees = normalizeAttendees(dto.attendees);
+    const external = attendees.filter(a => !this.providers.isInternal(a.emailAddress.address, organizer));
+    if (external.length === 0) {
+      throw new BadRequestException('Polls are for external attendees; with only internal attendees, schedule directly');
+    }
+
+    // Every slot must work for the organizer and the required internal attendees
+    const internalRequired = attendees
+      .filter(a => this.providers.isInternal(a.emailAddress.address, organizer) && a.type !== 'Optional')
+      .map(a => a.emailAddress.address);
+    const emails = Array.from(new Set([organizer, ...internalRequired].map(e => e.toLowerCase())));
+    const buffers = await this.policy.getBufferPoliciesForUsers(emails);
+    const { busy } = await this.availability.findBusyAttendees(organizer, emails, slots, buffers);
+    const busySlots = slots.map((slot, i) => ({ slot, busy: busy[i] })).filter(s => s.busy.length > 0);
+    if (busySlots.length > 0) {
+      throw new BadRequestException(
+        `Not every slot is free internally: ${busySlots.map(s => `${s.slot.start.toISOString()} (${s.busy.join(', ')})`).join('; ')}`,
+      );
+    }
+
+    const firstStart = new Date(Math.min(...slots.map(s => s.start.getTime())));
+    let closesAt = dto.closesAt ? new Date(dto.closesAt) : new Date(now.getTime() + this.pollDurationDays() * 24 * 60 * 60 * 1000);
+    if (isNaN(closesAt.getTime()) || closesAt <= now) throw new BadRequestException('closesAt must be in the future');
+    if (closesAt > firstStart) closesAt = firstStart;
+
+    const poll = await this.prisma.meetingPoll.create({
+      data: {
+        organizer,
+        subject: dto.subject,
+        attendees: JSON.stringify(attendees),
+        description: dto.description ?? null,
+        location: dto.location ?? null,
+        isOnlineMeeting: dto.isOnlineMeeting ?? null,
+        closesAt,
+        slots: { create: slots.map(s => ({ start: s.start, end: s.end })) },
+        voters: { create: external.map(a => ({ email: a.emailAddress.address, name: a.emailAddress.name ?? null })) },
+      },
+      include: { slots: true, voters: true },
+    });
+
+    if (dto.holdSlots !== false) {
+      for (const slot of poll.slots) {
+        const holdEventId = await this.placeHold(organizer, dto.subject, slot.start, slot.end);
+        if (holdEventId) await this.prisma.pollSlot.update({ where: { id: slot.id }, data: { holdEventId } });
+      }
+    }
+
+    logger.log(`Created poll ${poll.id} with ${poll.slots.length} slots for ${poll.voters.length} external voter(s)`);
+    return {
+      pollId: poll.id,
+      closesAt: closesAt.toISOString(),
+      slots: poll.slots.map((s: any) => ({ slotId: s.id, start: s.start.toISOString(), end: s.end.toISOString() })),
+      links: poll.voters.map((v: any) => ({ email: v.email, url: this.voteUrl(createPollToken(poll.id, v.id)) })),
+    };
+  }
+
+  async getPoll(id: number, requester: string) {
+    const poll = await this.getOwnedPoll(id, requester);
+    const tally = this.tally(poll);
+    const best = [...tally].sort((a, b) => b.yes.length - a.yes.length || b.maybe.length - a.maybe.length)[0];
+    return {
+      pollId: poll.id,
+      organizer: poll.organizer,
+      subject: poll.subject,
+      status: poll.status,
+      closesAt: poll.closesAt.toISOString(),
+      meetingId: poll.meetingId ?? undefined,
+      finalSlotId: poll.finalSlotId ?? undefined,
+      slots: tally,
+      bestSlotId: best && best.yes.length + best.maybe.length > 0 ? best.slotId : undefined,
+      pending: poll.voters.filter((v: any) => !v.respondedAt).map((v: any) => v.email),
+    };
+  }
+
+  /**
+   * Public view of a poll for the voter a token belongs to: the slots and their own answers, not other people's
+   */
+  async getPollForVoter(token: string) {
+    const { poll, voter } = await this.resolveToken(token);
+    const answers = new Map<number, string>(voter.votes.map((v: any) => [v.slotId, v.answer]));
+    return {
+      pollId: poll.id,
+      subject: poll.subject,
+      organizer: poll.organizer,
+      description: poll.description ?? undefined,
+      location: poll.location ?? undefined,
+      isOnlineMeeting: poll.isOnlineMeeting ?? undefined,
+      status: poll.status,
+      closesAt: poll.closesAt.toISOString(),
+      voter: { email: voter.email, name: voter.name ?? undefined },
+      slots: poll.slots.map((s: any) => ({
+        slotId: s.id,
+        start: s.start.toISOString(),
+        end: s.end.toISOString(),
+        answer: answers.get(s.id),
+      })),
+    };
+  }
+
+  async vote(token: string, dto: PollVoteDTO) {
+    const { poll, voter } = await this.resolveToken(token);
+    if (poll.status !== 'open' || poll.closesAt <= new Date()) throw new GoneException('This poll is closed');
+
+    const slotIds = new Set(poll.slots.map((s: any) => s.id));
+    const votes = dto.votes || [];
+    for (const v of votes) {
+      if (!slotIds.has(v.slotId)) throw new BadRequestException(`Unknown slot: ${v.slotId}`);
+      if (!ANSWERS.includes(v.answer)) throw new BadRequestException(`answer must be one of ${ANSWERS.join(', ')}`);
+    }
+
+    // A voter's latest submission replaces their earlier one
+    await this.prisma.$transaction([
+      this.prisma.pollVote.deleteMany({ where: { voterId: voter.id } }),
+      ...votes.map(v => this.prisma.pollVote.create({ data: { voterId: voter.id, slotId: v.slotId, answer: v.answer } })),
+      this.prisma.pollVoter.update({
+        where: { id: voter.id },
+        data: { respondedAt: new Date(), name: dto.name?.trim() || voter.name },
+      }),
+    ]);
+    logger.log(`Recorded ${votes.length} vote(s) from ${voter.email} on poll ${poll.id}`);
+    return this.getPollForVoter(token);
+  }
+
+  /**
+   * Book the chosen slot through the normal scheduling path (re-checking internal availability) and release the holds.
+   * If someone got booked in the meantime (or booking fails) the poll stays open with its holds back in place, so
+   * another slot can be picked. The poll is claimed ("finalizing") first, so concurrent requests can't both book.
+   */
+  async finalizePoll(id: number, dto: FinalizePollDTO, requester: string) {
+    const poll = await this.getOwnedPoll(id, requester);
+    if (poll.status !== 'open') throw new BadRequestException(`Poll is already ${poll.status}`);
+    const slot = poll.slots.find((s: any) => s.id === dto.slotId);
+    if (!slot) throw new BadRequestException(`Unknown slot: ${dto.slotId}`);
+
+    const { count } = await this.prisma.meetingPoll.updateMany({ where: { id: poll.id, status: 'open' }, data: { status: 'finalizing' } });
+    if (count === 0) throw new ConflictException('This poll is already being finalized or was closed');
+    const reopen = () => this.prisma.meetingPoll.updateMany({ where: { id: poll.id, status: 'finalizing' }, data: { status: 'open' } });
+
+    // Our own holds would otherwise make the organizer look busy at the chosen time
+    const overlapping = poll.slots.filter((s: any) => overlapsAny([slot], s.start, s.end));
+
+    let result: any;
+    try {
+      await this.releaseHolds(poll.organizer, overlapping);
+      result = await this.scheduling.scheduleMeeting({
+        organizer: poll.organizer,
+        attendees: JSON.parse(poll.attendees),
+        start: slot.start.toISOString(),
+        end: slot.end.toISOString(),
+        subject: poll.subject,
+        description: poll.description ?? undefined,
+        location: poll.location ?? undefined,
+        isOnlineMeeting: poll.isOnlineMeeting ?? undefined,
+        createIfFree: true,
+        idempotencyKey: `poll-${poll.id}-slot-${slot.id}`,
+      });
+    } catch (error) {
+      await this.restoreHolds(poll, overlapping);
+      await reopen();
+      throw error;
+    }
+    if (result.created === false) {
+      logger.warn(`Poll ${poll.id}: slot ${slot.id} is no longer free`);
+      await this.restoreHolds(poll, overlapping);
+      await reopen();
+      return { ...result, finalized: false, pollId: poll.id };
+    }
+
+    await this.releaseHolds(poll.organizer, poll.slots.filter((s: any) => !overlapping.includes(s)));
+    await this.prisma.meetingPoll.update({
+      where: { id: poll.id },
+      data: { status: 'finalized', finalSlotId: slot.id, meetingId: result.meetingId ?? null },
+    });
+    logger.log(`Finalized poll ${poll.id} on slot ${slot.id}`);
+    return { ...result, finalized: true, pollId: poll.id };
+  }
+
+  async cancelPoll(id: number, requester: string) {
+    const poll = await this.getOwnedPoll(id, requester);
+    if (poll.status !== 'open') throw new BadRequestException(`Poll is already ${poll.status}`);
+    await this.releaseHolds(poll.organizer, poll.slots);
+    await this.prisma.meetingPoll.update({ where: { id: poll.id }, data: { status: 'cancelled' } });
+    logger.log(`Cancelled poll ${poll.id}`);
+    return { message: 'Poll cancelled', pollId: poll.id };
+  }
+
+  private async getOwnedPoll(id: number, requester: string) {
+    const poll = await this.prisma.meetingPoll.findUnique({
+      where: { id },
+      include: { slots: { include: { votes: { include: { voter: true } } } }, voters: true },
+    });
+    if (!poll) throw new NotFoundException(`Poll ${id} not found`);
+    if (!requester || requester.toLowerCase() !== poll.organizer.toLowerCase()) {
+      throw new ForbiddenException('Only the organizer can manage this poll');
+    }
+    return poll;
+  }
+
+  private async resolveToken(token: string) {
+    const ids = verifyPollToken(token);
+    if (!ids) throw new NotFoundException('Poll link is invalid');
+    const poll = await this.prisma.meetingPoll.findUnique({ where: { id: ids.pollId }, include: { slots: true } });
+    const voter = await this.prisma.pollVoter.findUnique({ where: { id: ids.voterId }, include: { votes: true } });
+    if (!poll || !voter || voter.pollId !== poll.id) throw new NotFoundException('Poll link is invalid');
+    return { poll, voter };
+  }
+
+  private tally(poll: any): PollSlotTally[] {
+    return poll.slots.map((s: any) => {
+      const by = (answer: PollAnswer) => s.votes.filter((v: any) => v.answer === answer).map((v: any) => v.voter.email);
+      return { slotId: s.id, start: s.start.toISOString(), end: s.end.toISOString(), yes: by('yes'), maybe: by('maybe'), no: by('no') };
+    });
+  }
+
+  /**
+   * Tentative event on the organizer's calendar so the slot isn't given away while the poll runs
+   */
+  private async placeHold(organizer: string, subject: string, start: Date, end: Date): Promise<string | null> {
+    try {
+      const hold = await this.providers.forUser(organizer).createEvent(organizer, {
+        subject: `Hold: ${subject}`,
+        description: 'Held for a meeting poll; released when the poll is finalized.',
+        start,
+        end,
+        attendees: [],
+        showAs: 'tentative',
+        isReminderOn: false,
+      });
+      await this.availability.invalidate([organizer]);
+      return hold.id;
+    } catch (error: any) {
+      logger.warn(`Could not place hold for poll slot at ${start.toISOString()}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Put back holds released for a finalization that didn't book
+   */
+  private async restoreHolds(poll: any, slots: any[]) {
+    for (const slot of slots) {
+      if (!slot.holdEventId) continue;
+      const holdEventId = await this.placeHold(poll.organizer, poll.subject, slot.start, slot.end);
+      if (holdEventId) await this.prisma.pollSlot.update({ where: { id: slot.id }, data: { holdEventId } });
+    }
+  }
+
+  private async releaseHolds(organizer: string, slots: any[]) {
+    for (const slot of slots) {
+      if (!slot.holdEventId) continue;
+      try {
+        await this.providers.forUser(organizer).deleteEvent(organizer, slot.holdEventId);
+      } catch (error: any) {
+        // Already deleted by hand, most likely
+        logger.warn(`Could not release hold ${slot.holdEventId}: ${error.message}`);
+      }
+      await this.prisma.pollSlot.update({ where: { id: slot.id }, data: { holdEventId: null } });
+    }
+    await this.availability.invalidate([organizer]);
+  }
+}
@@ -0,0 +1,31 @@
+import { Attendee } from '../scheduling/types';
+
+export type PollAnswer = 'yes' | 'maybe' | 'no';
+export type PollStatus = 'open' | 'finalized' | 'cancelled';
+
+export interface CreatePollDTO {
+  subject: string;
+  attendees: Attendee[];
+  slots: { start: string; end: string }[]; // 3-5 candidates
+  description?: string;
+  location?: string;
+  isOnlineMeeting?: boolean;
+  holdSlots?: boolean;  // place tentative holds on the organizer's calendar (default true)
+  closesAt?: string;    // voting deadline; defaults to POLL_DURATION_DAYS from now, capped at the first slot
+}
+
+export interface PollVoteDTO {
+  name?: string;
+  votes: { slotId: number; answer: PollAnswer }[];
+}
+
+export interface FinalizePollDTO { slotId: number; }
+
+export interface PollSlotTally {
+  slotId: number;
+  start: string;
+  end: string;
+  yes: string[];
+  maybe: string[];
+  no: string[];
+}
@@ -0,0 +1,30 @@
+import { Global, Inject, Logger, Module, OnModuleDestroy } from "@nestjs/common";
+import Redis from "ioredis";
+
+const logger = new Logger("RedisModule");
+
+/**
+ * One Redis connection (REDIS_URL) for the token cache, booking locks and free/busy cache; null when it isn't set
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: "REDIS",
+      useFactory: () => {
+        if (!process.env.REDIS_URL) return null;
+        const client = new Redis(process.env.REDIS_URL);
+        client.on("error", (error) => logger.warn(`Redis: ${error?.message || error}`));
+        return client;
+      },
+    },
+  ],
+  exports: ["REDIS"],
+})
+export class RedisModule implements OnModuleDestroy {
+  constructor(@Inject("REDIS") private redis: Redis | null) { }
+
+  async onModuleDestroy() {
+    await this.redis?.quit();
+  }
+}
@@ -0,0 +1,45 @@
+import { Room, RoomAssignment, RoomRequest } from './types';
+
+/**
+ * Map a Graph room (places/microsoft.graph.room) to a Room.
+ */
+export function toRoom(place: any): Room {
+  const equipment = new Set<string>((place.tags || []).map((t: string) => t.toLowerCase()));
+  if (place.audioDeviceName) equipment.add('audio');
+  if (place.videoDeviceName) equipment.add('video');
+  if (place.displayDeviceName) equipment.add('display');
+  if (place.isWheelChairAccessible) equipment.add('wheelchair');
+  return {
+    email: place.emailAddress,
+    displayName: place.displayName,
+    capacity: place.capacity ?? undefined,
+    building: place.building ?? undefined,
+    floor: place.floorLabel ?? (place.floorNumber != null ? String(place.floorNumber) : undefined),
+    equipment: Array.from(equipment),
+  };
+}
+
+export function matchesRoomRequest(room: Room, request: RoomRequest): boolean {
+  if (request.email) return room.email.toLowerCase() === request.email.toLowerCase();
+  if (request.capacity && (room.capacity ?? 0) < request.capacity) return false;
+  if (request.building) {
+    // "Building 2", "building 2" and "2" all name the same building
+    const wanted = request.building.toLowerCase().replace(/^building\s+/, '');
+    const actual = (room.building || '').toLowerCase().replace(/^building\s+/, '');
+    if (wanted !== actual) return false;
+  }
+  return (request.equipment || []).every(e => room.equipment.includes(e.toLowerCase()));
+}
+
+/**
+ * Matching rooms, smallest first so big rooms stay free for big meetings.
+ */
+export function selectRooms(rooms: Room[], request: RoomRequest): Room[] {
+  return rooms
+    .filter(room => !!room.email && matchesRoomRequest(room, request))
+    .sort((a, b) => (a.capacity ?? Infinity) - (b.capacity ?? Infinity) || a.displayName.localeCompare(b.displayName));
+}
+
+export function toRoomAssignment(room: Room): RoomAssignment {
+  return { email: room.email, displayName: room.displayName, capacity: room.capacity, building: room.building };
+}
@@ -0,0 +1,16 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { RoomsService } from './rooms.service';
+
+@Controller('rooms')
+export class RoomsController {
+  constructor(private rooms: RoomsService) { }
+
+  @Get()
+  async list(@Query('capacity') capacity?: string, @Query('building') building?: string, @Query('equipment') equipment?: string) {
+    return this.rooms.findRooms({
+      capacity: capacity ? parseInt(capacity, 10) : undefined,
+      building: building || undefined,
+      equipment: equipment ? equipment.split(',').map(e => e.trim()).filter(Boolean) : undefined,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RoomsService } from './rooms.service';
+import { RoomsController } from './rooms.controller';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { AvailabilityModule } from '../availability/availability.module';
+
+@Module({
+  imports: [CalendarProvidersModule, AvailabilityModule],
+  controllers: [RoomsController],
+  providers: [RoomsService],
+  exports: [RoomsService],
+})
+export class RoomsModule { }
@@ -0,0 +1,67 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { Freshness, Interval } from '../availability/types';
+import { Room, RoomAssignment, RoomRequest } from './types';
+import { selectRooms, toRoom, toRoomAssignment } from './room-filter';
+const logger = new Logger('RoomsService');
+
+// Room lists change rarely; avoid listing every room on each search
+const ROOM_CACHE_MS = 10 * 60 * 1000;
+// Most rooms checked for availability per search
+const MAX_ROOM_CANDIDATES = 10;
+
+@Injectable()
+export class RoomsService {
+  private cache?: { rooms: Room[]; fetchedAt: number };
+
+  constructor(private providers: CalendarProvidersService, private availability: AvailabilityService) { }
+
+  async listRooms(): Promise<Room[]> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < ROOM_CACHE_MS) return this.cache.rooms;
+    const places = await this.providers.listRooms();
+    const rooms = places.map(toRoom);
+    this.cache = { rooms, fetchedAt: Date.now() };
+    logger.log(`Loaded ${rooms.length} room(s)`);
+    return rooms;
+  }
+
+  async findRooms(request: RoomRequest): Promise<Room[]> {
+    const rooms = selectRooms(await this.listRooms(), request);
+    // An explicitly named room may not be listed (e.g. missing Place.Read.All); book it by address anyway
+    if (rooms.length === 0 && request.email) {
+      return [{ email: request.email, displayName: request.email, equipment: [] }];
+    }
+    return rooms;
+  }
+
+  /**
+   * For each interval, the first (smallest) matching room that is free, or null if none is.
+   * Pass freshness 'cached' when only suggesting rooms; booking checks the rooms' calendars live.
+   */
+  async assignRooms(organizer: string, request: RoomRequest, intervals: Interval[], freshness: Freshness = 'fresh'): Promise<(RoomAssignment | null)[]> {
+    return this.assignRoomsForSeries(organizer, request, intervals.map(interval => [interval]), freshness);
+  }
+
+  /**
+   * Like assignRooms, for recurring meetings: each entry is one candidate series (its occurrences) and gets a room
+   * that is free at every one of them
+   */
+  async assignRoomsForSeries(organizer: string, request: RoomRequest, series: Interval[][], freshness: Freshness = 'fresh'): Promise<(RoomAssignment | null)[]> {
+    const rooms = (await this.findRooms(request)).slice(0, MAX_ROOM_CANDIDATES);
+    if (rooms.length === 0) {
+      logger.warn(`No rooms match ${JSON.stringify(request)}`);
+      return series.map(() => null);
+    }
+
+    const emails = rooms.map(r => r.email);
+    const { busy, unresolved } = await this.availability.findBusyAttendees(organizer, emails, series.flat(), {}, [], freshness);
+    let offset = 0;
+    return series.map(occurrences => {
+      const busyRooms = new Set(busy.slice(offset, offset + occurrences.length).flat());
+      offset += occurrences.length;
+      const room = rooms.find(r => !busyRooms.has(r.email) && !unresolved.includes(r.email.toLowerCase()));
+      return room ? toRoomAssignment(room) : null;
+    });
+  }
+}
@@ -0,0 +1,15 @@
+export interface Room {
+  email: string;
+  displayName: string;
+  capacity?: number;
+  building?: string;
+  floor?: string;
+  equipment: string[];   // normalized, lowercase: "audio", "video", "display", "wheelchair" plus any room tags
+}
+
+/**
+ * What the meeting needs from a room. With `email` that exact room is used; otherwise any room matching the filters.
+ */
+export interface RoomRequest { email?: string; capacity?: number; building?: string; equipment?: string[]; }
+
+export interface RoomAssignment { email: string; displayName: string; capacity?: number; building?: string; }
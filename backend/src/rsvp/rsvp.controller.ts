@@ -0,0 +1,15 @@
+import { Controller, Get, Param, ParseIntPipe, Query, Request, UseGuards } from '@nestjs/common';
+import { SignedInGuard } from '../auth/signed-in.guard';
+import { RsvpService } from './rsvp.service';
+
+@Controller('scheduling/meetings/:id/rsvps')
+export class RsvpController {
+  constructor(private rsvp: RsvpService) { }
+
+  // ?refresh=true reads the responses from the calendar instead of waiting for the next sync
+  @Get()
+  @UseGuards(SignedInGuard)
+  async summary(@Param('id', ParseIntPipe) id: number, @Query('refresh') refresh: string, @Request() req: any) {
+    return this.rsvp.summary(id, req.user.email, refresh === 'true');
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { FreeBusyCacheModule } from '../free-busy-cache/free-busy-cache.module';
+import { MeetingsModule } from '../meetings/meetings.module';
+import { PolicyModule } from '../policy/policy.module';
+import { SchedulingModule } from '../scheduling/scheduling.module';
+import { RsvpService } from './rsvp.service';
+import { RsvpController } from './rsvp.controller';
+
+@Module({
+  imports: [PrismaModule, AuthModule, CalendarProvidersModule, FreeBusyCacheModule, MeetingsModule, PolicyModule, SchedulingModule],
+  controllers: [RsvpController],
+  providers: [RsvpService],
+})
+export class RsvpModule { }
@@ -0,0 +1,161 @@
+import { Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { CalendarSubscriptionsService } from '../free-busy-cache/calendar-subscriptions.service';
+import { MeetingStoreService } from '../meetings/meeting-store.service';
+import { PolicyService } from '../policy/policy.service';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import { RsvpSummary } from './types';
+const logger = new Logger('RsvpService');
+
+/**
+ * Keeps attendee responses of upcoming meetings in step with the organizer's calendar: every
+ * RSVP_POLL_INTERVAL_MINUTES for every provider, and right away when a Graph change notification reports the
+ * event changed. When a required attendee declines, the organization's onRequiredDecline policy decides whether
+ * new times are proposed (stored in the meeting's history) or the meeting is moved to the best one.
+ */
+@Injectable()
+export class RsvpService implements OnModuleInit, OnModuleDestroy {
+  private intervalMinutes: number;
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = new Set<number>();
+
+  constructor(
+    @Inject('PRISMA') private prisma: any,
+    private providers: CalendarProvidersService,
+    private subscriptions: CalendarSubscriptionsService,
+    private meetings: MeetingStoreService,
+    private policy: PolicyService,
+    private scheduling: SchedulingService,
+  ) {
+    this.intervalMinutes = parseInt(process.env.RSVP_POLL_INTERVAL_MINUTES || '15', 10);
+  }
+
+  onModuleInit() {
+    this.subscriptions.onEventChanged((email, eventId) => void this.syncEvent(email, eventId));
+    if (this.intervalMinutes <= 0) {
+      logger.log('RSVP polling disabled');
+      return;
+    }
+    this.timer = setInterval(() => void this.syncUpcoming(), this.intervalMinutes * 60 * 1000);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  private upcomingWhere() {
+    // A series' start/end are its first occurrence, so series stay tracked until cancelled
+    return { status: { not: 'cancelled' }, graphEventId: { not: null }, OR: [{ end: { gt: new Date() } }, { seriesId: { not: null } }] };
+  }
+
+  async syncUpcoming() {
+    const meetings = await this.prisma.meeting.findMany({ where: this.upcomingWhere(), include: { organizer: true, attendees: true } });
+    for (const meeting of meetings) await this.syncMeeting(meeting);
+  }
+
+  /**
+   * A change notification for an event in `email`'s calendar; only events of meetings they organize matter
+   */
+  private async syncEvent(email: string, eventId: string) {
+    const meeting = await this.prisma.meeting.findFirst({
+      where: { ...this.upcomingWhere(), graphEventId: eventId },
+      include: { organizer: true, attendees: true },
+    });
+    if (meeting && meeting.organizer.email?.toLowerCase() === email.toLowerCase()) await this.syncMeeting(meeting);
+  }
+
+  /**
+   * Read the event's attendee responses, store the ones that changed and react to new required declines
+   */
+  private async syncMeeting(meeting: any) {
+    if (this.syncing.has(meeting.id)) return;
+    this.syncing.add(meeting.id);
+    try {
+      const organizer = meeting.organizer.email;
+      const event = await this.providers.get(meeting.calendarProvider).getEvent(organizer, meeting.graphEventId);
+      const live = new Map(event.attendees.map(a => [a.email.toLowerCase(), a]));
+
+      const changed = meeting.attendees
+        .map((stored: any) => ({ stored, current: live.get(stored.email) }))
+        .filter(({ stored, current }: any) => current?.responseStatus && current.responseStatus !== stored.responseStatus);
+      await this.meetings.recordResponses(meeting.id, changed.map(({ stored, current }: any) => ({
+        email: stored.email,
+        responseStatus: current.responseStatus,
+        respondedAt: current.respondedAt ?? new Date(),
+      })));
+      if (changed.length === 0) return;
+      logger.log(`Meeting ${meeting.id}: ${changed.map(({ stored, current }: any) => `${stored.email} ${current.responseStatus}`).join(', ')}`);
+
+      const declined = changed
+        .filter(({ stored, current }: any) => stored.type === 'required' && current.responseStatus === 'declined')
+        .map(({ stored }: any) => stored.email);
+      if (declined.length > 0) await this.onRequiredDecline(meeting, declined);
+    } catch (error: any) {
+      logger.warn(`Could not sync responses for meeting ${meeting.id}: ${error?.response?.data?.error?.message || error?.message || error}`);
+    } finally {
+      this.syncing.delete(meeting.id);
+    }
+  }
+
+  private async onRequiredDecline(meeting: any, declined: string[]) {
+    const organizer = meeting.organizer.email;
+    const { onRequiredDecline } = await this.policy.getMeetingDefaults(organizer);
+    if (onRequiredDecline === 'none' || meeting.start < new Date()) {
+      await this.meetings.recordDeclined(meeting.id, declined, { reaction: 'none' });
+      return;
+    }
+
+    const alternatives = await this.scheduling.proposeNewTimes(meeting.id, organizer);
+    // Moved automatically at most once, so attendees who keep declining don't bounce the meeting around
+    const alreadyMoved = await this.prisma.meetingHistory.count({
+      where: { meetingId: meeting.id, action: 'declined', details: { contains: '"reaction":"rescheduled"' } },
+    });
+    if (onRequiredDecline === 'reschedule' && alternatives.length > 0 && alreadyMoved === 0) {
+      const [best] = alternatives;
+      const result: any = await this.scheduling.rescheduleMeeting(meeting.id, { start: best.start, end: best.end }, organizer);
+      if (result.rescheduled) {
+        await this.meetings.recordDeclined(meeting.id, declined, { reaction: 'rescheduled', to: best });
+        logger.log(`Meeting ${meeting.id} moved to ${best.start} after ${declined.join(', ')} declined`);
+        return;
+      }
+    }
+
+    await this.meetings.recordDeclined(meeting.id, declined, { reaction: 'proposed', alternatives });
+    logger.log(`Meeting ${meeting.id}: ${declined.join(', ')} declined; proposed ${alternatives.length} new time(s)`);
+  }
+
+  /**
+   * Who accepted, declined or hasn't answered, for the organizer. `refresh` reads the calendar first.
+   */
+  async summary(id: number, requester: string, refresh = false): Promise<RsvpSummary> {
+    if (refresh) {
+      const stored = await this.scheduling.getMeeting(id, requester);
+      if (stored.status !== 'cancelled' && stored.graphEventId) await this.syncMeeting(stored);
+    }
+    const meeting = await this.scheduling.getMeeting(id, requester);
+    const people = meeting.attendees.filter((a: any) => a.type !== 'resource');
+    const count = (...statuses: string[]) => people.filter((a: any) => statuses.includes(a.responseStatus)).length;
+    const lastDecline = [...meeting.history].reverse().find((h: any) => h.action === 'declined');
+
+    return {
+      meetingId: id,
+      counts: {
+        accepted: count('accepted', 'organizer'),
+        tentative: count('tentativelyAccepted'),
+        declined: count('declined'),
+        noResponse: count('none', 'notResponded'),
+      },
+      requiredDeclined: people.filter((a: any) => a.type === 'required' && a.responseStatus === 'declined').map((a: any) => a.email),
+      attendees: meeting.attendees.map((a: any) => ({
+        email: a.email,
+        name: a.name,
+        type: a.type,
+        responseStatus: a.responseStatus,
+        respondedAt: a.respondedAt?.toISOString() ?? null,
+      })),
+      syncedAt: meeting.rsvpSyncedAt?.toISOString() ?? null,
+      lastDecline: lastDecline ? { at: lastDecline.createdAt.toISOString(), ...lastDecline.details } : null,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+export interface RsvpAttendee {
+  email: string;
+  name: string | null;
+  type: string;              // required | optional | resource
+  responseStatus: string;    // Graph vocabulary: none | organizer | accepted | tentativelyAccepted | declined | notResponded
+  respondedAt: string | null;
+}
+
+export interface RsvpSummary {
+  meetingId: number;
+  counts: { accepted: number; tentative: number; declined: number; noResponse: number };
+  requiredDeclined: string[];
+  attendees: RsvpAttendee[];
+  syncedAt: string | null;   // when responses were last read from the calendar
+  lastDecline: any | null;   // latest "declined" history entry: who, and what the decline policy did
+}
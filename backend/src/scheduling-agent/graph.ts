@@ -0,0 +1,81 @@
+import { Annotation, END, MessagesAnnotation, START, StateGraph } from "@langchain/langgraph";
+import { ToolNode } from "@langchain/langgraph/prebuilt";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { z } from "zod/v3";
+import { createChatModel } from "../agent/llm";
+import { finalProposalPrompt } from "./prompts";
+
+const timeSchema = z.object({
+  start: z.string().describe("ISO 8601, copied from a tool result"),
+  end: z.string().describe("ISO 8601, copied from a tool result"),
+});
+
+export const proposalSchema = z.object({
+  status: z.enum(["proposed", "no_slot", "needs_input"]),
+  summary: z.string().describe("One or two sentences for the organizer"),
+  meeting: timeSchema.extend({
+    subject: z.string(),
+    attendees: z.array(z.string()).describe("Required attendee email addresses"),
+    optionalAttendees: z.array(z.string()),
+    reason: z.string().describe("Why this time"),
+  }).nullable().describe("The proposed meeting; null unless status is proposed"),
+  alternatives: z.array(timeSchema.extend({ reason: z.string() })),
+  questions: z.array(z.string()).describe("What the organizer needs to clarify; empty unless status is needs_input"),
+});
+
+export type AgentProposalOutput = z.infer<typeof proposalSchema>;
+
+const SchedulingAgentState = Annotation.Root({
+  ...MessagesAnnotation.spec,
+  steps: Annotation<number>({
+    value: (current, update) => update ?? current,
+    default: () => 0,
+  }),
+  proposal: Annotation<AgentProposalOutput | null>({
+    value: (current, update) => update ?? current,
+    default: () => null,
+  }),
+});
+
+export type SchedulingAgentGraphState = typeof SchedulingAgentState.State;
+
+/**
+ * A tool-calling loop: the model calls tools until it is done or has used maxSteps rounds, then a last call turns
+ * the conversation into a structured proposal. Compiled per request because the tools are bound to the organizer.
+ */
+export const buildSchedulingAgentGraph = (tools: StructuredToolInterface[], systemPrompt: string, maxSteps: number) => {
+  const model = createChatModel(0);
+  const withTools = model.bindTools(tools);
+  const proposer = model.withStructuredOutput(proposalSchema, { name: "scheduling_proposal" });
+
+  const agentNode = async (state: SchedulingAgentGraphState) => {
+    const response = await withTools.invoke([new SystemMessage(systemPrompt), ...state.messages]);
+    return { messages: [response], steps: state.steps + 1 };
+  };
+
+  const proposeNode = async (state: SchedulingAgentGraphState) => {
+    // Tool calls left unanswered at the step limit can't be sent back to the model
+    const messages = state.messages.filter((m: BaseMessage, i: number) =>
+      !(i === state.messages.length - 1 && AIMessage.isInstance(m) && (m.tool_calls?.length ?? 0) > 0)
+    );
+    const proposal = await proposer.invoke([new SystemMessage(systemPrompt), ...messages, new HumanMessage(finalProposalPrompt)]);
+    return { proposal };
+  };
+
+  const next = (state: SchedulingAgentGraphState): "tools" | "propose" => {
+    const last = state.messages[state.messages.length - 1];
+    const wantsTools = AIMessage.isInstance(last) && (last.tool_calls?.length ?? 0) > 0;
+    return wantsTools && state.steps < maxSteps ? "tools" : "propose";
+  };
+
+  return new StateGraph(SchedulingAgentState)
+    .addNode("agent", agentNode)
+    .addNode("tools", new ToolNode(tools))
+    .addNode("propose", proposeNode)
+    .addEdge(START, "agent")
+    .addConditionalEdges("agent", next, { tools: "tools", propose: "propose" })
+    .addEdge("tools", "agent")
+    .addEdge("propose", END)
+    .compile();
+};
@@ -0,0 +1,17 @@
+import { Body, Controller, Post, Request, UseGuards } from '@nestjs/common';
+import { SignedInGuard } from '../auth/signed-in.guard';
+import { SchedulingAgentService } from './scheduling-agent.service';
+import { SchedulingAgentRequestDTO } from './types';
+
+@Controller('scheduling/agent')
+export class SchedulingAgentController {
+  constructor(private agent: SchedulingAgentService) { }
+
+  // Proposes a meeting for a free-form request; nothing is booked. The agent reads calendars (with subjects), so it
+  // only ever works for the signed-in user
+  @Post()
+  @UseGuards(SignedInGuard)
+  async plan(@Body() dto: SchedulingAgentRequestDTO, @Request() req: any) {
+    return this.agent.plan({ ...dto, organizer: req.user.email });
+  }
+}
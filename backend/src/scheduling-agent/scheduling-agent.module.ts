@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { PolicyModule } from '../policy/policy.module';
+import { SchedulingModule } from '../scheduling/scheduling.module';
+import { SchedulingAgentService } from './scheduling-agent.service';
+import { SchedulingAgentController } from './scheduling-agent.controller';
+
+@Module({
+  imports: [PrismaModule, AuthModule, CalendarProvidersModule, PolicyModule, SchedulingModule],
+  controllers: [SchedulingAgentController],
+  providers: [SchedulingAgentService],
+  exports: [SchedulingAgentService],
+})
+export class SchedulingAgentModule { }
@@ -0,0 +1,245 @@
+import { BadRequestException, Inject, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
+import { z } from 'zod/v3';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { PolicyService } from '../policy/policy.service';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import { ScheduleRequestDTO } from '../scheduling/types';
+import { WorkingHoursPolicy } from '../policy/types';
+import { addDaysToDateString, dayOfWeek, formatInTimeZone, toLocalDateString } from '../policy/timezone';
+import { llmConfigured } from '../agent/llm';
+import { AgentProposalOutput, buildSchedulingAgentGraph } from './graph';
+import { schedulingAgentPrompt } from './prompts';
+import { SchedulingToolset, draftEventSchema, findSlotsSchema, schedulingTools } from './tools';
+import { AgentToolCall, ProposedMeeting, SchedulingAgentRequestDTO, SchedulingProposal } from './types';
+const logger = new Logger('SchedulingAgentService');
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// get_schedule reads raw calendars, so keep its windows short
+const MAX_SCHEDULE_WINDOW_DAYS = 14;
+const MAX_PEOPLE_RESULTS = 25;
+
+type DirectoryUser = { email: string; displayName: string | null; department: string | null };
+
+/**
+ * Works through free-form scheduling requests ("an hour with the design leads before the sprint review, avoiding
+ * Fridays") with a tool-calling LangGraph agent. The tools wrap the directory, free/busy, slot search and a draft
+ * check; the agent never books. The result is a structured proposal whose draft can be posted to /scheduling/schedule.
+ */
+@Injectable()
+export class SchedulingAgentService {
+  private maxSteps = parseInt(process.env.SCHEDULING_AGENT_MAX_STEPS || '8', 10);
+
+  constructor(
+    @Inject('PRISMA') private prisma: any,
+    private providers: CalendarProvidersService,
+    private policy: PolicyService,
+    private scheduling: SchedulingService,
+  ) { }
+
+  async plan(dto: SchedulingAgentRequestDTO): Promise<SchedulingProposal> {
+    if (!dto.request?.trim()) throw new BadRequestException('request is required');
+    if (!llmConfigured()) throw new ServiceUnavailableException('The scheduling agent needs an LLM: set LLM_PROVIDER and its API key');
+
+    const organizer = dto.organizer || await this.providers.defaultOrganizer();
+    const policy = await this.policy.getPolicyForUser(organizer);
+    const maxSteps = Math.max(1, Math.min(dto.maxSteps || this.maxSteps, this.maxSteps));
+
+    const drafts: ScheduleRequestDTO[] = [];
+    const graph = buildSchedulingAgentGraph(
+      schedulingTools(this.toolset(organizer, policy, drafts)),
+      schedulingAgentPrompt(organizer, policy, new Date(), maxSteps),
+      maxSteps,
+    );
+    // Each step is an agent turn plus a tool round, and the proposal is one more
+    const result = await graph.invoke({ messages: [new HumanMessage(dto.request)] }, { recursionLimit: maxSteps * 2 + 2 });
+
+    const last = result.messages[result.messages.length - 1];
+    const stepLimitReached = AIMessage.isInstance(last) && (last.tool_calls?.length ?? 0) > 0;
+    const toolCalls = this.toolCalls(stepLimitReached ? result.messages.slice(0, -1) : result.messages);
+    logger.log(`Agent for ${organizer}: ${result.steps} step(s), ${toolCalls.length} tool call(s), ${result.proposal?.status ?? 'no proposal'}${stepLimitReached ? ' (step limit)' : ''}`);
+
+    return this.toProposal(organizer, result.proposal, drafts, {
+      toolCalls,
+      steps: result.steps,
+      stepLimitReached,
+    });
+  }
+
+  private toolCalls(messages: BaseMessage[]): AgentToolCall[] {
+    return messages.flatMap(m => AIMessage.isInstance(m) ? (m.tool_calls ?? []).map(call => ({ tool: call.name, args: call.args })) : []);
+  }
+
+  /**
+   * The model's proposal with the proposed time re-checked and its draft attached
+   */
+  private async toProposal(
+    organizer: string,
+    output: AgentProposalOutput | null,
+    drafts: ScheduleRequestDTO[],
+    run: Pick<SchedulingProposal, 'toolCalls' | 'steps' | 'stepLimitReached'>,
+  ): Promise<SchedulingProposal> {
+    if (!output) {
+      return { status: 'no_slot', summary: 'The agent did not produce a proposal.', meeting: null, alternatives: [], questions: [], draft: null, ...run };
+    }
+
+    let meeting: ProposedMeeting | null = null;
+    let draft: ScheduleRequestDTO | null = null;
+    if (output.status === 'proposed' && output.meeting) {
+      const start = new Date(output.meeting.start);
+      const end = new Date(output.meeting.end);
+      if (!isNaN(start.getTime()) && end > start) {
+        draft = drafts.find(d => Date.parse(d.start) === start.getTime() && Date.parse(d.end) === end.getTime())
+          ?? this.toDraft(organizer, output.meeting.subject, output.meeting.attendees, output.meeting.optionalAttendees, start, end);
+        meeting = {
+          ...output.meeting,
+          start: start.toISOString(),
+          end: end.toISOString(),
+          busyAttendees: await this.scheduling.busyRequiredAttendees(organizer, draft.attendees, start, end),
+        };
+      }
+    }
+
+    return {
+      status: output.status === 'proposed' && !meeting ? 'no_slot' : output.status,
+      summary: output.summary,
+      meeting,
+      alternatives: output.alternatives,
+      questions: output.questions,
+      draft,
+      ...run,
+    };
+  }
+
+  private toDraft(organizer: string, subject: string, attendees: string[], optionalAttendees: string[], start: Date, end: Date, extra: Partial<ScheduleRequestDTO> = {}): ScheduleRequestDTO {
+    return {
+      organizer,
+      subject,
+      attendees: [
+        ...attendees.map(address => ({ emailAddress: { address }, type: 'Required' as const })),
+        ...optionalAttendees.map(address => ({ emailAddress: { address }, type: 'Optional' as const })),
+      ],
+      start: start.toISOString(),
+      end: end.toISOString(),
+      durationMinutes: Math.round((end.getTime() - start.getTime()) / 60000),
+      createIfFree: true,
+      ...extra,
+    };
+  }
+
+  /**
+   * The tools' implementations for one organizer; drafts collects what create_draft_event prepared
+   */
+  private toolset(organizer: string, policy: WorkingHoursPolicy, drafts: ScheduleRequestDTO[]): SchedulingToolset {
+    const local = (date: Date) => formatInTimeZone(date, policy.timeZone, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+    // Directory users from the sync, loaded once per run however often the agent searches
+    let directory: Promise<DirectoryUser[]> | undefined;
+
+    return {
+      lookupPeople: async (query: string) => {
+        const q = query.trim().toLowerCase();
+        if (q.includes('@')) {
+          const provider = this.providers.forUser(q);
+          const group = await provider.expandGroup(q, MAX_PEOPLE_RESULTS);
+          if (group) return { group: { email: q, displayName: group.displayName, members: group.members, truncated: group.truncated } };
+          const user = await provider.findUser(q);
+          return { people: user ? [{ email: user.email, displayName: user.displayName }] : [] };
+        }
+        // Matched in JS because SQLite comparisons are case-sensitive
+        directory ??= this.prisma.user.findMany({
+          where: { deletedAt: null, email: { not: null } },
+          select: { email: true, displayName: true, department: true },
+        }) as Promise<DirectoryUser[]>;
+        const users = await directory;
+        const matches = users.filter((u: any) => [u.displayName, u.email, u.department].some(v => v?.toLowerCase().includes(q)));
+        return { people: matches.slice(0, MAX_PEOPLE_RESULTS), more: Math.max(0, matches.length - MAX_PEOPLE_RESULTS) };
+      },
+
+      getSchedule: async (emails: string[], start: string, end: string) => {
+        const from = new Date(start);
+        const to = new Date(end);
+        if (!(to > from)) throw new Error('end must be after start');
+        if (to.getTime() - from.getTime() > MAX_SCHEDULE_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+          throw new Error(`The window can be at most ${MAX_SCHEDULE_WINDOW_DAYS} days`);
+        }
+        const schedules = await this.providers.getSchedules(organizer, emails, from, to);
+        return schedules.map(s => ({
+          email: s.email,
+          error: s.error,
+          busy: s.items.filter(item => item.status !== 'free').map(item => ({
+            start: item.start.toISOString(),
+            end: item.end.toISOString(),
+            local: `${local(item.start)} - ${formatInTimeZone(item.end, policy.timeZone, { timeStyle: 'short' })}`,
+            status: item.status,
+            subject: item.subject,
+          })),
+        }));
+      },
+
+      findSlots: async (args: z.infer<typeof findSlotsSchema>) => {
+        const window = this.workingWindow(policy, new Date(args.start), new Date(args.end));
+        if (!window) return { slots: [], note: 'The window has no working time left' };
+
+        const result: any = await this.scheduling.suggestSlots({
+          organizer,
+          attendees: this.toDraft(organizer, '', args.attendees, args.optionalAttendees ?? [], window.start, window.end).attendees,
+          start: window.start.toISOString(),
+          end: window.end.toISOString(),
+          durationMinutes: args.durationMinutes,
+          meetingType: args.meetingType,
+          maxCandidates: 10,
+        });
+        const excluded = new Set(args.excludeWeekdays ?? []);
+        const slots = (result.slots ?? []).filter((slot: any) =>
+          !excluded.has(WEEKDAYS[dayOfWeek(toLocalDateString(new Date(slot.start), policy.timeZone))] as any)
+        );
+        return {
+          searched: { start: window.start.toISOString(), end: window.end.toISOString() },
+          slots: slots.map((slot: any) => ({
+            start: slot.start,
+            end: slot.end,
+            local: local(new Date(slot.start)),
+            score: slot.score,
+            reason: slot.reason,
+            optionalAttendees: slot.optionalAttendees,
+          })),
+          droppedOnExcludedDays: (result.slots?.length ?? 0) - slots.length,
+          message: result.message,
+          groups: result.groups,
+          externalAttendees: result.externalAttendees,
+        };
+      },
+
+      draftEvent: async (args: z.infer<typeof draftEventSchema>) => {
+        const start = new Date(args.start);
+        const end = new Date(start.getTime() + args.durationMinutes * 60000);
+        const draft = this.toDraft(organizer, args.subject, args.attendees, args.optionalAttendees ?? [], start, end, {
+          description: args.description,
+          location: args.location,
+          isOnlineMeeting: args.isOnlineMeeting,
+        });
+        const busyAttendees = await this.scheduling.busyRequiredAttendees(organizer, draft.attendees, start, end);
+        drafts.push(draft);
+        return { drafted: true, start: draft.start, end: draft.end, local: local(start), busyAttendees };
+      },
+    };
+  }
+
+  /**
+   * The part of [start, end] that suggestSlots accepts: from the first working time that isn't past, to the end
+   * of the last day's working hours. Null when nothing is left.
+   */
+  private workingWindow(policy: WorkingHoursPolicy, start: Date, end: Date): { start: Date; end: Date } | null {
+    // A little ahead of now, so the window is still in the future when the search checks it
+    const soon = new Date(Math.ceil((Date.now() + 60000) / (15 * 60000)) * 15 * 60000);
+    let from = start > soon ? start : soon;
+    const day = toLocalDateString(from, policy.timeZone);
+    const today = this.policy.getWorkingWindow(policy, day);
+    if (from >= today.end) from = this.policy.getWorkingWindow(policy, addDaysToDateString(day, 1)).start;
+    else if (from < today.start) from = today.start;
+
+    const lastDay = this.policy.getWorkingWindow(policy, toLocalDateString(end, policy.timeZone));
+    const to = end > lastDay.end ? lastDay.end : end;
+    return to > from ? { start: from, end: to } : null;
+  }
+}
@@ -0,0 +1,75 @@
+import { tool } from "@langchain/core/tools";
+import { z } from "zod/v3";
+
+const meetingSchema = {
+  attendees: z.array(z.string().email()).describe("Required attendee email addresses (group addresses are expanded)"),
+  optionalAttendees: z.array(z.string().email()).optional().describe("Optional attendees: they never constrain the time"),
+  durationMinutes: z.number().int().positive().describe("Meeting length in minutes"),
+};
+
+export const findSlotsSchema = z.object({
+  ...meetingSchema,
+  start: z.string().datetime({ offset: true }).describe("Start of the search window (ISO 8601)"),
+  end: z.string().datetime({ offset: true }).describe("End of the search window (ISO 8601)"),
+  excludeWeekdays: z.array(z.enum(["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]))
+    .optional().describe("Drop slots on these days (in the organizer's timezone)"),
+  meetingType: z.string().optional().describe('Meeting type for buffer rules, e.g. "one-on-one", "interview", "external"'),
+});
+
+export const draftEventSchema = z.object({
+  ...meetingSchema,
+  subject: z.string().describe("Meeting subject"),
+  start: z.string().datetime({ offset: true }).describe("Meeting start (ISO 8601)"),
+  description: z.string().optional().describe("Agenda in markdown"),
+  location: z.string().optional(),
+  isOnlineMeeting: z.boolean().optional().describe("Add a Teams link (defaults to the organization setting)"),
+});
+
+/**
+ * What the tools do, bound to one organizer by SchedulingAgentService. Results go back to the model as JSON.
+ */
+export interface SchedulingToolset {
+  lookupPeople(query: string): Promise<unknown>;
+  getSchedule(emails: string[], start: string, end: string): Promise<unknown>;
+  findSlots(args: z.infer<typeof findSlotsSchema>): Promise<unknown>;
+  draftEvent(args: z.infer<typeof draftEventSchema>): Promise<unknown>;
+}
+
+export const schedulingTools = (toolset: SchedulingToolset) => [
+  tool(
+    async ({ query }) => JSON.stringify(await toolset.lookupPeople(query)),
+    {
+      name: "lookup_people",
+      description: "Search the directory by name, email or department, or resolve an address (a group address returns its members). Use it to turn names and teams into email addresses.",
+      schema: z.object({ query: z.string().min(2).describe('A name, department, email address or group address, e.g. "Priya" or "design"') }),
+    },
+  ),
+  tool(
+    async ({ emails, start, end }) => JSON.stringify(await toolset.getSchedule(emails, start, end)),
+    {
+      name: "get_schedule",
+      description: "Busy intervals (organizer's timezone) for each person in a window of up to 14 days. Use it to find existing events such as a sprint review, or to see how loaded a day is.",
+      schema: z.object({
+        emails: z.array(z.string().email()).min(1),
+        start: z.string().datetime({ offset: true }).describe("Window start (ISO 8601)"),
+        end: z.string().datetime({ offset: true }).describe("Window end (ISO 8601)"),
+      }),
+    },
+  ),
+  tool(
+    async args => JSON.stringify(await toolset.findSlots(args)),
+    {
+      name: "find_slots",
+      description: "Ranked free slots in a window where every required attendee (and the organizer) is free, honoring working hours and buffers. The window is clipped to working hours; narrow it to search specific days.",
+      schema: findSlotsSchema,
+    },
+  ),
+  tool(
+    async args => JSON.stringify(await toolset.draftEvent(args)),
+    {
+      name: "create_draft_event",
+      description: "Prepare the meeting you intend to propose and re-check that everyone is free. Nothing is sent or booked; the draft at the time you finally propose becomes the booking request.",
+      schema: draftEventSchema,
+    },
+  ),
+];
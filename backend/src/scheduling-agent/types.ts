@@ -0,0 +1,37 @@
+import { ScheduleRequestDTO } from '../scheduling/types';
+
+export interface SchedulingAgentRequestDTO {
+  request: string;             // e.g. "find an hour with the design leads before the sprint review, avoiding Fridays"
+  organizer?: string;          // MCP only; POST /scheduling/agent always plans for the signed-in user
+  maxSteps?: number;           // capped at SCHEDULING_AGENT_MAX_STEPS
+}
+
+// proposed: a time works for every required attendee; no_slot: nothing fits; needs_input: the request is ambiguous
+export type ProposalStatus = 'proposed' | 'no_slot' | 'needs_input';
+
+export interface ProposedMeeting {
+  subject: string;
+  start: string;
+  end: string;
+  attendees: string[];
+  optionalAttendees: string[];
+  reason: string;
+  busyAttendees: string[];     // re-checked after the agent finished; empty when the time is still free
+}
+
+export interface AgentToolCall {
+  tool: string;
+  args: any;
+}
+
+export interface SchedulingProposal {
+  status: ProposalStatus;
+  summary: string;
+  meeting: ProposedMeeting | null;
+  alternatives: { start: string; end: string; reason: string }[];
+  questions: string[];         // what the agent needs to know when it couldn't decide
+  draft: ScheduleRequestDTO | null;  // POST to /scheduling/schedule to book the proposed meeting
+  toolCalls: AgentToolCall[];
+  steps: number;
+  stepLimitReached: boolean;
+}
@@ -0,0 +1,25 @@
+import { BadRequestException } from '@nestjs/common';
+import { Attendee } from './types';
+
+const TYPES: NonNullable<Attendee['type']>[] = ['Required', 'Optional', 'Resource'];
+
+/**
+ * Request attendees in one shape, { emailAddress: { address, name? }, type }. Bare addresses (as the agent and MCP
+ * tools pass them) become required attendees; a missing or lowercase type is normalized as Graph would read it.
+ */
+export function normalizeAttendees(attendees: unknown): Attendee[] {
+  if (attendees === undefined || attendees === null) return [];
+  if (!Array.isArray(attendees)) throw new BadRequestException('attendees must be an array');
+
+  return attendees.map((attendee: any, i) => {
+    const address = typeof attendee === 'string' ? attendee : attendee?.emailAddress?.address;
+    if (typeof address !== 'string' || !address.trim()) {
+      throw new BadRequestException(`attendees[${i}] needs an email address`);
+    }
+    const type = TYPES.find(t => t.toLowerCase() === String(attendee?.type ?? 'Required').toLowerCase());
+    if (!type) throw new BadRequestException(`attendees[${i}] has an unknown type: ${attendee.type}`);
+
+    const name = attendee?.emailAddress?.name;
+    return { emailAddress: name ? { address: address.trim(), name } : { address: address.trim() }, type };
+  });
+}
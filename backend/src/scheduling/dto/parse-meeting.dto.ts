@@ -4,7 +4,8 @@ export class ParseMeetingRequestDto {
 
 export interface ParsedMeetingDetails {
     subject: string;
-    attendees: string[];
+    attendees: string[];          // required attendees
+    optionalAttendees?: string[]; // availability reported but not enforced
     startTime: string; // ISO 8601 format
     endTime: string;   // ISO 8601 format
     duration?: number; // in minutes
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildEventBody, markdownToHtml } from './event-body';
+
+describe('markdownToHtml', () => {
+  it('renders headings, lists, paragraphs and inline formatting', () => {
+    const html = markdownToHtml([
+      '# Agenda',
+      'Quick **sync** on the _launch_, see `plan_v2.md`',
+      'and [the doc](https://example.com/a_b_c).',
+      '',
+      '- Budget',
+      '- *Hiring*',
+      '1. Wrap up',
+    ].join('\n'));
+    assert.equal(html, [
+      '<h3>Agenda</h3>',
+      '<p>Quick <strong>sync</strong> on the <em>launch</em>, see <code>plan_v2.md</code><br>and <a href="https://example.com/a_b_c">the doc</a>.</p>',
+      '<ul><li>Budget</li><li><em>Hiring</em></li></ul>',
+      '<ol><li>Wrap up</li></ol>',
+    ].join('\n'));
+  });
+
+  it('shows script tags and raw HTML as text', () => {
+    assert.equal(markdownToHtml('<script>alert(1)</script>'), '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>');
+    assert.equal(markdownToHtml('<img src=x onerror="alert(1)">'), '<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>');
+    assert.equal(markdownToHtml('- <b onclick=\'x()\'>hi</b>'), '<ul><li>&lt;b onclick=&#39;x()&#39;&gt;hi&lt;/b&gt;</li></ul>');
+  });
+
+  it('keeps only the text of links that are not http, https or mailto', () => {
+    assert.equal(markdownToHtml('[click](javascript:alert(1))'), '<p>click)</p>');
+    assert.equal(markdownToHtml('[click](JavaScript:void)'), '<p>click</p>');
+    assert.equal(markdownToHtml('[click](javascript&#58;alert)'), '<p>click</p>');
+    assert.equal(markdownToHtml('[img](data:text/html;base64,PHNjcmlwdD4=)'), '<p>img</p>');
+    assert.equal(markdownToHtml('[x](vbscript:msgbox)'), '<p>x</p>');
+    assert.equal(markdownToHtml('[mail](mailto:ana@contoso.com)'), '<p><a href="mailto:ana@contoso.com">mail</a></p>');
+  });
+
+  it('keeps quotes in link URLs and text from breaking out of the attribute', () => {
+    const html = markdownToHtml('[a" onmouseover="x](https://example.com/"onmouseover="alert(1))');
+    assert.equal(html, '<p><a href="https://example.com/&quot;onmouseover=&quot;alert(1">a&quot; onmouseover=&quot;x</a>)</p>');
+    assert.ok(!/href="[^"]*"[^>]*onmouseover/.test(html));
+    assert.equal(markdownToHtml("[x](https://example.com/'><script>)"), '<p><a href="https://example.com/&#39;&gt;&lt;script&gt;">x</a></p>');
+  });
+
+  it('does not let placeholder characters in the input reach the output', () => {
+    assert.equal(markdownToHtml('a\u00000\u0000 `b`'), '<p>a0 <code>b</code></p>');
+  });
+});
+
+describe('buildEventBody', () => {
+  it('puts the agenda before the footer, and just the footer without one', () => {
+    assert.equal(buildEventBody('Hello').content, '<p>Hello</p>\n<p>Meeting scheduled via Agentic Scheduler.</p>');
+    assert.deepEqual(buildEventBody('  '), { contentType: 'HTML', content: '<p>Meeting scheduled via Agentic Scheduler.</p>' });
+  });
+});
@@ -0,0 +1,90 @@
+// Footer kept on every invite so attendees can tell where it came from
+const FOOTER = '<p>Meeting scheduled via Agentic Scheduler.</p>';
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Marks a code span or link set aside while emphasis is rendered
+const HELD = /\u0000(\d+)\u0000/g;
+
+function renderEmphasis(escaped: string): string {
+  return escaped
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+    .replace(/(^|\W)_([^_\s][^_]*)_(?=\W|$)/g, '$1<em>$2</em>');
+}
+
+/**
+ * Inline markdown on already-escaped text: code, links (http, https and mailto only), bold, italic.
+ * Code spans and links are rendered first and held out of the emphasis pass, so `_` and `*` in code and URLs stay as
+ * they are.
+ */
+function renderInline(escaped: string): string {
+  const held: string[] = [];
+  const hold = (html: string) => `\u0000${held.push(html) - 1}\u0000`;
+  const restore = (html: string): string => html.replace(HELD, (match, i) => restore(held[Number(i)]));
+  const text = escaped
+    .replace(/\u0000/g, '')
+    .replace(/`([^`]+)`/g, (match, code) => hold(`<code>${code}</code>`))
+    .replace(/\[([^\]]+)\]\(([^)\s\u0000]+)\)/g, (match, label, url) =>
+      SAFE_URL.test(url) ? hold(`<a href="${url}">${renderEmphasis(label)}</a>`) : label);
+  return restore(renderEmphasis(text));
+}
+
+/**
+ * Convert a small markdown subset (headings, lists, paragraphs, inline formatting) to HTML.
+ * All input is escaped first, so raw HTML in the agenda is shown as text, never rendered.
+ */
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length) html.push(`<p>${paragraph.map(renderInline).join('<br>')}</p>`);
+    if (list) html.push(`<${list.tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+    paragraph = [];
+    list = null;
+  };
+
+  for (const raw of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = escapeHtml(raw.trim());
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      const level = heading[1].length + 2; // # -> h3, so the agenda never outranks the invite itself
+      html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+    } else if (bullet || numbered) {
+      const tag = bullet ? 'ul' : 'ol';
+      if (paragraph.length || (list && list.tag !== tag)) flush();
+      if (!list) list = { tag, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else {
+      if (list) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return html.join('\n');
+}
+
+/**
+ * HTML event body (Graph, Google): the user's agenda (markdown) followed by the standard footer
+ */
+export function buildEventBody(description?: string) {
+  const agenda = description?.trim() ? markdownToHtml(description) + '\n' : '';
+  return { contentType: 'HTML', content: `${agenda}${FOOTER}` };
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod/v3';
+import { isoDateTime } from '../agent/validation';
+
+// Attendees are addresses, except in conversations, which resolve names against the directory afterwards
+const email = z.string().trim().email();
+const nameOrEmail = z.string().trim().min(1);
+
+// The LLM emits null for fields that don't apply, so optional fields accept null as well as absence
+const detailsSchema = (person: typeof nameOrEmail) => z.object({
+  subject: z.string().nullish(),
+  attendees: z.array(person).nullish(),
+  optionalAttendees: z.array(person).nullish(),
+  startTime: isoDateTime,
+  endTime: isoDateTime,
+  duration: z.number().int().positive().nullish(),
+  recurrence: z.object({
+    pattern: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z.number().int().positive().nullish(),
+    daysOfWeek: z.array(z.string().toLowerCase().pipe(z.enum(['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']))).nullish(),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be YYYY-MM-DD').nullish(),
+    occurrences: z.number().int().positive().nullish(),
+  }).nullish(),
+  room: z.object({
+    capacity: z.number().int().positive().nullish(),
+    building: z.string().nullish(),
+    equipment: z.array(z.string()).nullish(),
+  }).nullish(),
+  isOnlineMeeting: z.boolean().nullish(),
+  location: z.string().nullish(),
+  description: z.string().nullish(),
+}).refine(details => Date.parse(details.endTime) > Date.parse(details.startTime), { message: 'must be after startTime', path: ['endTime'] });
+
+/**
+ * Meeting details as the natural-language parser must return them (see extractMeetingDraft's prompt)
+ */
+export const meetingDetailsSchema = detailsSchema(email);
+
+/**
+ * The same for conversations, where attendees may also be names
+ */
+export const meetingDetailsWithNamesSchema = detailsSchema(nameOrEmail);
+
+export type MeetingDetails = z.infer<typeof meetingDetailsWithNamesSchema>;
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { expandOccurrences, toGraphRecurrence } from './recurrence';
+import { RecurrenceDTO } from './types';
+
+const FAR = new Date('2040-01-01T00:00:00Z');
+const starts = (recurrence: RecurrenceDTO, start: string, timeZone = 'UTC', horizonEnd = FAR) =>
+  expandOccurrences(recurrence, new Date(start), new Date(new Date(start).getTime() + 30 * 60000), timeZone, horizonEnd)
+    .map(o => o.start.toISOString());
+
+describe('expandOccurrences', () => {
+  it('repeats a daily series every `interval` days', () => {
+    assert.deepEqual(starts({ pattern: 'daily', interval: 2, occurrences: 3 }, '2030-01-07T09:00:00Z'), [
+      '2030-01-07T09:00:00.000Z', '2030-01-09T09:00:00.000Z', '2030-01-11T09:00:00.000Z',
+    ]);
+  });
+
+  it('runs a weekly series on each of its days, skipping days before the first occurrence', () => {
+    // Starts on a Wednesday: that week's Monday is before the series and isn't an occurrence
+    const weekly = { pattern: 'weekly', daysOfWeek: ['monday', 'wednesday', 'friday'], endDate: '2030-01-21' } as RecurrenceDTO;
+    assert.deepEqual(starts(weekly, '2030-01-09T15:00:00Z'), [
+      '2030-01-09T15:00:00.000Z', '2030-01-11T15:00:00.000Z',
+      '2030-01-14T15:00:00.000Z', '2030-01-16T15:00:00.000Z', '2030-01-18T15:00:00.000Z',
+      '2030-01-21T15:00:00.000Z',
+    ]);
+  });
+
+  it('skips the interval\'s off weeks for a weekly series', () => {
+    const weekly = { pattern: 'weekly', interval: 2, daysOfWeek: ['tuesday', 'thursday'], occurrences: 4 } as RecurrenceDTO;
+    assert.deepEqual(starts(weekly, '2030-01-08T10:00:00Z'), [
+      '2030-01-08T10:00:00.000Z', '2030-01-10T10:00:00.000Z', '2030-01-22T10:00:00.000Z', '2030-01-24T10:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the day for a monthly series', () => {
+    assert.deepEqual(starts({ pattern: 'monthly', occurrences: 4 }, '2030-01-31T09:00:00Z'), [
+      '2030-01-31T09:00:00.000Z', '2030-03-31T09:00:00.000Z', '2030-05-31T09:00:00.000Z', '2030-07-31T09:00:00.000Z',
+    ]);
+  });
+
+  it('repeats a yearly series on the same date, and only in leap years from February 29', () => {
+    assert.deepEqual(starts({ pattern: 'yearly', occurrences: 3 }, '2030-06-15T09:00:00Z'), [
+      '2030-06-15T09:00:00.000Z', '2031-06-15T09:00:00.000Z', '2032-06-15T09:00:00.000Z',
+    ]);
+    assert.deepEqual(starts({ pattern: 'yearly', occurrences: 2 }, '2028-02-29T09:00:00Z'), [
+      '2028-02-29T09:00:00.000Z', '2032-02-29T09:00:00.000Z',
+    ]);
+  });
+
+  it('stops at the horizon for an open-ended series, and at the end date when that comes first', () => {
+    const horizon = new Date('2030-01-10T00:00:00Z');
+    assert.equal(starts({ pattern: 'daily' }, '2030-01-07T09:00:00Z', 'UTC', horizon).length, 3);
+    assert.equal(starts({ pattern: 'daily', endDate: '2030-01-08' }, '2030-01-07T09:00:00Z', 'UTC', horizon).length, 2);
+  });
+
+  it('keeps the organizer\'s wall-clock time across a DST change', () => {
+    // 09:00 in New York is 14:00Z in winter and 13:00Z once DST starts on 2030-03-10
+    assert.deepEqual(starts({ pattern: 'weekly', occurrences: 3 }, '2030-03-04T14:00:00Z', 'America/New_York'), [
+      '2030-03-04T14:00:00.000Z', '2030-03-11T13:00:00.000Z', '2030-03-18T13:00:00.000Z',
+    ]);
+  });
+
+  it('uses the local date in the organizer\'s timezone, not the UTC one', () => {
+    // 23:30 in Los Angeles on Monday is already Tuesday in UTC
+    const weekly = { pattern: 'weekly', occurrences: 2 } as RecurrenceDTO;
+    assert.deepEqual(starts(weekly, '2030-01-08T07:30:00Z', 'America/Los_Angeles'), [
+      '2030-01-08T07:30:00.000Z', '2030-01-15T07:30:00.000Z',
+    ]);
+  });
+});
+
+describe('toGraphRecurrence', () => {
+  const start = new Date('2030-01-08T07:30:00Z'); // Monday 23:30 in Los Angeles
+
+  it('builds the pattern for each series type from the local first occurrence', () => {
+    const tz = 'America/Los_Angeles';
+    assert.deepEqual(toGraphRecurrence({ pattern: 'daily', interval: 3 }, start, tz).pattern, { type: 'daily', interval: 3 });
+    assert.deepEqual(toGraphRecurrence({ pattern: 'weekly', daysOfWeek: ['Monday', 'thursday'] }, start, tz).pattern,
+      { type: 'weekly', interval: 1, daysOfWeek: ['monday', 'thursday'], firstDayOfWeek: 'sunday' });
+    assert.deepEqual(toGraphRecurrence({ pattern: 'weekly' }, start, tz).pattern.daysOfWeek, ['monday']);
+    assert.deepEqual(toGraphRecurrence({ pattern: 'monthly' }, start, tz).pattern, { type: 'absoluteMonthly', interval: 1, dayOfMonth: 7 });
+    assert.deepEqual(toGraphRecurrence({ pattern: 'yearly', interval: 2 }, start, tz).pattern,
+      { type: 'absoluteYearly', interval: 2, month: 1, dayOfMonth: 7 });
+  });
+
+  it('picks the range from the occurrence count, the end date or neither', () => {
+    const tz = 'Asia/Kolkata';
+    assert.deepEqual(toGraphRecurrence({ pattern: 'daily', occurrences: 5 }, start, tz).range,
+      { type: 'numbered', startDate: '2030-01-08', numberOfOccurrences: 5, recurrenceTimeZone: tz });
+    assert.deepEqual(toGraphRecurrence({ pattern: 'daily', endDate: '2030-02-01' }, start, tz).range,
+      { type: 'endDate', startDate: '2030-01-08', endDate: '2030-02-01', recurrenceTimeZone: tz });
+    assert.deepEqual(toGraphRecurrence({ pattern: 'daily' }, start, tz).range,
+      { type: 'noEnd', startDate: '2030-01-08', recurrenceTimeZone: tz });
+  });
+});
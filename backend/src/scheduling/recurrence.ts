@@ -0,0 +1,173 @@
+import { BadRequestException } from '@nestjs/common';
+import { RecurrenceDTO } from './types';
+import { addDaysToDateString, dayOfWeek, getZonedParts, toLocalDateString, zonedTimeToUtc } from '../policy/timezone';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Hard cap so an open-ended series can never expand without bound
+const MAX_OCCURRENCES = 500;
+
+export interface Occurrence { start: Date; end: Date; }
+
+/**
+ * Normalize the days of a weekly pattern; defaults to the weekday of the first occurrence.
+ */
+function weeklyDays(recurrence: RecurrenceDTO, firstLocalDate: string): number[] {
+  const days = (recurrence.daysOfWeek || [])
+    .map(d => WEEKDAYS.indexOf(d.toLowerCase()))
+    .filter(d => d >= 0);
+  return days.length > 0 ? Array.from(new Set(days)).sort((a, b) => a - b) : [dayOfWeek(firstLocalDate)];
+}
+
+function localTimeOf(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Reject malformed series; `start` is the first occurrence, so an endDate before its local date is refused too
+ */
+export function validateRecurrence(recurrence: RecurrenceDTO, start: Date, timeZone: string) {
+  if (!['daily', 'weekly', 'monthly', 'yearly'].includes(recurrence.pattern)) {
+    throw new BadRequestException(`Unsupported recurrence pattern: ${recurrence.pattern}`);
+  }
+  if (recurrence.interval !== undefined && (!Number.isInteger(recurrence.interval) || recurrence.interval < 1)) {
+    throw new BadRequestException('Recurrence interval must be a positive integer');
+  }
+  if (recurrence.occurrences !== undefined && (!Number.isInteger(recurrence.occurrences) || recurrence.occurrences < 1)) {
+    throw new BadRequestException('Recurrence occurrences must be a positive integer');
+  }
+  if (recurrence.endDate && !/^\d{4}-\d{2}-\d{2}$/.test(recurrence.endDate)) {
+    throw new BadRequestException('Recurrence endDate must be in YYYY-MM-DD format');
+  }
+  if (recurrence.endDate && !isNaN(start.getTime()) && recurrence.endDate < toLocalDateString(start, timeZone)) {
+    throw new BadRequestException(`Recurrence endDate ${recurrence.endDate} is before the series starts (${toLocalDateString(start, timeZone)})`);
+  }
+  const unknownDays = (recurrence.daysOfWeek || []).filter(d => !WEEKDAYS.includes(d.toLowerCase()));
+  if (unknownDays.length > 0) {
+    throw new BadRequestException(`Unknown days of week: ${unknownDays.join(', ')}`);
+  }
+}
+
+/**
+ * Weekday names a weekly series runs on (the first occurrence's weekday when none are given); undefined for other patterns
+ */
+export function resolveDaysOfWeek(recurrence: RecurrenceDTO, start: Date, timeZone: string): string[] | undefined {
+  if (recurrence.pattern !== 'weekly') return undefined;
+  return weeklyDays(recurrence, toLocalDateString(start, timeZone)).map(d => WEEKDAYS[d]);
+}
+
+/**
+ * Build a Graph patternedRecurrence for an event whose first occurrence starts at `start`.
+ * Dates are expressed in the organizer's timezone so the series keeps its wall-clock time across DST.
+ */
+export function toGraphRecurrence(recurrence: RecurrenceDTO, start: Date, timeZone: string) {
+  const startDate = toLocalDateString(start, timeZone);
+  const interval = recurrence.interval || 1;
+
+  let pattern: any;
+  if (recurrence.pattern === 'daily') {
+    pattern = { type: 'daily', interval };
+  } else if (recurrence.pattern === 'weekly') {
+    pattern = {
+      type: 'weekly',
+      interval,
+      daysOfWeek: resolveDaysOfWeek(recurrence, start, timeZone),
+      firstDayOfWeek: 'sunday',
+    };
+  } else if (recurrence.pattern === 'monthly') {
+    pattern = { type: 'absoluteMonthly', interval, dayOfMonth: getZonedParts(start, timeZone).day };
+  } else {
+    const { month, day } = getZonedParts(start, timeZone);
+    pattern = { type: 'absoluteYearly', interval, month, dayOfMonth: day };
+  }
+
+  let range: any;
+  if (recurrence.occurrences) {
+    range = { type: 'numbered', startDate, numberOfOccurrences: recurrence.occurrences, recurrenceTimeZone: timeZone };
+  } else if (recurrence.endDate) {
+    range = { type: 'endDate', startDate, endDate: recurrence.endDate, recurrenceTimeZone: timeZone };
+  } else {
+    range = { type: 'noEnd', startDate, recurrenceTimeZone: timeZone };
+  }
+
+  return { pattern, range };
+}
+
+/**
+ * Expand a series into concrete occurrences, mirroring Graph's semantics:
+ * weekly patterns repeat every `interval` weeks (weeks start on Sunday), monthly and yearly patterns skip
+ * months that don't have the day (a yearly series from February 29 only falls in leap years). Expansion stops at the series end, `horizonEnd`, or MAX_OCCURRENCES.
+ */
+export function expandOccurrences(recurrence: RecurrenceDTO, start: Date, end: Date, timeZone: string, horizonEnd: Date): Occurrence[] {
+  const durationMs = end.getTime() - start.getTime();
+  const firstDate = toLocalDateString(start, timeZone);
+  const time = localTimeOf(start, timeZone);
+  const interval = recurrence.interval || 1;
+  const limit = Math.min(recurrence.occurrences || MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  const occurrences: Occurrence[] = [];
+  // Returns false once the series (or the horizon) is exhausted
+  const push = (localDate: string): boolean => {
+    if (recurrence.endDate && localDate > recurrence.endDate) return false;
+    const occStart = zonedTimeToUtc(localDate, time, timeZone);
+    if (occStart > horizonEnd) return false;
+    occurrences.push({ start: occStart, end: new Date(occStart.getTime() + durationMs) });
+    return occurrences.length < limit;
+  };
+
+  if (recurrence.pattern === 'daily') {
+    for (let i = 0; ; i++) {
+      if (!push(addDaysToDateString(firstDate, i * interval))) break;
+    }
+  } else if (recurrence.pattern === 'weekly') {
+    const days = weeklyDays(recurrence, firstDate);
+    const weekStart = addDaysToDateString(firstDate, -dayOfWeek(firstDate));
+    outer:
+    for (let w = 0; ; w++) {
+      for (const d of days) {
+        const localDate = addDaysToDateString(weekStart, w * 7 * interval + d);
+        if (localDate < firstDate) continue;
+        if (!push(localDate)) break outer;
+      }
+    }
+  } else {
+    const [y, m, day] = firstDate.split('-').map(n => parseInt(n, 10));
+    const months = recurrence.pattern === 'yearly' ? 12 * interval : interval;
+    for (let i = 0; i < MAX_OCCURRENCES * months; i += months) {
+      const candidate = new Date(Date.UTC(y, m - 1 + i, day));
+      // Month doesn't have this day (e.g. the 31st) - Graph skips it
+      if (candidate.getUTCDate() !== day) continue;
+      if (!push(candidate.toISOString().split('T')[0])) break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * The same series with its first occurrence moved from `oldStart` to `newStart`.
+ * A weekly series that only ran on the old weekday follows the meeting to the new weekday.
+ */
+export function moveRecurrence(recurrence: RecurrenceDTO, oldStart: Date, newStart: Date, timeZone: string): RecurrenceDTO {
+  if (recurrence.pattern !== 'weekly') return recurrence;
+  const oldDay = dayOfWeek(toLocalDateString(oldStart, timeZone));
+  const days = weeklyDays(recurrence, toLocalDateString(oldStart, timeZone));
+  if (days.length !== 1 || days[0] !== oldDay) return recurrence;
+  return { ...recurrence, daysOfWeek: [WEEKDAYS[dayOfWeek(toLocalDateString(newStart, timeZone))]] };
+}
+
+/**
+ * Short human-readable description, e.g. "weekly on tuesday, 6 occurrences".
+ */
+export function describeRecurrence(recurrence: RecurrenceDTO): string {
+  const every = recurrence.interval && recurrence.interval > 1 ? `every ${recurrence.interval} ` : '';
+  const unit = { daily: 'days', weekly: 'weeks', monthly: 'months', yearly: 'years' }[recurrence.pattern];
+  let text = every ? `${every}${unit}` : recurrence.pattern;
+  if (recurrence.pattern === 'weekly' && recurrence.daysOfWeek?.length) {
+    text += ` on ${recurrence.daysOfWeek.join(', ')}`;
+  }
+  if (recurrence.occurrences) text += `, ${recurrence.occurrences} occurrences`;
+  else if (recurrence.endDate) text += `, until ${recurrence.endDate}`;
+  return text;
+}
@@ -1,7 +1,9 @@
-import { Body, Controller, Post, UseGuards, Request } from '@nestjs/common';
+import { Body, Controller, Get, Headers, Param, ParseIntPipe, Patch, Post, Query, Res, UseGuards, Request } from '@nestjs/common';
+import { Response } from 'express';
 import { SchedulingService } from './scheduling.service';
-import { SuggestRequestDTO, ScheduleRequestDTO } from './types';
+import { CancelMeetingDTO, RescheduleRequestDTO, SuggestRequestDTO, ScheduleRequestDTO, UpdateMeetingDTO } from './types';
 import { OptionalAzureADGuard } from '../auth/optional-azure-ad.guard';
+import { SignedInGuard } from '../auth/signed-in.guard';
 
 @Controller('scheduling')
 export class SchedulingController {
@@ -18,7 +20,7 @@ export class SchedulingController {
 
   @Post('schedule')
   @UseGuards(OptionalAzureADGuard)
-  async schedule(@Body() dto: ScheduleRequestDTO, @Request() req: any) {
+  async schedule(@Body() dto: ScheduleRequestDTO, @Headers('idempotency-key') idempotencyKey: string | undefined, @Request() req: any) {
     // If user is authenticated, use their email from JWT token
     // Otherwise, system will auto-detect from Graph API
     const userEmail = req.user?.email;
@@ -28,6 +30,7 @@ export class SchedulingController {
       dto.organizer = userEmail;
       console.log('✅ Set organizer to signed-in user:', dto.organizer);
     }
+    if (idempotencyKey) dto.idempotencyKey = idempotencyKey;
     return this.svc.scheduleMeeting(dto);
   }
 
@@ -37,4 +40,43 @@ export class SchedulingController {
     const userEmail = req.user?.email;
     return this.svc.parseNaturalLanguage(dto.naturalLanguageInput, userEmail);
   }
+
+  @Get('meetings')
+  @UseGuards(SignedInGuard)
+  async listMeetings(@Query('status') status: string, @Request() req: any) {
+    return this.svc.listMeetings(req.user.email, status);
+  }
+
+  @Get('meetings/:id')
+  @UseGuards(SignedInGuard)
+  async getMeeting(@Param('id', ParseIntPipe) id: number, @Request() req: any) {
+    return this.svc.getMeeting(id, req.user.email);
+  }
+
+  @Get('meetings/:id/ics')
+  @UseGuards(SignedInGuard)
+  async getMeetingIcs(@Param('id', ParseIntPipe) id: number, @Request() req: any, @Res() res: Response) {
+    const ics = await this.svc.getMeetingIcs(id, req.user.email);
+    res.setHeader('Content-Type', `text/calendar; charset=utf-8; method=${ics.method}`);
+    res.setHeader('Content-Disposition', `attachment; filename="${ics.filename}"`);
+    res.send(ics.content);
+  }
+
+  @Post('meetings/:id/reschedule')
+  @UseGuards(SignedInGuard)
+  async reschedule(@Param('id', ParseIntPipe) id: number, @Body() dto: RescheduleRequestDTO, @Request() req: any) {
+    return this.svc.rescheduleMeeting(id, dto, req.user.email);
+  }
+
+  @Patch('meetings/:id')
+  @UseGuards(SignedInGuard)
+  async update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateMeetingDTO, @Request() req: any) {
+    return this.svc.updateMeeting(id, dto, req.user.email);
+  }
+
+  @Post('meetings/:id/cancel')
+  @UseGuards(SignedInGuard)
+  async cancel(@Param('id', ParseIntPipe) id: number, @Body() dto: CancelMeetingDTO, @Request() req: any) {
+    return this.svc.cancelMeeting(id, dto || {}, req.user.email);
+  }
 }
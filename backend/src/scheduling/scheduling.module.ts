@@ -1,14 +1,21 @@
 import { Module } from '@nestjs/common';
 import { SchedulingService } from './scheduling.service';
 import { SchedulingController } from './scheduling.controller';
-import { GraphModule } from '../graph/graph.module';
 import { AuthModule } from '../auth/auth.module';
 import { AgentModule } from '../agent/agent.module';
+import { PolicyModule } from '../policy/policy.module';
+import { AvailabilityModule } from '../availability/availability.module';
+import { RoomsModule } from '../rooms/rooms.module';
+import { MeetingsModule } from '../meetings/meetings.module';
+import { LockingModule } from '../locking/locking.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { CalendarFeedsModule } from '../calendar-feeds/calendar-feeds.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
 import { PrismaModule } from '../prisma/prisma.module';
 import { HttpModule } from '@nestjs/axios';
 
 @Module({
-  imports: [HttpModule, PrismaModule, GraphModule, AuthModule, AgentModule],
+  imports: [HttpModule, PrismaModule, AuthModule, AgentModule, PolicyModule, AvailabilityModule, RoomsModule, MeetingsModule, LockingModule, IdempotencyModule, CalendarFeedsModule, CalendarProvidersModule],
   controllers: [SchedulingController],
   providers: [SchedulingService],
   exports: [SchedulingService],
@@ -1,19 +1,53 @@
-import { Injectable, Logger, Inject } from '@nestjs/common';
-import { GraphClient } from '../graph/graph.client';
+import { BadRequestException, ForbiddenException, HttpException, Injectable, Logger, Inject, NotFoundException, UnprocessableEntityException } from '@nestjs/common';
 import { UserSyncService } from '../user-sync/user-sync.service';
 import { AgentService } from '../agent/agent.service';
+import { PolicyService } from '../policy/policy.service';
+import { AvailabilityService } from '../availability/availability.service';
+import { RoomsService } from '../rooms/rooms.service';
+import { MeetingStoreService } from '../meetings/meeting-store.service';
+import { BookingLockService } from '../locking/booking-lock.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { CalendarFeedsService } from '../calendar-feeds/calendar-feeds.service';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { mapConcurrently } from '../calendar-providers/concurrency';
+import { CalendarEvent, CalendarEventInput, CalendarEventPatch, DirectoryGroup, EventAttendee } from '../calendar-providers/types';
+import { AttendeeRecord } from '../meetings/types';
+import { buildIcs, meetingToIcsEvent } from '../meetings/ics-writer';
+import { RoomAssignment, RoomRequest } from '../rooms/types';
+import { overlapsAny, parseGraphDateTime } from '../availability/availability-engine';
+import { Interval } from '../availability/types';
+import { BufferPolicy, WorkingHoursPolicy } from '../policy/types';
+import type { RankingContext } from '../agent/graph/state';
+import { addDaysToDateString, formatInTimeZone, getTimeZoneOffsetMinutes, toLocalDateString, zonedTimeToUtc } from '../policy/timezone';
+import { Attendee, CancelMeetingDTO, ExpandedGroup, MeetingDraft, OptionalAttendeeAvailability, RankedSlot, RecurrenceConflict, RecurrenceDTO, RescheduleRequestDTO, Slot, UpdateMeetingDTO } from './types';
+import { normalizeAttendees } from './attendees';
+import { Occurrence, describeRecurrence, expandOccurrences, moveRecurrence, resolveDaysOfWeek, validateRecurrence } from './recurrence';
+import { meetingDetailsSchema, meetingDetailsWithNamesSchema, MeetingDetails } from './meeting-details';
+import { parseJson, repairAttempts, repairPrompt } from '../agent/validation';
 import OpenAI from 'openai';
 const logger = new Logger('SchedulingService');
 
+// Used when the caller gives a search window but no meeting length
+const DEFAULT_DURATION_MINUTES = 60;
+// Candidates the ranking agent chooses from (it sees at least as many as will be returned)
+const MAX_RANKED_CANDIDATES = 10;
+
 @Injectable()
 export class SchedulingService {
   private openai: OpenAI;
 
   constructor(
     @Inject('PRISMA') private prisma: any,
-    private graph: GraphClient,
     private agent: AgentService,
     private userSync: UserSyncService,
+    private policy: PolicyService,
+    private availability: AvailabilityService,
+    private rooms: RoomsService,
+    private meetings: MeetingStoreService,
+    private bookingLocks: BookingLockService,
+    private idempotency: IdempotencyService,
+    private calendarFeeds: CalendarFeedsService,
+    private providers: CalendarProvidersService,
   ) {
     // Initialize OpenAI client
     this.openai = new OpenAI({
@@ -21,36 +55,23 @@ export class SchedulingService {
     });
   }
 
-  private extractSlots(findResult: any) {
-    return (findResult?.meetingTimeSuggestions || []).map((s: any) => ({
-      start: s.meetingTimeSlot?.start?.dateTime,
-      end: s.meetingTimeSlot?.end?.dateTime,
-      available: true,
-    }));
-  }
-
   /**
    * Determine if an email belongs to an internal user (same organization)
    * You can customize this logic based on your organization's domain(s)
    */
   private isInternalUser(email: string, organizerEmail: string): boolean {
-    // Extract domain from organizer email
-    const organizerDomain = organizerEmail.split('@')[1];
-    const userDomain = email.split('@')[1];
-
-    // Check if domains match
-    return userDomain === organizerDomain;
+    return this.providers.isInternal(email, organizerEmail);
   }
 
   /**
    * Separate attendees into internal and external users
    */
-  private categorizeAttendees(attendees: any[], organizerEmail: string) {
-    const internal: any[] = [];
-    const external: any[] = [];
+  private categorizeAttendees(attendees: Attendee[], organizerEmail: string) {
+    const internal: Attendee[] = [];
+    const external: Attendee[] = [];
 
     attendees.forEach(attendee => {
-      const email = attendee.emailAddress?.address || attendee;
+      const email = attendee.emailAddress.address;
       if (this.isInternalUser(email, organizerEmail)) {
         internal.push(attendee);
       } else {
@@ -61,53 +82,331 @@ export class SchedulingService {
     return { internal, external };
   }
 
+  /**
+   * Attendees whose availability can be checked: internal ones, plus external ones with an iCalendar feed
+   */
+  private async checkableAttendees(internal: Attendee[], external: Attendee[]): Promise<Attendee[]> {
+    const withFeeds = await this.calendarFeeds.emailsWithFeeds(external.map(a => a.emailAddress.address));
+    return [...internal, ...external.filter(a => withFeeds.has(a.emailAddress.address.toLowerCase()))];
+  }
+
+  private groupExpansionLimit(): number {
+    return parseInt(process.env.GROUP_EXPANSION_LIMIT || '50', 10);
+  }
+
+  /**
+   * Replace group addresses (distribution lists, Microsoft 365 or Google groups) by their members, who inherit the
+   * group's attendee type. Only feeds availability checks: the group itself stays the invite recipient.
+   */
+  private async expandGroupAttendees(attendees: Attendee[]): Promise<{ attendees: Attendee[]; groups: ExpandedGroup[] }> {
+    const limit = this.groupExpansionLimit();
+    const expanded: Attendee[] = [];
+    const groups: ExpandedGroup[] = [];
+
+    // Every address is looked up, so the lookups run concurrently
+    const lookups = await mapConcurrently(attendees, async attendee => {
+      const email = attendee.emailAddress.address;
+      try {
+        return await this.providers.forUser(email).expandGroup(email, limit);
+      } catch (error: any) {
+        logger.warn(`Could not check whether ${email} is a group: ${error?.message || error}`);
+        return null;
+      }
+    });
+
+    for (const [i, attendee] of attendees.entries()) {
+      const email = attendee.emailAddress.address;
+      const group: DirectoryGroup | null = lookups[i];
+      if (!group) {
+        expanded.push(attendee);
+        continue;
+      }
+      if (group.truncated) {
+        logger.warn(`Group ${email} has more than ${limit} members; only the first ${limit} are checked for availability`);
+      }
+      logger.log(`Expanded group ${email} to ${group.members.length} member(s)`);
+      groups.push({ email, displayName: group.displayName, members: group.members, truncated: group.truncated });
+      group.members.forEach(member => expanded.push({ emailAddress: { address: member }, type: attendee.type }));
+    }
+
+    // Someone listed directly and via a group (or via two groups) counts once; required wins over optional
+    const byEmail = new Map<string, Attendee>();
+    for (const attendee of expanded) {
+      const key = (attendee.emailAddress.address).toLowerCase();
+      const existing = byEmail.get(key);
+      if (!existing || (existing.type === 'Optional' && attendee.type !== 'Optional')) byEmail.set(key, attendee);
+    }
+    return { attendees: Array.from(byEmail.values()), groups };
+  }
+
+  /**
+   * Attendee rows for the meeting store, from the provider's event attendees
+   */
+  private toAttendeeRecords(attendees: EventAttendee[], organizer: string): AttendeeRecord[] {
+    return attendees.map(a => ({
+      email: a.email,
+      name: a.name,
+      type: a.type,
+      isInternal: this.isInternalUser(a.email, organizer),
+      responseStatus: a.responseStatus,
+      respondedAt: a.respondedAt,
+    }));
+  }
+
+  /**
+   * Request attendees (see normalizeAttendees) as provider attendees
+   */
+  private toEventAttendees(attendees: Attendee[]): EventAttendee[] {
+    return attendees.map(a => ({
+      email: a.emailAddress.address,
+      name: a.emailAddress.name,
+      type: (a.type || 'required').toLowerCase() as EventAttendee['type'],
+    }));
+  }
+
+  /**
+   * Separate attendees into required and optional (a missing type means required, as in Graph)
+   */
+  private splitByAttendeeType(attendees: Attendee[]) {
+    const required = attendees.filter(a => a.type !== 'Optional');
+    const optional = attendees.filter(a => a.type === 'Optional');
+    return { required, optional };
+  }
+
+  /**
+   * Lowercased, de-duplicated email list (keeps first spelling)
+   */
+  private uniqueEmails(emails: string[]): string[] {
+    const seen = new Set<string>();
+    return emails.filter(email => {
+      const key = email.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private slotGranularityMinutes(): number {
+    return parseInt(process.env.SLOT_GRANULARITY_MINUTES || '30', 10);
+  }
+
+  /**
+   * Gaps shorter than this next to a meeting are too short to use; slots that leave them are avoided
+   */
+  private minFragmentMinutes(): number {
+    return parseInt(process.env.MIN_FRAGMENT_MINUTES || '30', 10);
+  }
+
+  /**
+   * Last instant a recurring series is checked against calendars
+   */
+  private recurrenceHorizonEnd(from: Date, horizonDays?: number): Date {
+    const days = horizonDays || parseInt(process.env.RECURRENCE_HORIZON_DAYS || '90', 10);
+    return new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Occurrences of the series in which at least one attendee is busy, given the busy attendees per occurrence
+   */
+  private toRecurrenceConflicts(occurrences: Occurrence[], busyAttendees: string[][]): RecurrenceConflict[] {
+    return occurrences
+      .map((occ, i) => ({
+        start: occ.start.toISOString(),
+        end: occ.end.toISOString(),
+        busyAttendees: busyAttendees[i],
+      }))
+      .filter(conflict => conflict.busyAttendees.length > 0);
+  }
+
+  /**
+   * Annotate each slot with the series occurrences that conflict, checking the whole horizon once.
+   */
+  private async annotateRecurrenceConflicts<T extends { start: string; end: string; recurrenceConflicts?: RecurrenceConflict[] }>(
+    organizer: string,
+    emails: string[],
+    slots: T[],
+    recurrence: RecurrenceDTO,
+    timeZone: string,
+    buffers: Record<string, BufferPolicy>,
+    horizonDays?: number,
+  ): Promise<void> {
+    if (emails.length === 0 || slots.length === 0) return;
+
+    const firstStart = new Date(Math.min(...slots.map(s => parseGraphDateTime(s.start).getTime())));
+    const horizonEnd = this.recurrenceHorizonEnd(firstStart, horizonDays);
+    const occurrencesPerSlot = slots.map(slot =>
+      expandOccurrences(recurrence, parseGraphDateTime(slot.start), parseGraphDateTime(slot.end), timeZone, horizonEnd)
+    );
+    const { busy } = await this.availability.findBusyAttendees(organizer, emails, occurrencesPerSlot.flat(), buffers, [], 'cached');
+
+    let offset = 0;
+    slots.forEach((slot, i) => {
+      const occurrences = occurrencesPerSlot[i];
+      slot.recurrenceConflicts = this.toRecurrenceConflicts(occurrences, busy.slice(offset, offset + occurrences.length));
+      offset += occurrences.length;
+    });
+  }
+
+  /**
+   * Keep only the slots in which a room matching the request is free, each paired with that room.
+   * Without a room request every slot is kept. For a series, `seriesOf` gives a slot's occurrences and the room
+   * must be free at all of them.
+   */
+  private async withRooms<T extends Interval>(
+    organizer: string,
+    request: RoomRequest | undefined,
+    slots: T[],
+    seriesOf?: (slot: T) => Occurrence[],
+  ): Promise<{ slot: T; room?: RoomAssignment }[]> {
+    if (!request || slots.length === 0) return slots.map(slot => ({ slot }));
+    const assignments = seriesOf
+      ? await this.rooms.assignRoomsForSeries(organizer, request, slots.map(seriesOf), 'cached')
+      : await this.rooms.assignRooms(organizer, request, slots, 'cached');
+    const withRoom = slots
+      .map((slot, i) => ({ slot, room: assignments[i] ?? undefined }))
+      .filter(item => !!item.room);
+    logger.log(`Rooms: ${withRoom.length} of ${slots.length} slot(s) have a matching room free`);
+    return withRoom;
+  }
+
+  /**
+   * What the ranking agent is told besides the slots: who, when and the organizer's working hours
+   * (rankSlots adds each required attendee's meeting load)
+   */
+  private rankingContext(
+    organizer: string,
+    policy: WorkingHoursPolicy,
+    requiredEmails: string[],
+    optionalEmails: string[],
+    durationMinutes: number,
+    extra: Pick<RankingContext, 'requestedStart' | 'window' | 'meetingType'> = {},
+  ): Omit<RankingContext, 'meetingLoad'> {
+    return {
+      organizer,
+      timeZone: policy.timeZone,
+      workDayStart: policy.workDayStart,
+      workDayEnd: policy.workDayEnd,
+      requiredAttendees: requiredEmails,
+      optionalAttendees: optionalEmails,
+      durationMinutes,
+      ...extra,
+    };
+  }
+
+  /**
+   * Busy hours per required attendee on each local day that has a candidate slot, from cached free/busy (best effort)
+   */
+  private async meetingLoad(organizer: string, emails: string[], slots: Slot[], timeZone: string): Promise<Record<string, Record<string, number>>> {
+    const days = Array.from(new Set(slots.map(s => toLocalDateString(new Date(s.start), timeZone)))).sort();
+    if (emails.length === 0 || days.length === 0) return {};
+    const from = zonedTimeToUtc(days[0], '00:00', timeZone);
+    const to = zonedTimeToUtc(addDaysToDateString(days[days.length - 1], 1), '00:00', timeZone);
+    try {
+      const busyMap = await this.availability.getBusyMap(organizer, emails, from, to, [], 'cached');
+      const load: Record<string, Record<string, number>> = {};
+      for (const email of emails) {
+        const perDay: Record<string, number> = Object.fromEntries(days.map(day => [day, 0]));
+        for (const interval of busyMap.busy[email.toLowerCase()] || []) {
+          const day = toLocalDateString(interval.start, timeZone);
+          if (day in perDay) perDay[day] += (interval.end.getTime() - interval.start.getTime()) / (60 * 60 * 1000);
+        }
+        load[email] = Object.fromEntries(Object.entries(perDay).map(([day, hours]) => [day, Math.round(hours * 10) / 10]));
+      }
+      return load;
+    } catch (error: any) {
+      logger.warn(`Could not work out meeting load for ranking: ${error?.message || error}`);
+      return {};
+    }
+  }
+
+  /**
+   * Rank slots through the agent; every slot keeps its details (room, optional attendees, conflicts)
+   */
+  private async rankSlots<T extends Slot>(slots: T[], ctx: Omit<RankingContext, 'meetingLoad'>): Promise<{ slots: (T & RankedSlot)[]; rankedBy: 'llm' | 'fallback' }> {
+    const context = { ...ctx, meetingLoad: await this.meetingLoad(ctx.organizer, ctx.requiredAttendees, slots, ctx.timeZone) };
+    const { ranked, rankedBy } = await this.agent.rankSlots(slots, context);
+    const byStart = new Map(slots.map(s => [Date.parse(s.start), s]));
+    logger.log(`Ranked ${ranked.length} slot(s) (${rankedBy})`);
+    return {
+      slots: ranked.map(r => ({ ...byStart.get(Date.parse(r.start))!, rank: r.rank, score: r.score, reason: r.reason })),
+      rankedBy,
+    };
+  }
+
+  /**
+   * Work out which optional attendees can and can't make each slot.
+   * Optional attendees never constrain the search; this is informational and used as a ranking tie-breaker.
+   * Returns null if availability could not be fetched.
+   */
+  private async getOptionalAvailability(
+    organizer: string,
+    optionalEmails: string[],
+    slots: { start: Date; end: Date }[],
+  ): Promise<OptionalAttendeeAvailability[] | null> {
+    if (optionalEmails.length === 0 || slots.length === 0) {
+      return slots.map(() => ({ available: [], unavailable: [] }));
+    }
+
+    const windowStart = new Date(Math.min(...slots.map(s => s.start.getTime())));
+    const windowEnd = new Date(Math.max(...slots.map(s => s.end.getTime())));
+
+    try {
+      const busyMap = await this.availability.getBusyMap(organizer, optionalEmails, windowStart, windowEnd, [], 'cached');
+      return slots.map(slot => {
+        const availability: OptionalAttendeeAvailability = { available: [], unavailable: [] };
+        optionalEmails.forEach(email => {
+          const key = email.toLowerCase();
+          if (!busyMap.unresolved.includes(key) && !overlapsAny(busyMap.busy[key], slot.start, slot.end)) {
+            availability.available.push(email);
+          } else {
+            availability.unavailable.push(email);
+          }
+        });
+        return availability;
+      });
+    } catch (error) {
+      logger.warn('Failed to check optional attendee availability:', error);
+      return null;
+    }
+  }
+
   async suggestSlots(dto: any) {
-    // Use organizer from request, or fetch from Microsoft Graph API
+    // Use organizer from request, or the default organizer (Graph, or the fake tenant offline)
     let organizer = dto.organizer;
 
     if (!organizer) {
-      // Dynamically fetch the authenticated user's email from Graph API
-      organizer = await this.graph.getAuthenticatedUserEmail();
+      organizer = await this.providers.defaultOrganizer();
       logger.log(`Using authenticated user as organizer: ${organizer}`);
     }
 
-    const { attendees, start, end } = dto;
+    const { start, end, recurrence, recurrenceHorizonDays, room } = dto;
+    const attendees = normalizeAttendees(dto.attendees);
 
-    // Validate that start and end times are in the future (timestamp-specific validation)
-    // Using IST timezone: 10:00 AM to 9:00 PM (Asia/Kolkata)
-    // IST is UTC+5:30, so:
-    // 10:00 AM IST = 04:30 UTC
-    // 9:00 PM IST = 15:30 UTC
+    // Validate the window against the organizer's working-hours policy (IANA timezone aware)
+    const policy = await this.policy.getPolicyForUser(organizer);
+    if (recurrence) validateRecurrence(recurrence, new Date(start), policy.timeZone);
     const now = new Date();
     const startDate = new Date(start);
     const endDate = new Date(end);
 
-    // Extract date part from start to check if it's today
-    const today = new Date().toISOString().split('T')[0];
-    let startDateOnly = start.split('T')[0];
-
     // Smart time logic:
-    // - If startDate is today, validate against current time
-    // - If startDate is in the future, validate against 10:00 AM IST
-    let effectiveStartTime: Date;
-    if (startDateOnly === today) {
-      // For today, use current time
-      effectiveStartTime = now;
-    } else {
-      // For future dates, use 10:00 AM IST (04:30 UTC)
-      effectiveStartTime = new Date(`${startDateOnly}T04:30:00Z`);
-    }
+    // - If startDate is today (in the organizer's timezone), validate against current time
+    // - Otherwise, validate against the start of the working day
+    const startWindow = this.policy.getWorkingWindow(policy, toLocalDateString(startDate, policy.timeZone));
+    const today = toLocalDateString(now, policy.timeZone);
+    const effectiveStartTime = toLocalDateString(startDate, policy.timeZone) === today && now > startWindow.start
+      ? now
+      : startWindow.start;
 
     // Validate that start is not before effective start time
     if (startDate < effectiveStartTime) {
-      throw new Error(`Meeting start time must be at or after ${effectiveStartTime.toISOString()}`);
+      throw new Error(`Meeting start time must be at or after ${formatInTimeZone(effectiveStartTime, policy.timeZone)} (${policy.timeZone})`);
     }
 
-    // Validate that end is not after 9:00 PM IST (15:30 UTC)
-    const endDateOnly = end.split('T')[0];
-    const maxEndTime = new Date(`${endDateOnly}T15:30:00Z`);
-    if (endDate > maxEndTime) {
-      throw new Error(`Meeting end time must be at or before 9:00 PM IST`);
+    // Validate that end is not after the end of the working day
+    const endWindow = this.policy.getWorkingWindow(policy, toLocalDateString(endDate, policy.timeZone));
+    if (endDate > endWindow.end) {
+      throw new Error(`Meeting end time must be at or before ${policy.workDayEnd} ${policy.timeZone}`);
     }
 
     await this.userSync.ensureUserInPrisma(this.prisma, organizer);
@@ -118,63 +417,139 @@ export class SchedulingService {
     logger.log(`Internal attendees: ${internal.length}, External attendees: ${external.length}`);
 
     if (external.length > 0) {
-      logger.log(`External users detected: ${external.map(a => a.emailAddress?.address || a).join(', ')}`);
-      logger.log('Note: External users cannot be checked for availability via Microsoft Graph');
+      logger.log(`External users detected: ${external.map(a => a.emailAddress.address).join(', ')}`);
+      logger.log('Note: External users can only be checked for availability through an attached calendar feed');
     }
 
-    // Only check availability for internal users
-    const internalEmails = internal.map(a => a.emailAddress?.address || a);
+    // Only check availability for internal users (and external ones with a calendar feed)
+    const checkable = await this.checkableAttendees(internal, external);
+    const internalEmails = checkable.map(a => a.emailAddress.address);
 
     if (internalEmails.length === 0) {
       logger.log('No internal attendees to check availability for');
       return {
         slots: [],
         message: 'No internal attendees to check availability',
-        externalAttendees: external.map(a => a.emailAddress?.address || a)
+        externalAttendees: external.map(a => a.emailAddress.address)
       };
     }
 
-    const duration = (endDate.getTime() - startDate.getTime()) / (1000 * 60);
+    const windowMinutes = (endDate.getTime() - startDate.getTime()) / (1000 * 60);
+    const durationMinutes = dto.durationMinutes || Math.min(windowMinutes, DEFAULT_DURATION_MINUTES);
+
+    // Groups are checked member by member
+    const { attendees: internalPeople, groups } = await this.expandGroupAttendees(checkable);
+
+    // Only required attendees are hard availability constraints (the organizer always is, as with findMeetingTimes)
+    const { required, optional } = this.splitByAttendeeType(internalPeople);
+    const requiredEmails = this.uniqueEmails([organizer, ...required.map(a => a.emailAddress.address)]);
+    const optionalEmails = optional.map(a => a.emailAddress.address);
+
+    // Per-attendee buffers (at least the meeting type's) and travel time keep slots off back-to-back meetings
+    const buffers = await this.policy.getBufferPoliciesForUsers(requiredEmails, dto.meetingType);
+    const candidates = await this.availability.findSlots(organizer, requiredEmails, {
+      windowStart: startDate,
+      windowEnd: endDate,
+      durationMinutes,
+      granularityMinutes: this.slotGranularityMinutes(),
+      minFragmentMinutes: this.minFragmentMinutes(),
+      workingHours: Object.values(await this.policy.getPoliciesForUsers(requiredEmails)),
+      notBefore: now,
+    }, buffers, [], 'cached');
+
+    // With a room request, a slot also needs a matching room to be free
+    const horizonEnd = this.recurrenceHorizonEnd(startDate, recurrenceHorizonDays);
+    const candidatesWithRooms = await this.withRooms(organizer, room, candidates, recurrence
+      ? slot => expandOccurrences(recurrence, slot.start, slot.end, policy.timeZone, horizonEnd)
+      : undefined);
+    const slotTimes = candidatesWithRooms.map(c => c.slot);
+    let slots: Slot[] = candidatesWithRooms.map(c => ({
+      start: c.slot.start.toISOString(),
+      end: c.slot.end.toISOString(),
+      available: true,
+      room: c.room,
+    }));
 
-    const findRes = await this.graph.findMeetingTimes(organizer, internal, {
-      attendees: internal,
-      timeConstraint: {
-        timeslots: [{
-          start: { dateTime: start, timeZone: 'UTC' },
-          end: { dateTime: end, timeZone: 'UTC' }
-        }],
-        activityDomain: 'work'
-      },
-      meetingDuration: `PT${duration}M`,
-      maxCandidates: 5,
-      minimumAttendeePercentage: 100,
-      isOrganizerOptional: false,
-    });
+    const optionalAvailability = await this.getOptionalAvailability(organizer, optionalEmails, slotTimes);
+    if (optionalAvailability) {
+      slots.forEach((slot, i) => { slot.optionalAttendees = optionalAvailability[i]; });
+    }
 
-    const slots = this.extractSlots(findRes);
+    // Recurring series: a slot is only fully available if every occurrence in the horizon is free
+    if (recurrence) {
+      await this.annotateRecurrenceConflicts(organizer, requiredEmails, slots, recurrence, policy.timeZone, buffers, recurrenceHorizonDays);
+      slots.forEach(slot => { slot.available = (slot.recurrenceConflicts?.length ?? 0) === 0; });
+    }
+
+    // Conflict-free series first; optional attendees break ties, then earliest wins
+    const maxCandidates = dto.maxCandidates || 5;
+    slots = slots
+      .sort((a, b) =>
+        (a.recurrenceConflicts?.length ?? 0) - (b.recurrenceConflicts?.length ?? 0) ||
+        (b.optionalAttendees?.available.length ?? 0) - (a.optionalAttendees?.available.length ?? 0) ||
+        new Date(a.start).getTime() - new Date(b.start).getTime()
+      )
+      .slice(0, Math.max(maxCandidates, MAX_RANKED_CANDIDATES));
+
+    // The agent weighs the shortlist against the request and everyone's load
+    const { slots: ranked, rankedBy } = await this.rankSlots(slots, this.rankingContext(organizer, policy, requiredEmails, optionalEmails, durationMinutes, {
+      window: { start: startDate.toISOString(), end: endDate.toISOString() },
+      meetingType: dto.meetingType,
+    }));
 
     return {
-      slots,
-      externalAttendees: external.length > 0 ? external.map(a => a.emailAddress?.address || a) : undefined
+      slots: ranked.slice(0, maxCandidates),
+      rankedBy,
+      requiredAttendees: requiredEmails,
+      optionalAttendees: optionalEmails,
+      groups: groups.length > 0 ? groups : undefined,
+      externalAttendees: external.length > 0 ? external.map(a => a.emailAddress.address) : undefined
     };
   }
 
+  /**
+   * Required attendees (groups expanded, the organizer included) who can't make the given time, from cached
+   * free/busy; booking re-checks fresh
+   */
+  async busyRequiredAttendees(organizer: string, attendees: unknown[], start: Date, end: Date, meetingType?: string): Promise<string[]> {
+    const { internal, external } = this.categorizeAttendees(normalizeAttendees(attendees), organizer);
+    const { attendees: people } = await this.expandGroupAttendees(await this.checkableAttendees(internal, external));
+    const requiredEmails = this.uniqueEmails([organizer, ...this.splitByAttendeeType(people).required.map(a => a.emailAddress.address)]);
+    const buffers = await this.policy.getBufferPoliciesForUsers(requiredEmails, meetingType);
+    const { busy: [busy] } = await this.availability.findBusyAttendees(organizer, requiredEmails, [{ start, end }], buffers, [], 'cached');
+    return busy;
+  }
+
   async scheduleMeeting(dto: any) {
-    // Use organizer from request, or fetch from Microsoft Graph API as fallback
-    // If not provided, fetch from Microsoft Graph API as fallback
+    dto = { ...dto, attendees: normalizeAttendees(dto.attendees) };
+
+    // Use organizer from request, or the default organizer as fallback
     let organizer = dto.organizer;
 
     if (!organizer) {
-      // Fallback: Dynamically fetch the authenticated user's email from Graph API
-      organizer = await this.graph.getAuthenticatedUserEmail();
-      logger.log(`No organizer provided, using Graph API fallback: ${organizer}`);
+      organizer = await this.providers.defaultOrganizer();
+      logger.log(`No organizer provided, using default organizer: ${organizer}`);
     } else {
       logger.log(`Using signed-in user as organizer: ${organizer}`);
     }
 
-    const { attendees, start, end, subject, createIfFree } = dto;
+    // With an idempotency key, a retried request gets the original booking back instead of a second event.
+    // Conflicts aren't stored, so retrying after one re-checks availability.
+    const { idempotencyKey, organizer: _organizer, ...request } = dto;
+    if (idempotencyKey) {
+      return this.idempotency.run(idempotencyKey, organizer, request, () => this.bookMeeting(organizer, dto), result => result.created !== false);
+    }
+    return this.bookMeeting(organizer, dto);
+  }
 
-    await this.userSync.ensureUserInPrisma(this.prisma, organizer);
+  private async bookMeeting(organizer: string, dto: any) {
+    const { attendees, start, end, createIfFree, recurrence, room } = dto;
+    if (recurrence) validateRecurrence(recurrence, new Date(start), (await this.policy.getPolicyForUser(organizer)).timeZone);
+
+    // Checked before anything is created: the meeting is stored against the organizer's User row
+    if (!await this.userSync.ensureUserInPrisma(this.prisma, organizer)) {
+      throw new BadRequestException(`${organizer} is not an active user in the directory`);
+    }
 
     // Separate internal and external attendees
     const { internal, external } = this.categorizeAttendees(attendees, organizer);
@@ -182,392 +557,853 @@ export class SchedulingService {
     logger.log(`Internal attendees: ${internal.length}, External attendees: ${external.length}`);
 
     if (external.length > 0) {
-      logger.log(`External users detected: ${external.map(a => a.emailAddress?.address || a).join(', ')}`);
-      logger.log('Note: External users will receive invitations but availability cannot be checked');
+      logger.log(`External users detected: ${external.map(a => a.emailAddress.address).join(', ')}`);
+      logger.log('Note: External users will receive invitations; only those with a calendar feed are checked for availability');
+    }
+
+    // Internal attendees get User rows too (looked up in one batch), so they can be found by name later even where
+    // no directory sync runs. Best effort: a failed lookup doesn't stop the booking.
+    await this.userSync.ensureUsersInPrisma(this.prisma, internal.map(a => a.emailAddress.address)).catch((error: any) => {
+      logger.warn(`Could not record attendees as users: ${error?.message || error}`);
+    });
+
+    if (!createIfFree) {
+      return this.createMeeting(organizer, dto, external);
     }
 
+    // createIfFree: re-check right before creating, holding a lock per required attendee (and the room) so a
+    // concurrent request can't book the same people in between the check and the creation
+    const { attendees: internalPeople } = await this.expandGroupAttendees(await this.checkableAttendees(internal, external));
+    const requiredEmails = this.uniqueEmails([organizer, ...this.splitByAttendeeType(internalPeople).required.map(a => a.emailAddress.address)]);
+    // A room chosen by filters is picked before locking so it is locked too; createMeeting re-checks it under the lock
+    let booking = dto;
+    if (room && !room.email) {
+      const [picked] = await this.rooms.assignRoomsForSeries(organizer, room, [await this.meetingOccurrences(organizer, start, end, recurrence)]);
+      if (picked) booking = { ...dto, room: { ...room, email: picked.email } };
+    }
+    const lockEmails = booking.room?.email ? [...requiredEmails, booking.room.email] : requiredEmails;
+    return this.bookingLocks.withLocks(lockEmails, async () => {
+      const conflict = await this.findBookingConflict(organizer, requiredEmails, start, end, recurrence, dto.meetingType);
+      return conflict ?? this.createMeeting(organizer, booking, external);
+    });
+  }
+
+  /**
+   * The meeting's occurrences within the recurrence horizon (just start-end for a one-off meeting)
+   */
+  private async meetingOccurrences(organizer: string, start: string, end: string, recurrence?: RecurrenceDTO): Promise<Occurrence[]> {
+    if (!recurrence) return [{ start: new Date(start), end: new Date(end) }];
+    const timeZone = (await this.policy.getPolicyForUser(organizer)).timeZone;
+    return expandOccurrences(recurrence, new Date(start), new Date(end), timeZone, this.recurrenceHorizonEnd(new Date(start)));
+  }
+
+  /**
+   * Fresh availability check before booking: null when every required attendee is free (every occurrence within
+   * the horizon, for a series), otherwise a structured conflict with nearby alternatives.
+   * A required attendee whose calendar can't be read counts as a conflict too: they might be busy.
+   * Optional attendees never block a booking.
+   */
+  private async findBookingConflict(organizer: string, requiredEmails: string[], start: string, end: string, recurrence?: RecurrenceDTO, meetingType?: string) {
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+    const timeZone = (await this.policy.getPolicyForUser(organizer)).timeZone;
+    const buffers = await this.policy.getBufferPoliciesForUsers(requiredEmails, meetingType);
+    const occurrences = recurrence
+      ? expandOccurrences(recurrence, startDate, endDate, timeZone, this.recurrenceHorizonEnd(startDate))
+      : [{ start: startDate, end: endDate }];
+
+    const { busy, unresolved } = await this.availability.findBusyAttendees(organizer, requiredEmails, occurrences, buffers);
+    const conflicts = this.toRecurrenceConflicts(occurrences, busy);
+    const unresolvedAttendees = requiredEmails.filter(email => unresolved.includes(email.toLowerCase()));
+    if (conflicts.length === 0 && unresolvedAttendees.length === 0) return null;
+
+    const busyAttendees = this.uniqueEmails(conflicts.flatMap(c => c.busyAttendees));
+    if (busyAttendees.length > 0) logger.warn(`createIfFree: not booking, busy: ${busyAttendees.join(', ')}`);
+    if (unresolvedAttendees.length > 0) logger.warn(`createIfFree: not booking, calendars not readable: ${unresolvedAttendees.join(', ')}`);
+    return {
+      message: busyAttendees.length > 0
+        ? 'Some required attendees are busy at the requested time'
+        : 'Could not check the calendars of some required attendees',
+      created: false,
+      conflict: {
+        busyAttendees,
+        unresolved: unresolvedAttendees.length > 0 ? unresolvedAttendees : undefined,
+        occurrences: recurrence ? conflicts : undefined,
+      },
+      // Alternatives would have the same unreadable calendars
+      alternatives: recurrence || unresolvedAttendees.length > 0
+        ? []
+        : await this.findNearbySlots(organizer, requiredEmails, startDate, endDate, timeZone, buffers),
+    };
+  }
+
+  /**
+   * Up to five free slots of the same length as start-end, closest to `start`, from the week starting on its local day
+   */
+  private async findNearbySlots(
+    organizer: string,
+    emails: string[],
+    start: Date,
+    end: Date,
+    timeZone: string,
+    buffers: Record<string, BufferPolicy>,
+    exclude: Interval[] = [],
+  ): Promise<{ start: string; end: string }[]> {
+    const windowStart = zonedTimeToUtc(toLocalDateString(start, timeZone), '00:00', timeZone);
+    const candidates = await this.availability.findSlots(organizer, emails, {
+      windowStart,
+      windowEnd: new Date(windowStart.getTime() + 7 * 24 * 60 * 60 * 1000),
+      durationMinutes: (end.getTime() - start.getTime()) / (1000 * 60),
+      granularityMinutes: this.slotGranularityMinutes(),
+      minFragmentMinutes: this.minFragmentMinutes(),
+      workingHours: Object.values(await this.policy.getPoliciesForUsers(emails)),
+      notBefore: new Date(),
+    }, buffers, exclude, 'cached');
+    return candidates
+      .sort((a, b) => Math.abs(a.start.getTime() - start.getTime()) - Math.abs(b.start.getTime() - start.getTime()))
+      .slice(0, 5)
+      .map(c => ({ start: c.start.toISOString(), end: c.end.toISOString() }));
+  }
+
+  /**
+   * Create the event in the organizer's calendar (booking the room, if any) and store the meeting
+   */
+  private async createMeeting(organizer: string, dto: any, external: Attendee[]) {
+    const { attendees, start, end, subject, recurrence, room, description, location } = dto;
+    const provider = this.providers.forUser(organizer);
+
     // Create meeting with ALL attendees (both internal and external)
     // Use subject from payload, or default to "Meeting"
     const meetingSubject = subject || 'Meeting';
 
-    const payload = {
+    const event: CalendarEventInput = {
       subject: meetingSubject,
-      body: {
-        contentType: 'HTML',
-        content: `<p>Meeting scheduled via Agentic Scheduler.</p>`
-      },
-      start: { dateTime: start, timeZone: 'UTC' },
-      end: { dateTime: end, timeZone: 'UTC' },
-      attendees, // Include ALL attendees (internal + external)
+      description,
+      start: new Date(start),
+      end: new Date(end),
+      attendees: this.toEventAttendees(attendees), // Include ALL attendees (internal + external)
+      location,
+      // Online meeting unless the request says otherwise and the organization doesn't default to online meetings
+      isOnlineMeeting: dto.isOnlineMeeting ?? (await this.policy.getMeetingDefaults(organizer)).onlineMeetingsByDefault,
+      transactionId: dto.idempotencyKey,
     };
 
-    const created = await this.graph.createEventForUser(organizer, payload);
+    // Book the room as a resource attendee and make it the event location
+    let bookedRoom: RoomAssignment | undefined;
+    if (room) {
+      // A series needs the room at every occurrence within the horizon, as attendees are checked
+      const occurrences = await this.meetingOccurrences(organizer, start, end, recurrence);
+      const [assignment] = await this.rooms.assignRoomsForSeries(organizer, room, [occurrences]);
+      if (!assignment) {
+        throw new Error(recurrence ? 'No room matching the request is free for every occurrence' : 'No room matching the request is free at that time');
+      }
+      bookedRoom = assignment;
+      event.room = { email: assignment.email, displayName: assignment.displayName };
+      logger.log(`Booking room ${assignment.displayName} (${assignment.email})`);
+    }
+
+    // Recurring series are anchored in the organizer's timezone so occurrences keep their wall-clock time across DST
+    if (recurrence) {
+      event.timeZone = (await this.policy.getPolicyForUser(organizer)).timeZone;
+      event.recurrence = recurrence;
+      logger.log(`Creating recurring series (${describeRecurrence(recurrence)}) in ${event.timeZone}`);
+    }
+
+    const created = await provider.createEvent(organizer, event);
+    await this.invalidateFreeBusy(organizer, created.attendees, event.attendees, event.room ? [event.room] : []);
     const organizerRecord = await this.userSync.ensureUserInPrisma(this.prisma, organizer);
 
-    // Log the meeting
-    const meeting = await this.prisma.meeting.create({
+    const series = recurrence ? await this.prisma.meetingSeries.create({
       data: {
-        subject: meetingSubject,
-        start: new Date(start),
-        end: new Date(end),
-        organizerId: organizerRecord.id,
+        pattern: recurrence.pattern,
+        interval: recurrence.interval || 1,
+        daysOfWeek: resolveDaysOfWeek(recurrence, event.start, event.timeZone!)?.join(',') ?? null,
+        endDate: recurrence.endDate ?? null,
+        occurrences: recurrence.occurrences ?? null,
+        timeZone: event.timeZone,
       },
+    }) : null;
+
+    // Log the meeting with who was invited (for a series, start/end are the first occurrence)
+    const requested = event.room ? [...event.attendees, { email: event.room.email, name: event.room.displayName, type: 'resource' as const }] : event.attendees;
+    const meeting = await this.meetings.recordCreated({
+      subject: meetingSubject,
+      start: new Date(start),
+      end: new Date(end),
+      organizerId: organizerRecord.id,
+      seriesId: series?.id ?? null,
+      description,
+      event: created,
+      attendees: this.toAttendeeRecords(created.attendees.length ? created.attendees : requested, organizer),
+      actor: organizer,
     });
 
     if (external.length > 0) {
-      logger.log(`Meeting created with ${external.length} external attendee(s): ${external.map(a => a.emailAddress?.address).join(', ')}`);
+      logger.log(`Meeting created with ${external.length} external attendee(s): ${external.map(a => a.emailAddress.address).join(', ')}`);
     }
 
     return {
-      message: 'Meeting scheduled',
+      message: recurrence ? 'Recurring meeting scheduled' : 'Meeting scheduled',
+      created: true,
+      meetingId: meeting.id,
       createdEvent: created,
-      externalAttendees: external.length > 0 ? external.map(a => a.emailAddress?.address || a) : undefined
+      seriesId: series?.id,
+      room: bookedRoom,
+      onlineMeetingUrl: created.onlineMeetingUrl,
+      externalAttendees: external.length > 0 ? external.map(a => a.emailAddress.address) : undefined
+    };
+  }
+
+  /**
+   * Load a meeting that can still be changed through the API. Only its organizer may change it.
+   */
+  private async getManagedMeeting(id: number, requester: string) {
+    const meeting = await this.prisma.meeting.findUnique({ where: { id }, include: { organizer: true, series: true, attendees: true } });
+    if (!meeting) throw new NotFoundException(`Meeting ${id} not found`);
+    if (!meeting.graphEventId) {
+      throw new BadRequestException(`Meeting ${id} was created before calendar event ids were stored and can't be changed here`);
+    }
+    if (meeting.status === 'cancelled') throw new BadRequestException(`Meeting ${id} has been cancelled`);
+    if (!requester || meeting.organizer.email?.toLowerCase() !== requester.toLowerCase()) {
+      throw new ForbiddenException('Only the organizer can change this meeting');
+    }
+    return meeting;
+  }
+
+  /**
+   * Cached free/busy of the organizer and everyone on the event (rooms included) is out of date once it changes
+   */
+  private async invalidateFreeBusy(organizer: string, ...attendees: { email: string }[][]) {
+    await this.availability.invalidate([organizer, ...attendees.flat().map(a => a.email)]);
+  }
+
+  /**
+   * Attendees of a live event in request form ("required" -> "Required")
+   */
+  private eventAttendees(event: CalendarEvent): Attendee[] {
+    return event.attendees.map(a => ({
+      emailAddress: { address: a.email, name: a.name },
+      type: (a.type.charAt(0).toUpperCase() + a.type.slice(1)) as Attendee['type'],
+    }));
+  }
+
+  private seriesToRecurrence(series: any): RecurrenceDTO {
+    return {
+      pattern: series.pattern,
+      interval: series.interval,
+      daysOfWeek: series.daysOfWeek ? series.daysOfWeek.split(',') : undefined,
+      endDate: series.endDate ?? undefined,
+      occurrences: series.occurrences ?? undefined,
+    };
+  }
+
+  /**
+   * The caller's own meetings, most recent first.
+   */
+  async listMeetings(requester: string, status?: string) {
+    return this.meetings.listMeetings(requester, { status });
+  }
+
+  /**
+   * A stored meeting with its attendees and change history. Only its organizer may read it.
+   */
+  async getMeeting(id: number, requester: string) {
+    const meeting = await this.meetings.getMeeting(id);
+    if (!meeting) throw new NotFoundException(`Meeting ${id} not found`);
+    if (!requester || meeting.organizer.email?.toLowerCase() !== requester.toLowerCase()) {
+      throw new ForbiddenException('Only the organizer can view this meeting');
+    }
+    return meeting;
+  }
+
+  /**
+   * The meeting as an iCalendar invite (METHOD:CANCEL once cancelled), for mail systems that mangle Outlook invites.
+   * SEQUENCE follows every reschedule, update and cancellation made through the API.
+   */
+  async getMeetingIcs(id: number, requester: string) {
+    const meeting = await this.getMeeting(id, requester);
+    const event = meetingToIcsEvent(meeting, meeting.series ? this.seriesToRecurrence(meeting.series) : undefined);
+    return { filename: `meeting-${id}.ics`, method: event.method, content: buildIcs(event) };
+  }
+
+  /**
+   * Who has to be free for a meeting to move, with their buffers and the timezone the meeting lives in.
+   * Attendees come from the live event so changes made in the calendar app are respected.
+   */
+  private async reschedulingContext(meeting: any) {
+    const organizer = meeting.organizer.email;
+    const event = await this.providers.get(meeting.calendarProvider).getEvent(organizer, meeting.graphEventId);
+    const attendees = this.eventAttendees(event);
+    const roomEmails = attendees.filter(a => a.type === 'Resource').map(a => a.emailAddress.address);
+    const { internal, external } = this.categorizeAttendees(attendees.filter(a => a.type !== 'Resource'), organizer);
+    const { attendees: internalPeople } = await this.expandGroupAttendees(await this.checkableAttendees(internal, external));
+    const requiredEmails = this.uniqueEmails([organizer, ...this.splitByAttendeeType(internalPeople).required.map(a => a.emailAddress.address)]);
+    const buffers = await this.policy.getBufferPoliciesForUsers(requiredEmails);
+    const timeZone = meeting.series?.timeZone || (await this.policy.getPolicyForUser(organizer)).timeZone;
+    return { requiredEmails, roomEmails, buffers, timeZone };
+  }
+
+  /**
+   * Free times to move a one-off meeting to, closest first, never its current slot (someone can't make it).
+   * Series get none: moving every occurrence is left to the organizer.
+   */
+  async proposeNewTimes(id: number, requester: string): Promise<{ start: string; end: string }[]> {
+    const meeting = await this.getManagedMeeting(id, requester);
+    if (meeting.series) return [];
+    const { requiredEmails, roomEmails, buffers, timeZone } = await this.reschedulingContext(meeting);
+    const current = { start: meeting.start, end: meeting.end };
+    const slots = await this.findNearbySlots(meeting.organizer.email, [...requiredEmails, ...roomEmails], meeting.start, meeting.end, timeZone, buffers, [current]);
+    return slots.filter(slot => new Date(slot.start).getTime() !== meeting.start.getTime());
+  }
+
+  /**
+   * Move a meeting (or a whole series) to a new time. The availability engine is re-run for the new time with the
+   * meeting's current slot ignored; unless `force` is set, nothing changes when a required attendee or room is busy.
+   */
+  async rescheduleMeeting(id: number, dto: RescheduleRequestDTO, requester: string) {
+    const meeting = await this.getManagedMeeting(id, requester);
+    const organizer = meeting.organizer.email;
+    const newStart = new Date(dto.start);
+    const newEnd = new Date(dto.end);
+    if (isNaN(newStart.getTime()) || isNaN(newEnd.getTime()) || newStart >= newEnd) {
+      throw new BadRequestException('start and end must be valid ISO datetimes with end after start');
+    }
+    if (newStart < new Date()) throw new BadRequestException('Cannot move a meeting into the past');
+
+    const provider = this.providers.get(meeting.calendarProvider);
+    const { requiredEmails, roomEmails, buffers, timeZone } = await this.reschedulingContext(meeting);
+
+    // For a series every occurrence within the horizon moves; the current occurrences don't count as conflicts
+    const currentRecurrence = meeting.series ? this.seriesToRecurrence(meeting.series) : undefined;
+    const recurrence = currentRecurrence ? moveRecurrence(currentRecurrence, meeting.start, newStart, timeZone) : undefined;
+    const horizonEnd = this.recurrenceHorizonEnd(newStart > meeting.start ? newStart : meeting.start);
+    const currentOccurrences = currentRecurrence
+      ? expandOccurrences(currentRecurrence, meeting.start, meeting.end, timeZone, horizonEnd)
+      : [{ start: meeting.start, end: meeting.end }];
+    const newOccurrences = recurrence
+      ? expandOccurrences(recurrence, newStart, newEnd, timeZone, horizonEnd)
+      : [{ start: newStart, end: newEnd }];
+
+    // The new time must stay inside the organizer's working hours, as when booking
+    const policy = await this.policy.getPolicyForUser(organizer);
+    const outside = newOccurrences.find(o => !this.policy.isWithinWorkingHours(policy, o.start, o.end));
+    if (outside) {
+      throw new BadRequestException(
+        `${formatInTimeZone(outside.start, policy.timeZone)} - ${formatInTimeZone(outside.end, policy.timeZone)} is outside the organizer's working hours `
+        + `(${policy.workDayStart}-${policy.workDayEnd} ${policy.timeZone})`,
+      );
+    }
+
+    const checked = [...requiredEmails, ...roomEmails];
+    const { busy } = await this.availability.findBusyAttendees(organizer, checked, newOccurrences, buffers, currentOccurrences);
+    const conflicts = this.toRecurrenceConflicts(newOccurrences, busy);
+    logger.log(`Reschedule of meeting ${id}: ${conflicts.length} of ${newOccurrences.length} occurrence(s) conflict`);
+
+    if (conflicts.length > 0 && !dto.force) {
+      // For a one-off meeting, offer the closest free times in the following week
+      const alternatives = recurrence
+        ? []
+        : await this.findNearbySlots(organizer, checked, newStart, newEnd, timeZone, buffers, currentOccurrences);
+      return { message: 'The new time is not free', rescheduled: false, meetingId: id, conflicts, alternatives };
+    }
+
+    const patch: CalendarEventPatch = recurrence
+      ? { start: newStart, end: newEnd, timeZone, recurrence }
+      : { start: newStart, end: newEnd };
+    const updated = await provider.updateEvent(organizer, meeting.graphEventId, patch);
+    await this.invalidateFreeBusy(organizer, updated.attendees, meeting.attendees);
+
+    await this.meetings.recordRescheduled(
+      id,
+      { start: meeting.start, end: meeting.end },
+      { start: newStart, end: newEnd },
+      requester,
+      conflicts.length > 0 ? { forced: true, conflicts } : undefined,
+    );
+    if (recurrence && meeting.series) {
+      await this.prisma.meetingSeries.update({
+        where: { id: meeting.series.id },
+        data: { daysOfWeek: resolveDaysOfWeek(recurrence, newStart, timeZone)?.join(',') ?? null },
+      });
+    }
+
+    return {
+      message: recurrence ? 'Recurring meeting rescheduled' : 'Meeting rescheduled',
+      rescheduled: true,
+      meetingId: id,
+      updatedEvent: updated,
+      conflicts: conflicts.length > 0 ? conflicts : undefined,
     };
   }
 
+  async updateMeeting(id: number, dto: UpdateMeetingDTO, requester: string) {
+    const meeting = await this.getManagedMeeting(id, requester);
+    const organizer = meeting.organizer.email;
+
+    const provider = this.providers.get(meeting.calendarProvider);
+
+    const patch: CalendarEventPatch = {};
+    if (dto.subject) patch.subject = dto.subject;
+    if (dto.attendees) {
+      // Booked rooms are resource attendees; keep them when the caller replaces the people
+      const event = await provider.getEvent(organizer, meeting.graphEventId);
+      const rooms = event.attendees.filter(a => a.type === 'resource');
+      patch.attendees = [...this.toEventAttendees(normalizeAttendees(dto.attendees)), ...rooms];
+    }
+    if (Object.keys(patch).length === 0) throw new BadRequestException('Nothing to update: provide subject and/or attendees');
+
+    const updated = await provider.updateEvent(organizer, meeting.graphEventId, patch);
+    await this.invalidateFreeBusy(organizer, updated.attendees, meeting.attendees);
+    await this.meetings.recordUpdated(
+      id,
+      { subject: dto.subject },
+      patch.attendees ? this.toAttendeeRecords(updated.attendees.length ? updated.attendees : patch.attendees, organizer) : undefined,
+      updated,
+      requester,
+    );
+    logger.log(`Updated meeting ${id}: ${Object.keys(patch).join(', ')}`);
+    return { message: 'Meeting updated', meetingId: id, updatedEvent: updated };
+  }
+
+  /**
+   * Cancel a meeting (a whole series for a recurring one). Attendees get a cancellation message unless
+   * `notifyAttendees` is false, in which case the event is just deleted from the organizer's calendar.
+   */
+  async cancelMeeting(id: number, dto: CancelMeetingDTO, requester: string) {
+    const meeting = await this.getManagedMeeting(id, requester);
+    const organizer = meeting.organizer.email;
+    const notify = dto.notifyAttendees !== false;
+
+    const provider = this.providers.get(meeting.calendarProvider);
+    if (notify) {
+      await provider.cancelEvent(organizer, meeting.graphEventId, dto.comment || 'This meeting has been cancelled.');
+    } else {
+      await provider.deleteEvent(organizer, meeting.graphEventId);
+    }
+    await this.invalidateFreeBusy(organizer, meeting.attendees);
+    await this.meetings.recordCancelled(id, requester, { comment: dto.comment, attendeesNotified: notify });
+
+    logger.log(`Cancelled meeting ${id}${notify ? ' and notified attendees' : ''}`);
+    return { message: 'Meeting cancelled', meetingId: id, attendeesNotified: notify };
+  }
+
   async parseNaturalLanguage(input: string, organizer?: string): Promise<any> {
     try {
-      const currentTime = new Date();
-      const istTime = new Date(currentTime.toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
+      // Get organizer email (needed up-front to resolve their timezone for the prompt)
+      if (!organizer) {
+        organizer = await this.providers.defaultOrganizer();
+      }
 
-      const systemPrompt = `You are a meeting scheduler assistant. Parse the user's natural language input and extract meeting details.
-Current date and time in IST: ${istTime.toISOString()}
-Current date: ${istTime.toISOString().split('T')[0]}
+      const draft = await this.extractMeetingDraft(input, organizer);
+      return { ...(await this.checkMeetingDraft(organizer, draft)), parsedFrom: input };
+    } catch (error) {
+      logger.error('Error parsing natural language:', error);
+      if (error instanceof HttpException) throw error;
+      throw new Error('Failed to parse meeting details from input');
+    }
+  }
+
+  /**
+   * Meeting details from natural language, read by the LLM in the organizer's timezone. Attendees must be email
+   * addresses unless `allowNames` is set, for callers that resolve names themselves (conversations).
+   */
+  async extractMeetingDraft(input: string, organizer: string, { allowNames = false } = {}): Promise<MeetingDraft> {
+    const policy = await this.policy.getPolicyForUser(organizer);
+    const currentTime = new Date();
+    const localToday = toLocalDateString(currentTime, policy.timeZone);
+    const offsetMinutes = getTimeZoneOffsetMinutes(currentTime, policy.timeZone);
+    const offsetLabel = `UTC${offsetMinutes >= 0 ? '+' : '-'}${String(Math.floor(Math.abs(offsetMinutes) / 60)).padStart(2, '0')}:${String(Math.abs(offsetMinutes) % 60).padStart(2, '0')}`;
+
+    const people = allowNames ? 'email addresses (or, for someone named without an address, their name as written)' : 'email addresses';
+
+    const systemPrompt = `You are a meeting scheduler assistant. Parse the user's natural language input and extract meeting details.
+Current UTC date and time: ${currentTime.toISOString()}
+Current local date and time (${policy.timeZone}): ${formatInTimeZone(currentTime, policy.timeZone, { dateStyle: 'full', timeStyle: 'long' })}
+Current local date: ${localToday}
 
 Extract the following information:
 1. subject: Meeting title/subject
-2. attendees: Array of email addresses
-3. startTime: ISO 8601 format in UTC (convert from IST if time is mentioned)
-4. endTime: ISO 8601 format in UTC
-5. duration: Duration in minutes (if specified)
+2. attendees: Array of required attendee ${people}
+3. optionalAttendees: Array of optional attendee ${people} (people the user marks as optional, e.g. "optionally include", "if free", "if available", "optional:", "nice to have"); never repeat them in attendees
+4. startTime: ISO 8601 format in UTC (convert from ${policy.timeZone} if time is mentioned)
+5. endTime: ISO 8601 format in UTC
+6. duration: Duration in minutes (if specified)
+7. recurrence: null for a one-off meeting. For a repeating meeting ("every Tuesday at 3 for the next 6 weeks", "daily standup until March 31") an object:
+   { "pattern": "daily" | "weekly" | "monthly" | "yearly", "interval": number (every N units, default 1), "daysOfWeek": ["tuesday", ...] (weekly only), "endDate": "YYYY-MM-DD" (local, inclusive) or null, "occurrences": number or null }
+   "for the next N weeks" on a weekly pattern means occurrences = N. startTime/endTime are always the FIRST occurrence.
+8. room: null unless the user asks for a room or in-person location. Otherwise an object:
+   { "capacity": number or null (people the room must hold), "building": string or null (e.g. "Building 2"), "equipment": ["video", "display", "audio", "wheelchair"] or [] }
+   "in a room for 8 people in Building 2" means { "capacity": 8, "building": "Building 2", "equipment": [] }
+9. isOnlineMeeting: true if the user asks for an online meeting ("on Teams", "online", "video call", "virtual"), false if they say "in person" or "face to face", otherwise null
+10. location: a specific place the user names that isn't a bookable room request (e.g. "at the Starbucks on MG Road"), otherwise null
+11. description: an agenda or notes for the invite if the user gives one, as short markdown (e.g. a bullet list of topics), otherwise null
 
 Important timezone rules:
-- All times mentioned are in IST (India Standard Time, UTC+5:30)
-- Convert IST to UTC for startTime and endTime
-- "today" means ${istTime.toISOString().split('T')[0]}
-- "tomorrow" means ${new Date(istTime.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]}
+- Unless the user names another timezone, all times mentioned are in ${policy.timeZone} (currently ${offsetLabel}; apply the offset in effect on the meeting date, including daylight saving changes)
+- Convert local times to UTC for startTime and endTime
+- "today" means ${localToday}
+- "tomorrow" means ${addDaysToDateString(localToday, 1)}
+- The organizer's working hours are ${policy.workDayStart}-${policy.workDayEnd} ${policy.timeZone}; if only a day is given, pick a time inside them
 
 Return ONLY a JSON object with these fields. If duration is specified but not end time, calculate endTime. If end time is specified but not duration, calculate duration.`;
 
+    // Answers that fail validation go back to the model with what was wrong, up to LLM_REPAIR_ATTEMPTS times
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: input }
+    ];
+    let parsed: MeetingDetails | undefined;
+    for (let attempt = 0; !parsed; attempt++) {
       const completion = await this.openai.chat.completions.create({
         model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: input }
-        ],
+        messages,
         response_format: { type: 'json_object' },
         temperature: 0.3,
       });
+      const content = completion.choices[0].message.content || '';
+      const result = parseJson(content, allowNames ? meetingDetailsWithNamesSchema : meetingDetailsSchema);
+      if (result.success) {
+        parsed = result.data;
+      } else if (attempt < repairAttempts()) {
+        logger.warn(`Meeting details failed validation (${result.errors.join('; ')}); asking for a corrected answer`);
+        messages.push({ role: 'assistant', content }, { role: 'user', content: repairPrompt(result.errors) });
+      } else {
+        throw new UnprocessableEntityException(`Could not read the meeting details: ${result.errors.join('; ')}`);
+      }
+    }
 
-      const parsed = JSON.parse(completion.choices[0].message.content || '{}');
+    // Recurrence (the LLM emits nulls for unused fields)
+    let recurrence: RecurrenceDTO | undefined;
+    if (parsed.recurrence?.pattern) {
+      recurrence = {
+        pattern: parsed.recurrence.pattern,
+        interval: parsed.recurrence.interval ?? undefined,
+        daysOfWeek: parsed.recurrence.daysOfWeek ?? undefined,
+        endDate: parsed.recurrence.endDate ?? undefined,
+        occurrences: parsed.recurrence.occurrences ?? undefined,
+      };
+    }
 
-      // Validate that parsed times are in the future
-      const now = new Date();
-      const parsedStartTime = new Date(parsed.startTime);
-      const parsedEndTime = new Date(parsed.endTime);
+    // Room request (again, nulls for unused fields)
+    let roomRequest: RoomRequest | undefined;
+    if (parsed.room && typeof parsed.room === 'object') {
+      roomRequest = {
+        capacity: parsed.room.capacity ?? undefined,
+        building: parsed.room.building ?? undefined,
+        equipment: parsed.room.equipment?.length ? parsed.room.equipment : undefined,
+      };
+    }
 
-      if (parsedStartTime < now) {
-        const istStartTime = parsedStartTime.toLocaleString('en-IN', {
-          timeZone: 'Asia/Kolkata',
-          dateStyle: 'medium',
-          timeStyle: 'short'
-        });
-        throw new Error(`Cannot schedule meeting in the past. The requested start time (${istStartTime} IST) has already passed.`);
-      }
+    // Online / in person (null means the organization's default applies when booking)
+    const isOnlineMeeting: boolean | undefined = typeof parsed.isOnlineMeeting === 'boolean' ? parsed.isOnlineMeeting : undefined;
+
+    // Optional attendees are never repeated as required
+    const optionalEmails: string[] = parsed.optionalAttendees || [];
+    const requiredEmails: string[] = (parsed.attendees || []).filter(email =>
+      !optionalEmails.some(o => o.toLowerCase() === email.toLowerCase())
+    );
+
+    return {
+      subject: parsed.subject || 'Meeting',
+      attendees: requiredEmails,
+      optionalAttendees: optionalEmails,
+      startTime: parsed.startTime,
+      endTime: parsed.endTime,
+      duration: parsed.duration ?? undefined,
+      recurrence,
+      roomRequest,
+      isOnlineMeeting,
+      location: parsed.location || undefined,
+      description: parsed.description || undefined,
+    };
+  }
+
+  /**
+   * Check a draft against calendars: who is busy at its time, whether the requested room is free and which
+   * occurrences of a series conflict, with ranked alternatives when the time doesn't work
+   */
+  async checkMeetingDraft(organizer: string, draft: MeetingDraft): Promise<any> {
+    const policy = await this.policy.getPolicyForUser(organizer);
+    const { recurrence, roomRequest, isOnlineMeeting } = draft;
+    const requiredEmails = draft.attendees;
+    const optionalEmails = draft.optionalAttendees;
+
+    // The meeting must be in the future
+    const now = new Date();
+    const parsedStartTime = new Date(draft.startTime);
+    const parsedEndTime = new Date(draft.endTime);
+
+    if (parsedStartTime < now) {
+      const localStartTime = formatInTimeZone(parsedStartTime, policy.timeZone);
+      throw new Error(`Cannot schedule meeting in the past. The requested start time (${localStartTime} ${policy.timeZone}) has already passed.`);
+    }
 
-      if (parsedEndTime < now) {
-        const istEndTime = parsedEndTime.toLocaleString('en-IN', {
-          timeZone: 'Asia/Kolkata',
-          dateStyle: 'medium',
-          timeStyle: 'short'
+    if (parsedEndTime < now) {
+      const localEndTime = formatInTimeZone(parsedEndTime, policy.timeZone);
+      throw new Error(`Cannot schedule meeting in the past. The requested end time (${localEndTime} ${policy.timeZone}) has already passed.`);
+    }
+
+    if (parsedStartTime >= parsedEndTime) {
+      throw new Error('End time must be after start time.');
+    }
+
+    if (recurrence) validateRecurrence(recurrence, parsedStartTime, policy.timeZone);
+    const onlineByDefault = (await this.policy.getMeetingDefaults(organizer)).onlineMeetingsByDefault;
+
+    // Categorize attendees (required vs optional, then internal vs external)
+    const attendeeObjects = normalizeAttendees([
+      ...requiredEmails,
+      ...optionalEmails.map(email => ({ emailAddress: { address: email }, type: 'Optional' })),
+    ]);
+    const { internal, external } = this.categorizeAttendees(attendeeObjects, organizer);
+    // External attendees with a calendar feed are checked too; groups member by member
+    const checkable = await this.checkableAttendees(internal, external);
+    const { attendees: internalPeople, groups } = await this.expandGroupAttendees(checkable);
+    const { required: requiredInternal, optional: optionalInternal } = this.splitByAttendeeType(internalPeople);
+    const requiredInternalEmails = new Set(requiredInternal.map(a => a.emailAddress.address.toLowerCase()));
+
+    // Check availability for internal users (and external ones with a feed)
+    let availabilityStatus: any = {};
+    let isSlotBusy = false;
+    let alternativeSlots: any[] = [];
+    let recurrenceConflicts: RecurrenceConflict[] = [];
+    let occurrenceCount: number | undefined;
+    let room: RoomAssignment | undefined;
+    let roomUnavailable = false;
+
+    if (checkable.length > 0 || roomRequest) {
+      try {
+        const requestedStart = new Date(draft.startTime);
+        const requestedEnd = new Date(draft.endTime);
+
+        logger.log(`🕐 Requested time slot (UTC): ${requestedStart.toISOString()} - ${requestedEnd.toISOString()}`);
+
+        // Buffers, travel time and focus blocks count too: a slot that leaves someone no break is busy for them
+        const internalEmails = internalPeople.map(a => a.emailAddress.address);
+        const internalBuffers = await this.policy.getBufferPoliciesForUsers(internalEmails);
+        const { busy: [busyAttendees] } = await this.availability.findBusyAttendees(
+          organizer,
+          internalEmails,
+          [{ start: requestedStart, end: requestedEnd }],
+          internalBuffers,
+          [],
+          'cached',
+        );
+
+        internalEmails.forEach(email => {
+          const isBusy = busyAttendees.includes(email);
+          availabilityStatus[email] = isBusy ? 'busy' : 'free';
+          // Only required attendees make the slot unusable
+          if (isBusy && requiredInternalEmails.has(email.toLowerCase())) isSlotBusy = true;
+        });
+        // A group is busy if any of its members is
+        const busyLower = new Set(busyAttendees.map(email => email.toLowerCase()));
+        groups.forEach(group => {
+          availabilityStatus[group.email] = group.members.some(m => busyLower.has(m.toLowerCase())) ? 'busy' : 'free';
         });
-        throw new Error(`Cannot schedule meeting in the past. The requested end time (${istEndTime} IST) has already passed.`);
-      }
 
-      if (parsedStartTime >= parsedEndTime) {
-        throw new Error('End time must be after start time.');
-      }
+        logger.log('\n📊 Final availability status:', availabilityStatus);
+        logger.log('⚠️ Is slot busy:', isSlotBusy);
+
+        if (roomRequest) {
+          const occurrences = recurrence
+            ? expandOccurrences(recurrence, requestedStart, requestedEnd, policy.timeZone, this.recurrenceHorizonEnd(requestedStart))
+            : [{ start: requestedStart, end: requestedEnd }];
+          const [assignment] = await this.rooms.assignRoomsForSeries(organizer, roomRequest, [occurrences], 'cached');
+          room = assignment ?? undefined;
+          roomUnavailable = !assignment;
+          logger.log(assignment ? `🏢 Room free: ${assignment.displayName}` : '🏢 No matching room is free at the requested time');
+        }
 
-      // Get organizer email
-      if (!organizer) {
-        organizer = await this.graph.getAuthenticatedUserEmail();
-      }
+        // Recurring series: check every occurrence within the horizon, not just the first
+        if (recurrence && requiredInternal.length > 0) {
+          const requiredList = requiredInternal.map(a => a.emailAddress.address);
+          const horizonEnd = this.recurrenceHorizonEnd(requestedStart);
+          const occurrences = expandOccurrences(recurrence, requestedStart, requestedEnd, policy.timeZone, horizonEnd);
+          const { busy } = await this.availability.findBusyAttendees(organizer, requiredList, occurrences, internalBuffers, [], 'cached');
+          recurrenceConflicts = this.toRecurrenceConflicts(occurrences, busy);
+          occurrenceCount = occurrences.length;
+          logger.log(`🔁 ${describeRecurrence(recurrence)}: ${recurrenceConflicts.length} of ${occurrences.length} occurrences conflict`);
+        }
 
-      // Categorize attendees
-      const attendeeObjects = parsed.attendees.map((email: string) => ({
-        emailAddress: { address: email }
-      }));
-      const { internal, external } = this.categorizeAttendees(attendeeObjects, organizer);
-
-      // Check availability for internal users
-      let availabilityStatus: any = {};
-      let isSlotBusy = false;
-      let alternativeSlots: any[] = [];
-
-      if (internal.length > 0) {
-        try {
-          const scheduleResponse = await this.graph.getSchedule(
-            organizer,
-            internal.map(a => a.emailAddress.address),
-            parsed.startTime,
-            parsed.endTime
-          );
-
-          // Parse schedule response to check if anyone is busy
-          logger.log('📅 Schedule API Response:', JSON.stringify(scheduleResponse, null, 2));
-
-          const requestedStart = new Date(parsed.startTime);
-          const requestedEnd = new Date(parsed.endTime);
-
-          logger.log(`🕐 Requested time slot (UTC): ${requestedStart.toISOString()} - ${requestedEnd.toISOString()}`);
-
-          scheduleResponse.value?.forEach((schedule: any) => {
-            const email = schedule.scheduleId;
-
-            logger.log(`\n👤 Checking availability for: ${email}`);
-            logger.log(`   Total schedule items: ${schedule.scheduleItems?.length || 0}`);
-
-            // Check if any schedule item overlaps with the requested time slot
-            const isBusy = schedule.scheduleItems?.some((item: any) => {
-              logger.log(`   📅 Item: ${item.start.dateTime} - ${item.end.dateTime} (${item.status})`);
-
-              if (item.status !== 'busy' && item.status !== 'tentative') {
-                logger.log(`      ✓ Skipping (status: ${item.status})`);
-                return false;
-              }
-
-              // Check for time overlap
-              // Ensure we're working with UTC times
-              const itemStart = new Date(item.start.dateTime + (item.start.dateTime.endsWith('Z') ? '' : 'Z'));
-              const itemEnd = new Date(item.end.dateTime + (item.end.dateTime.endsWith('Z') ? '' : 'Z'));
-
-              logger.log(`      Item Start (UTC): ${itemStart.toISOString()}`);
-              logger.log(`      Item End (UTC):   ${itemEnd.toISOString()}`);
-              logger.log(`      Requested Start:  ${requestedStart.toISOString()}`);
-              logger.log(`      Requested End:    ${requestedEnd.toISOString()}`);
-
-              // Two time ranges overlap if: start1 < end2 AND start2 < end1
-              const overlaps = requestedStart < itemEnd && itemStart < requestedEnd;
-
-              logger.log(`      Overlap check: ${requestedStart.toISOString()} < ${itemEnd.toISOString()} = ${requestedStart < itemEnd}`);
-              logger.log(`                     ${itemStart.toISOString()} < ${requestedEnd.toISOString()} = ${itemStart < requestedEnd}`);
-              logger.log(`      Result: ${overlaps ? '⚠️ CONFLICT!' : '✓ No conflict'}`);
-
-              return overlaps;
-            });
-
-            availabilityStatus[email] = isBusy ? 'busy' : 'free';
-            logger.log(`\n   Final status for ${email}: ${isBusy ? '✗ BUSY' : '✓ FREE'}`);
-            if (isBusy) isSlotBusy = true;
-          });
-
-          logger.log('\n📊 Final availability status:', availabilityStatus);
-          logger.log('⚠️ Is slot busy:', isSlotBusy);
-
-          // If slot is busy, find alternative time slots
-          if (isSlotBusy) {
-            logger.log('🔍 Finding alternative time slots...');
-
-            // Calculate duration from parsed times
-            const startDate = new Date(parsed.startTime);
-            const endDate = new Date(parsed.endTime);
-            const durationMinutes = (endDate.getTime() - startDate.getTime()) / (1000 * 60);
-
-            // Search for slots starting from current time if requested date is today or past
-            const searchStartDate = new Date(startDate);
-            const now = new Date();
-
-            // If the requested date is today or in the past, start from current time
-            // Otherwise, start from beginning of the requested day
-            if (searchStartDate <= now) {
-              searchStartDate.setTime(now.getTime());
-            } else {
-              searchStartDate.setHours(0, 0, 0, 0);
-            }
+        // If slot is busy (or any occurrence of the series is), find alternative time slots
+        if (isSlotBusy || roomUnavailable || recurrenceConflicts.length > 0) {
+          logger.log('🔍 Finding alternative time slots...');
+
+          // Calculate duration from parsed times
+          const startDate = new Date(draft.startTime);
+          const endDate = new Date(draft.endTime);
+          const durationMinutes = (endDate.getTime() - startDate.getTime()) / (1000 * 60);
+
+          // Search for slots starting from current time if requested date is today or past
+          const searchStartDate = new Date(startDate);
+          const now = new Date();
+
+          // If the requested date is today or in the past, start from current time
+          // Otherwise, start from beginning of the requested day (in the organizer's timezone)
+          if (searchStartDate <= now) {
+            searchStartDate.setTime(now.getTime());
+          } else {
+            searchStartDate.setTime(zonedTimeToUtc(toLocalDateString(startDate, policy.timeZone), '00:00', policy.timeZone).getTime());
+          }
 
-            const searchEndDate = new Date(searchStartDate);
-            searchEndDate.setDate(searchEndDate.getDate() + 7);
-
-            try {
-              const findRes = await this.graph.findMeetingTimes(organizer, internal, {
-                attendees: internal,
-                timeConstraint: {
-                  timeslots: [{
-                    start: { dateTime: searchStartDate.toISOString(), timeZone: 'UTC' },
-                    end: { dateTime: searchEndDate.toISOString(), timeZone: 'UTC' }
-                  }],
-                  activityDomain: 'unrestricted' // Allow suggestions throughout the entire day, not just work hours
-                },
-                meetingDuration: `PT${durationMinutes}M`,
-                maxCandidates: 50, // Request many more to ensure we have enough after filtering
-                minimumAttendeePercentage: 100, // All attendees must be available
-                isOrganizerOptional: false,
+          const searchEndDate = new Date(searchStartDate);
+          searchEndDate.setDate(searchEndDate.getDate() + 7);
+
+          try {
+            // Working hours of the organizer and every required internal attendee must all contain the slot
+            const requiredList = this.uniqueEmails([organizer, ...requiredInternal.map(a => a.emailAddress.address)]);
+            const requiredBuffers = await this.policy.getBufferPoliciesForUsers(requiredList);
+            const candidateSlots = await this.availability.findSlots(organizer, requiredList, {
+              windowStart: searchStartDate,
+              windowEnd: searchEndDate,
+              durationMinutes,
+              granularityMinutes: this.slotGranularityMinutes(),
+              minFragmentMinutes: this.minFragmentMinutes(),
+              workingHours: Object.values(await this.policy.getPoliciesForUsers(requiredList)),
+              notBefore: new Date(),
+            }, requiredBuffers, [], 'cached');
+
+            // A requested room must be free as well
+            const candidatesWithRooms = await this.withRooms(organizer, roomRequest, candidateSlots, recurrence
+              ? slot => expandOccurrences(recurrence, slot.start, slot.end, policy.timeZone, this.recurrenceHorizonEnd(slot.start))
+              : undefined);
+            const roomSlots = candidatesWithRooms.map(c => c.slot);
+
+            // Who of the optional attendees can make each remaining candidate
+            const optionalAvailability = await this.getOptionalAvailability(
+              organizer,
+              optionalInternal.map(a => a.emailAddress.address),
+              roomSlots,
+            );
+
+            const businessHoursSlots = roomSlots
+              .map((slot, index) => {
+                const slotStart = slot.start;
+                // Calculate time difference from requested slot (in minutes)
+                const timeDiff = Math.abs(slotStart.getTime() - startDate.getTime()) / (1000 * 60);
+                return {
+                  slot,
+                  timeDiff,
+                  slotStart,
+                  optionalAttendees: optionalAvailability?.[index],
+                  room: candidatesWithRooms[index].room,
+                };
+              })
+              .sort((a: any, b: any) => {
+                // Calculate time difference in hours
+                const aHoursDiff = a.timeDiff / 60;
+                const bHoursDiff = b.timeDiff / 60;
+
+                // Check if same day (in the organizer's timezone)
+                const sameDay = (date1: Date, date2: Date) =>
+                  toLocalDateString(date1, policy.timeZone) === toLocalDateString(date2, policy.timeZone);
+
+                const aIsSameDay = sameDay(a.slotStart, startDate);
+                const bIsSameDay = sameDay(b.slotStart, startDate);
+
+                // Priority 1: Slots within 3 hours (very close to requested time)
+                const aIsVeryClose = aHoursDiff <= 3;
+                const bIsVeryClose = bHoursDiff <= 3;
+
+                if (aIsVeryClose && !bIsVeryClose) return -1;
+                if (!aIsVeryClose && bIsVeryClose) return 1;
+
+                // Priority 2: Same day (but only if both are or aren't very close)
+                if (aIsSameDay && !bIsSameDay) return -1;
+                if (!aIsSameDay && bIsSameDay) return 1;
+
+                // Priority 3: More optional attendees can make it (tie-breaker)
+                const optionalDiff = (b.optionalAttendees?.available.length ?? 0) - (a.optionalAttendees?.available.length ?? 0);
+                if (optionalDiff !== 0) return optionalDiff;
+
+                // Priority 4: Sort by time proximity
+                return a.timeDiff - b.timeDiff;
+              })
+              .slice(0, 5)
+              .map((item: any, index: number) => {
+                const slot = {
+                  rank: index + 1,
+                  start: item.slot.start.toISOString(),
+                  end: item.slot.end.toISOString(),
+                  confidence: 100,
+                  reason: item.room ? `All required attendees and ${item.room.displayName} are free` : 'All required attendees are free',
+                  attendeeAvailability: requiredList.map(email => ({
+                    email,
+                    availability: 'free'
+                  })),
+                  optionalAttendees: item.optionalAttendees,
+                  room: item.room,
+                };
+
+                // Log the slot time in both UTC and the organizer's timezone for verification
+                const localTime = formatInTimeZone(new Date(slot.start), policy.timeZone);
+                logger.log(`   Slot ${slot.rank}: UTC ${slot.start} → ${policy.timeZone} ${localTime}`);
+
+                return slot;
               });
 
-              logger.log(`📊 Graph API returned ${findRes.meetingTimeSuggestions?.length || 0} suggestions`);
-
-              // logger.log(findRes.meetingTimeSuggestions);
-
-              // Filter out slots that are in the past and outside business hours
-              const now = new Date();
-
-              // Helper function to check if a slot overlaps with any busy calendar event
-              const hasConflict = (slotStartTime: Date, slotEndTime: Date): boolean => {
-                return scheduleResponse.value?.some((schedule: any) => {
-                  return schedule.scheduleItems?.some((item: any) => {
-                    if (item.status !== 'busy' && item.status !== 'tentative') {
-                      return false;
-                    }
-
-                    const itemStart = new Date(item.start.dateTime + (item.start.dateTime.endsWith('Z') ? '' : 'Z'));
-                    const itemEnd = new Date(item.end.dateTime + (item.end.dateTime.endsWith('Z') ? '' : 'Z'));
-
-                    // Two time ranges overlap if: start1 < end2 AND start2 < end1
-                    const overlaps = slotStartTime < itemEnd && itemStart < slotEndTime;
-
-                    if (overlaps) {
-                      logger.log(`   ⚠️ Calendar conflict for ${schedule.scheduleId}: ${itemStart.toISOString()} - ${itemEnd.toISOString()}`);
-                    }
-
-                    return overlaps;
-                  });
-                });
-              };
-
-
-              const businessHoursSlots = (findRes.meetingTimeSuggestions || [])
-                .filter((slot: any) => {
-                  const slotStart = new Date(slot.meetingTimeSlot.start.dateTime);
-                  const slotEnd = new Date(slot.meetingTimeSlot.end.dateTime);
-
-                  // Filter out past times FIRST
-                  if (slotStart < now) {
-                    logger.log(`⏭️ Skipping past slot: ${slotStart.toISOString()}`);
-                    return false;
-                  }
-
-                  // CRITICAL: Manually check for conflicts using actual calendar data
-                  // Graph API's attendeeAvailability is unreliable with activityDomain: 'unrestricted'
-                  if (hasConflict(slotStart, slotEnd)) {
-                    logger.log(`⏭️ Skipping slot with calendar conflict: ${slotStart.toISOString()} - ${slotEnd.toISOString()}`);
-                    return false;
-                  }
-
-                  // Convert UTC to IST (UTC+5:30) by adding offset milliseconds
-                  // IST is UTC + 5 hours 30 minutes = 19800000 milliseconds
-                  const istOffset = 5.5 * 60 * 60 * 1000; // 5.5 hours in milliseconds
-                  const istTime = new Date(slotStart.getTime() + istOffset);
-                  const istHour = istTime.getUTCHours(); // Use getUTCHours() since we already added the offset
-
-                  // Business hours: 9 AM to 6 PM IST (in 24-hour format)
-                  const inBusinessHours = istHour >= 9 && istHour < 18;
-                  if (!inBusinessHours) {
-                    logger.log(`⏭️ Skipping non-business hours slot: ${slotStart.toISOString()} (IST hour: ${istHour})`);
-                  }
-                  return inBusinessHours;
-                })
-                .map((slot: any) => {
-                  const slotStart = new Date(slot.meetingTimeSlot.start.dateTime);
-                  // Calculate time difference from requested slot (in minutes)
-                  const timeDiff = Math.abs(slotStart.getTime() - startDate.getTime()) / (1000 * 60);
-                  return {
-                    slot,
-                    timeDiff,
-                    slotStart
-                  };
-                })
-                .sort((a: any, b: any) => {
-                  // Calculate time difference in hours
-                  const aHoursDiff = a.timeDiff / 60;
-                  const bHoursDiff = b.timeDiff / 60;
-
-                  // Check if same day
-                  const sameDay = (date1: Date, date2: Date) =>
-                    date1.getUTCFullYear() === date2.getUTCFullYear() &&
-                    date1.getUTCMonth() === date2.getUTCMonth() &&
-                    date1.getUTCDate() === date2.getUTCDate();
-
-                  const aIsSameDay = sameDay(a.slotStart, startDate);
-                  const bIsSameDay = sameDay(b.slotStart, startDate);
-
-                  // Priority 1: Slots within 3 hours (very close to requested time)
-                  const aIsVeryClose = aHoursDiff <= 3;
-                  const bIsVeryClose = bHoursDiff <= 3;
-
-                  if (aIsVeryClose && !bIsVeryClose) return -1;
-                  if (!aIsVeryClose && bIsVeryClose) return 1;
-
-                  // Priority 2: Same day (but only if both are or aren't very close)
-                  if (aIsSameDay && !bIsSameDay) return -1;
-                  if (!aIsSameDay && bIsSameDay) return 1;
-
-                  // Priority 3: Sort by time proximity
-                  return a.timeDiff - b.timeDiff;
-                })
-                .slice(0, 5)
-                .map((item: any, index: number) => {
-                  const slot = {
-                    rank: index + 1,
-                    start: item.slot.meetingTimeSlot.start.dateTime,
-                    end: item.slot.meetingTimeSlot.end.dateTime,
-                    confidence: item.slot.confidence,
-                    reason: item.slot.suggestionReason || 'Available time slot',
-                    attendeeAvailability: item.slot.attendeeAvailability?.map((a: any) => ({
-                      email: a.attendee?.emailAddress?.address,
-                      availability: a.availability
-                    }))
-                  };
-
-                  // Log the slot time in both UTC and IST for verification
-                  const startDate = new Date(slot.start);
-                  const istTime = startDate.toLocaleString('en-IN', {
-                    timeZone: 'Asia/Kolkata',
-                    dateStyle: 'medium',
-                    timeStyle: 'short'
-                  });
-                  logger.log(`   Slot ${slot.rank}: UTC ${slot.start} → IST ${istTime}`);
-
-                  return slot;
-                });
-
-              logger.log(`📋 After filtering: ${businessHoursSlots.length} slots remaining (from ${findRes.meetingTimeSuggestions?.length || 0} total)`);
-              alternativeSlots = businessHoursSlots;
-              logger.log(`✅ Returning ${alternativeSlots.length} alternative slots (filtered for future times + business hours, sorted by proximity)`);
-            } catch (error) {
-              logger.warn('Failed to find alternative slots:', error);
+            logger.log(`📋 After filtering: ${businessHoursSlots.length} slots remaining (from ${candidateSlots.length} candidates)`);
+            alternativeSlots = businessHoursSlots;
+
+            // For a series, prefer alternatives whose every occurrence is free
+            if (recurrence) {
+              await this.annotateRecurrenceConflicts(organizer, requiredInternal.map(a => a.emailAddress.address), alternativeSlots, recurrence, policy.timeZone, requiredBuffers);
+              alternativeSlots = alternativeSlots
+                .sort((a: any, b: any) => (a.recurrenceConflicts?.length ?? 0) - (b.recurrenceConflicts?.length ?? 0) || a.rank - b.rank)
+                .map((slot: any, index: number) => ({ ...slot, rank: index + 1 }));
             }
+
+            // The agent reorders them against the requested time and everyone's load; confidence follows its score
+            const { slots: rankedAlternatives } = await this.rankSlots(
+              alternativeSlots.map((slot: any) => ({ ...slot, available: (slot.recurrenceConflicts?.length ?? 0) === 0 })),
+              this.rankingContext(organizer, policy, requiredList, optionalEmails, durationMinutes, { requestedStart: startDate.toISOString() }),
+            );
+            alternativeSlots = rankedAlternatives.map(slot => ({ ...slot, confidence: Math.round(slot.score * 100) }));
+            logger.log(`✅ Returning ${alternativeSlots.length} alternative slots (filtered for future times + business hours, ranked)`);
+          } catch (error) {
+            logger.warn('Failed to find alternative slots:', error);
           }
-        } catch (error) {
-          logger.warn('Failed to check availability:', error);
         }
+      } catch (error) {
+        logger.warn('Failed to check availability:', error);
       }
+    }
 
-      logger.log('📤 Returning parsed details with availability:', {
-        internalCount: internal.length,
-        externalCount: external.length,
-        availabilityStatus,
-        isSlotBusy,
-        alternativeSlotsCount: alternativeSlots.length
-      });
+    logger.log('📤 Returning parsed details with availability:', {
+      internalCount: internal.length,
+      externalCount: external.length,
+      availabilityStatus,
+      isSlotBusy,
+      alternativeSlotsCount: alternativeSlots.length
+    });
 
-      return {
-        subject: parsed.subject || 'Meeting',
-        attendees: parsed.attendees || [],
-        startTime: parsed.startTime,
-        endTime: parsed.endTime,
-        duration: parsed.duration,
-        confidence: 0.9,
-        parsedFrom: input,
-        internalAttendees: internal.map(a => a.emailAddress.address),
-        externalAttendees: external.map(a => a.emailAddress.address),
-        availabilityStatus,
-        isSlotBusy,
-        hasExternalAttendees: external.length > 0,
-        alternativeSlots: isSlotBusy ? alternativeSlots : [],
-      };
-    } catch (error) {
-      logger.error('Error parsing natural language:', error);
-      throw new Error('Failed to parse meeting details from input');
-    }
+    return {
+      subject: draft.subject,
+      attendees: requiredEmails,
+      optionalAttendees: optionalEmails,
+      startTime: draft.startTime,
+      endTime: draft.endTime,
+      duration: draft.duration,
+      confidence: 0.9,
+      internalAttendees: internal.map(a => a.emailAddress.address),
+      externalAttendees: external.map(a => a.emailAddress.address),
+      availabilityStatus,
+      isSlotBusy,
+      hasExternalAttendees: external.length > 0,
+      alternativeSlots: isSlotBusy || roomUnavailable || recurrenceConflicts.length > 0 ? alternativeSlots : [],
+      recurrence,
+      recurrenceDescription: recurrence ? describeRecurrence(recurrence) : undefined,
+      occurrenceCount,
+      recurrenceConflicts,
+      roomRequest,
+      room,
+      roomUnavailable,
+      groups,
+      isOnlineMeeting,
+      willBeOnline: isOnlineMeeting ?? onlineByDefault,
+      location: draft.location,
+      description: draft.description,
+    };
   }
 }
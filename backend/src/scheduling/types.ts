@@ -1,5 +1,53 @@
-export interface Attendee { emailAddress: { address: string; name?: string; }; type?: 'Required' | 'Optional'; }
-export interface Slot { start: string; end: string; available?: boolean; }
-export interface RankedSlot { rank: number; start: string; end: string; score: number; reason: string; }
-export interface SuggestRequestDTO { organizer?: string; attendees: Attendee[]; start: string; end: string; }
-export interface ScheduleRequestDTO extends SuggestRequestDTO { createIfFree?: boolean; }
+import { RoomAssignment, RoomRequest } from '../rooms/types';
+
+export interface Attendee { emailAddress: { address: string; name?: string; }; type?: 'Required' | 'Optional' | 'Resource'; }
+export interface OptionalAttendeeAvailability { available: string[]; unavailable: string[]; }
+export interface RecurrenceDTO {
+  pattern: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval?: number;        // every N days/weeks/months/years (default 1)
+  daysOfWeek?: string[];    // weekly only, e.g. ['tuesday']; defaults to the first occurrence's weekday
+  endDate?: string;         // YYYY-MM-DD, inclusive, in the organizer's timezone
+  occurrences?: number;     // alternative to endDate
+}
+export interface ExpandedGroup { email: string; displayName?: string; members: string[]; truncated: boolean; }
+export interface RecurrenceConflict { start: string; end: string; busyAttendees: string[]; }
+export interface Slot { start: string; end: string; available?: boolean; optionalAttendees?: OptionalAttendeeAvailability; recurrenceConflicts?: RecurrenceConflict[]; room?: RoomAssignment; }
+// A suggestion after ranking: `reason` explains its place (from the LLM, or the deterministic ranker)
+export interface RankedSlot extends Slot { rank: number; score: number; reason: string; }
+export interface SuggestRequestDTO {
+  organizer?: string;
+  attendees: Attendee[];
+  start: string;               // search window start
+  end: string;                 // search window end
+  durationMinutes?: number;    // meeting length (default: 60, or the window if shorter)
+  maxCandidates?: number;      // default 5
+  meetingType?: string;        // selects per-type buffers, e.g. "interview" (see GET /policy/meeting-types)
+  room?: RoomRequest;          // also book a matching room that is free
+  recurrence?: RecurrenceDTO;
+  recurrenceHorizonDays?: number;
+}
+export interface ScheduleRequestDTO extends SuggestRequestDTO {
+  subject?: string;
+  createIfFree?: boolean;
+  idempotencyKey?: string; // also accepted as the Idempotency-Key header
+  isOnlineMeeting?: boolean; // add a Teams link; defaults to the organization's setting
+  description?: string; // agenda in markdown, converted to HTML for the invite
+  location?: string; // free-text location; a booked room takes precedence
+}
+// Meeting details read from natural language (and edited in conversations) before availability is checked
+export interface MeetingDraft {
+  subject: string;
+  attendees: string[];         // required
+  optionalAttendees: string[];
+  startTime: string;           // ISO 8601, UTC
+  endTime: string;
+  duration?: number;           // minutes
+  recurrence?: RecurrenceDTO;
+  roomRequest?: RoomRequest;
+  isOnlineMeeting?: boolean;   // unset: the organization's default
+  location?: string;
+  description?: string;
+}
+export interface RescheduleRequestDTO { start: string; end: string; force?: boolean; } // force: move even if someone is busy
+export interface UpdateMeetingDTO { subject?: string; attendees?: Attendee[]; }
+export interface CancelMeetingDTO { comment?: string; notifyAttendees?: boolean; } // notifyAttendees defaults to true
@@ -0,0 +1,17 @@
+export interface UserSyncStats {
+  full: boolean;        // enumerated the whole directory (first run, or the delta token expired)
+  upserted: number;
+  removed: number;      // soft-deleted: removed or disabled in the directory
+  timeZones: number;    // mailbox timezones read
+}
+
+export interface UserSyncStatus {
+  enabled: boolean;
+  running: boolean;
+  intervalMinutes: number;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastStats: UserSyncStats | null;
+  nextRunAt: string | null;
+}
@@ -0,0 +1,94 @@
+import { BadRequestException, Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { UserSyncService } from './user-sync.service';
+import { UserSyncStats, UserSyncStatus } from './types';
+const logger = new Logger('UserSyncJobService');
+
+/**
+ * Runs the directory sync every USER_SYNC_INTERVAL_MINUTES (0 disables the schedule; runs can still be triggered
+ * through the admin endpoint). Only one run at a time per instance; progress is kept in DirectorySyncState.
+ */
+@Injectable()
+export class UserSyncJobService implements OnModuleInit, OnModuleDestroy {
+  private intervalMinutes: number;
+  private timer: NodeJS.Timeout | null = null;
+  private nextRunAt: Date | null = null;
+  private running: Promise<UserSyncStats | null> | null = null;
+
+  constructor(
+    @Inject('PRISMA') private prisma: any,
+    private userSync: UserSyncService,
+    private providers: CalendarProvidersService,
+  ) {
+    this.intervalMinutes = parseInt(process.env.USER_SYNC_INTERVAL_MINUTES || '60', 10);
+  }
+
+  // The directory is Azure AD's: nothing to sync offline or without Graph credentials
+  private canSync(): boolean {
+    return !this.providers.offline && this.providers.get('microsoft').isConfigured();
+  }
+
+  onModuleInit() {
+    if (!this.canSync() || this.intervalMinutes <= 0) {
+      logger.log('Scheduled directory sync disabled');
+      return;
+    }
+    this.schedule(0);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearTimeout(this.timer);
+  }
+
+  private schedule(delayMs: number) {
+    this.nextRunAt = new Date(Date.now() + delayMs);
+    this.timer = setTimeout(async () => {
+      await this.trigger();
+      this.schedule(this.intervalMinutes * 60 * 1000);
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Start a run unless one is already going; resolves when it finishes (null if it failed)
+   */
+  trigger(): Promise<UserSyncStats | null> {
+    if (!this.canSync()) throw new BadRequestException('Directory sync needs Microsoft Graph (AZURE_* settings, not offline mode)');
+    this.running ??= this.run().finally(() => { this.running = null; });
+    return this.running;
+  }
+
+  // Never rejects: failures (including recording them) are logged and kept in DirectorySyncState
+  private async run(): Promise<UserSyncStats | null> {
+    const provider = 'microsoft';
+    try {
+      await this.prisma.directorySyncState.upsert({ where: { provider }, update: { lastRunAt: new Date() }, create: { provider, lastRunAt: new Date() } });
+      const stats = await this.userSync.syncDirectory(this.prisma);
+      await this.prisma.directorySyncState.update({
+        where: { provider },
+        data: { lastSuccessAt: new Date(), lastError: null, lastStats: JSON.stringify(stats) },
+      });
+      return stats;
+    } catch (error: any) {
+      const message = error?.response?.data?.error?.message || error?.message || String(error);
+      logger.error(`Directory sync failed: ${message}`);
+      await this.prisma.directorySyncState.upsert({ where: { provider }, update: { lastError: message }, create: { provider, lastError: message } })
+        .catch((stateError: any) => logger.error(`Could not record the sync failure: ${stateError?.message || stateError}`));
+      return null;
+    }
+  }
+
+  async status(): Promise<UserSyncStatus> {
+    const state = await this.prisma.directorySyncState.findUnique({ where: { provider: 'microsoft' } });
+    return {
+      enabled: this.canSync(),
+      running: !!this.running,
+      intervalMinutes: this.intervalMinutes,
+      lastRunAt: state?.lastRunAt?.toISOString() ?? null,
+      lastSuccessAt: state?.lastSuccessAt?.toISOString() ?? null,
+      lastError: state?.lastError ?? null,
+      lastStats: state?.lastStats ? JSON.parse(state.lastStats) : null,
+      nextRunAt: this.timer ? this.nextRunAt?.toISOString() ?? null : null,
+    };
+  }
+}
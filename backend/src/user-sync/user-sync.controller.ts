@@ -0,0 +1,23 @@
+import { Controller, Get, HttpCode, Logger, Post, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../auth/admin.guard';
+import { UserSyncJobService } from './user-sync-job.service';
+const logger = new Logger('UserSyncController');
+
+@Controller('admin/user-sync')
+@UseGuards(AdminGuard)
+export class UserSyncController {
+  constructor(private job: UserSyncJobService) { }
+
+  @Get()
+  async status() {
+    return this.job.status();
+  }
+
+  // Starts a run in the background; poll GET for the outcome
+  @Post()
+  @HttpCode(202)
+  async trigger() {
+    this.job.trigger().catch((error: any) => logger.error(`Directory sync run failed: ${error?.message || error}`));
+    return this.job.status();
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CalendarProvidersModule } from '../calendar-providers/calendar-providers.module';
+import { UserSyncJobService } from './user-sync-job.service';
+import { UserSyncController } from './user-sync.controller';
+
+@Module({
+  imports: [PrismaModule, CalendarProvidersModule],
+  controllers: [UserSyncController],
+  providers: [UserSyncJobService],
+})
+export class UserSyncModule { }
@@ -1,44 +1,131 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { GraphClient } from '../graph/graph.client';
+import { CalendarProvidersService } from '../calendar-providers/calendar-providers.service';
+import { DirectoryUser } from '../calendar-providers/types';
+import { toIanaTimeZone } from '../policy/windows-timezones';
+import { UserSyncStats } from './types';
 const logger = new Logger('UserSyncService');
 
+const SYNC_PROVIDER = 'microsoft';
+
 @Injectable()
 export class UserSyncService {
-  constructor(private graph: GraphClient) { }
+  constructor(private graph: GraphClient, private providers: CalendarProvidersService) { }
+
+  /**
+   * Incremental directory sync from Graph /users/delta, resuming from the stored deltaLink. Users removed or disabled
+   * in the directory are soft-deleted (deletedAt); changed users get their mailbox timezone re-read. The first run,
+   * or one whose deltaLink expired, enumerates everyone and soft-deletes synced users it didn't see.
+   */
+  async syncDirectory(prisma: any): Promise<UserSyncStats> {
+    const startedAt = new Date();
+    const state = await prisma.directorySyncState.findUnique({ where: { provider: SYNC_PROVIDER } });
+    let full = !state?.deltaLink;
+    let delta: { users: any[]; deltaLink: string };
+    try {
+      delta = await this.graph.getUsersDelta(state?.deltaLink ?? undefined);
+    } catch (error: any) {
+      if (full || error?.response?.status !== 410) throw error;
+      logger.warn('Directory delta token expired; running a full sync');
+      full = true;
+      delta = await this.graph.getUsersDelta();
+    }
 
-  async syncAllUsers(prisma: any) {
-    const graphUsers = await this.graph.listUsers(100);
-    logger.log(`Fetched ${graphUsers.length} users from Graph`);
-    for (const gu of graphUsers) {
+    const stats: UserSyncStats = { full, upserted: 0, removed: 0, timeZones: 0 };
+    const active: string[] = [];
+    for (const gu of delta.users) {
       try {
-        await prisma.user.upsert({
-          where: { azureId: gu.id },
-          update: {
-            displayName: gu.displayName ?? gu.userPrincipalName ?? null,
-            email: gu.mail ?? gu.userPrincipalName ?? null,
-          },
-          create: {
-            azureId: gu.id,
-            displayName: gu.displayName ?? gu.userPrincipalName ?? null,
-            email: gu.mail ?? gu.userPrincipalName ?? null,
-          }
-        });
+        if (gu['@removed'] || gu.accountEnabled === false) {
+          const { count } = await prisma.user.updateMany({ where: { azureId: gu.id, deletedAt: null }, data: { deletedAt: startedAt, syncedAt: startedAt } });
+          stats.removed += count;
+          continue;
+        }
+        // Incremental rounds only carry the properties that changed
+        const data: Record<string, any> = { syncedAt: startedAt, deletedAt: null };
+        if (gu.displayName !== undefined || gu.userPrincipalName !== undefined) data.displayName = gu.displayName ?? gu.userPrincipalName ?? null;
+        if (gu.mail !== undefined || gu.userPrincipalName !== undefined) data.email = gu.mail ?? gu.userPrincipalName ?? null;
+        if (gu.department !== undefined) data.department = gu.department;
+        const manager = gu['manager@delta']?.[0];
+        if (manager) data.managerAzureId = manager['@removed'] ? null : manager.id;
+        await prisma.user.upsert({ where: { azureId: gu.id }, update: data, create: { azureId: gu.id, ...data } });
+        active.push(gu.id);
+        stats.upserted++;
       } catch (e) {
-        logger.warn(`Failed to upsert user ${gu?.id}: ${(e as any)?.message ?? e}`);
+        logger.warn(`Failed to sync user ${gu?.id}: ${(e as any)?.message ?? e}`);
+      }
+    }
+
+    if (active.length > 0) {
+      const timeZones = await this.graph.getMailboxTimeZones(active);
+      for (let i = 0; i < active.length; i++) {
+        const timeZone = toIanaTimeZone(timeZones[i]);
+        if (!timeZone) continue;
+        await prisma.user.update({ where: { azureId: active[i] }, data: { mailboxTimeZone: timeZone } });
+        stats.timeZones++;
       }
     }
+
+    if (full) {
+      // Directory users (unprefixed Azure ids) a full enumeration didn't return no longer exist
+      const { count } = await prisma.user.updateMany({
+        where: { deletedAt: null, NOT: { azureId: { contains: ':' } }, OR: [{ syncedAt: null }, { syncedAt: { lt: startedAt } }] },
+        data: { deletedAt: startedAt },
+      });
+      stats.removed += count;
+    }
+
+    await prisma.directorySyncState.upsert({
+      where: { provider: SYNC_PROVIDER },
+      update: { deltaLink: delta.deltaLink },
+      create: { provider: SYNC_PROVIDER, deltaLink: delta.deltaLink },
+    });
+    logger.log(`Directory sync (${full ? 'full' : 'incremental'}): ${stats.upserted} upserted, ${stats.removed} removed, ${stats.timeZones} timezone(s)`);
+    return stats;
   }
 
   async ensureUserInPrisma(prisma: any, userPrincipalNameOrId: string) {
-    const existing = await prisma.user.findFirst({ where: { OR: [{ azureId: userPrincipalNameOrId }, { email: userPrincipalNameOrId }] } });
-    if (existing) return existing;
-    const gu = await this.graph.getUserById(userPrincipalNameOrId);
-    if (!gu) return null;
-    const up = await prisma.user.upsert({
-      where: { azureId: gu.id },
-      update: { displayName: gu.displayName ?? gu.userPrincipalName, email: gu.mail ?? gu.userPrincipalName },
-      create: { azureId: gu.id, displayName: gu.displayName ?? gu.userPrincipalName, email: gu.mail ?? gu.userPrincipalName }
+    const [user] = await this.ensureUsersInPrisma(prisma, [userPrincipalNameOrId]);
+    return user;
+  }
+
+  /**
+   * ensureUserInPrisma for many users: unknown ones are looked up per provider, in bulk where the provider
+   * supports it (Graph $batch). Results are in input order, null for users their directory doesn't know.
+   * Soft-deleted users are null too and are never restored here: only the directory sync brings them back, once it
+   * sees them enabled again. Their address may belong to a new account meanwhile, which gets its own row.
+   */
+  async ensureUsersInPrisma(prisma: any, userPrincipalNamesOrIds: string[]) {
+    const existing: any[] = await prisma.user.findMany({
+      where: { deletedAt: null, OR: [{ azureId: { in: userPrincipalNamesOrIds } }, { email: { in: userPrincipalNamesOrIds } }] },
     });
-    return up;
+    const known = (id: string) => existing.find(u => u.azureId === id || u.email === id);
+    const missing = Array.from(new Set(userPrincipalNamesOrIds.filter(id => !known(id))));
+
+    const added = new Map<string, any>();
+    for (const { provider, emails } of this.providers.groupByProvider(missing)) {
+      // Looked up in the user's own directory; ids from other providers are prefixed so they can't collide with Azure ids
+      let found: (DirectoryUser | null)[];
+      if (provider.findUsers) {
+        found = await provider.findUsers(emails);
+      } else {
+        found = [];
+        for (const email of emails) found.push(await provider.findUser(email));
+      }
+      for (let i = 0; i < emails.length; i++) {
+        const user = found[i];
+        if (!user) continue;
+        const directoryId = provider.kind === 'microsoft' ? user.id : `${provider.kind}:${user.id}`;
+        const data = { displayName: user.displayName ?? user.email, email: user.email };
+        const row = await prisma.user.findUnique({ where: { azureId: directoryId } });
+        if (row?.deletedAt) {
+          logger.warn(`Not re-adding ${emails[i]}: removed from the directory at ${row.deletedAt.toISOString()}`);
+          continue;
+        }
+        added.set(emails[i], row
+          ? await prisma.user.update({ where: { id: row.id }, data })
+          : await prisma.user.create({ data: { azureId: directoryId, ...data } }));
+      }
+    }
+    return userPrincipalNamesOrIds.map(id => known(id) ?? added.get(id) ?? null);
   }
 }
@@ -1,7 +1,6 @@
 import React from 'react';
-import { useMsal } from '@azure/msal-react';
-import { api, setAuthToken } from '../lib/api';
-import { loginRequest } from '../lib/msalConfig';
+import { api, WorkingHoursPolicy } from '../lib/api';
+import { useAuth } from '../lib/useAuth';
 import { format, addDays } from 'date-fns';
 
 interface MeetingSuggestion {
@@ -20,15 +19,28 @@ interface AdvancedModeProps {
     onSuggestions: (suggestions: MeetingSuggestion[]) => void;
 }
 
+const formatLocal = (date: Date, timeZone: string) =>
+    date.toLocaleString('en-US', { timeZone, timeStyle: 'short' }) + ` ${timeZone}`;
+
 export default function AdvancedMode({ onError, onSuggestions }: AdvancedModeProps) {
-    const { instance, accounts } = useMsal();
+    const { account, authorize } = useAuth();
     const [attendees, setAttendees] = React.useState<string[]>(['']);
+    const [optionalFlags, setOptionalFlags] = React.useState<boolean[]>([false]);
     const [startDate, setStartDate] = React.useState(format(new Date(), 'yyyy-MM-dd'));
     const [endDate, setEndDate] = React.useState(format(addDays(new Date(), 1), 'yyyy-MM-dd'));
     const [loading, setLoading] = React.useState(false);
+    const [workingHours, setWorkingHours] = React.useState<WorkingHoursPolicy | null>(null);
+
+    React.useEffect(() => {
+        if (!account) return;
+        authorize()
+            .then(() => api.getWorkingHours())
+            .then(setWorkingHours)
+            .catch((err) => console.error('Failed to load working hours:', err));
+    }, [account?.username]);
 
     const isExternalUser = (email: string): boolean => {
-        const userEmail = accounts[0]?.username || '';
+        const userEmail = account?.username || '';
         const userDomain = userEmail.split('@')[1];
         const attendeeDomain = email.split('@')[1];
         return userDomain !== attendeeDomain;
@@ -36,6 +48,7 @@ export default function AdvancedMode({ onError, onSuggestions }: AdvancedModePro
 
     const addAttendee = () => {
         setAttendees([...attendees, '']);
+        setOptionalFlags([...optionalFlags, false]);
     };
 
     const updateAttendee = (index: number, value: string) => {
@@ -46,6 +59,13 @@ export default function AdvancedMode({ onError, onSuggestions }: AdvancedModePro
 
     const removeAttendee = (index: number) => {
         setAttendees(attendees.filter((_, i) => i !== index));
+        setOptionalFlags(optionalFlags.filter((_, i) => i !== index));
+    };
+
+    const toggleOptional = (index: number) => {
+        const newFlags = [...optionalFlags];
+        newFlags[index] = !newFlags[index];
+        setOptionalFlags(newFlags);
     };
 
     const handleSuggest = async () => {
@@ -54,29 +74,21 @@ export default function AdvancedMode({ onError, onSuggestions }: AdvancedModePro
         onSuggestions([]);
 
         try {
-            const now = new Date();
-            const today = format(new Date(), 'yyyy-MM-dd');
-
-            let start: Date;
-            if (startDate === today) {
-                start = new Date();
-            } else {
-                start = new Date(`${startDate}T04:30:00Z`);
-            }
+            await authorize();
 
-            const end = new Date(`${endDate}T15:30:00Z`);
+            // Working windows are resolved server-side from the user's timezone policy
+            const [startWindow, endWindow] = await Promise.all([
+                api.getWorkingWindow(startDate),
+                api.getWorkingWindow(endDate),
+            ]);
 
-            if (start < now) {
-                const timeMsg = startDate === today
-                    ? 'current time'
-                    : `${startDate} 10:00 AM IST`;
-                onError(`Start time (${timeMsg}) has already passed. Please select a future date or time.`);
-                setLoading(false);
-                return;
-            }
+            const now = new Date();
+            const windowStart = new Date(startWindow.start);
+            const start = windowStart < now ? now : windowStart;
+            const end = new Date(endWindow.end);
 
             if (end < now) {
-                onError(`End time (${endDate} 9:00 PM IST) has already passed. Please select a future date.`);
+                onError(`End time (${endDate} ${formatLocal(end, endWindow.timeZone)}) has already passed. Please select a future date.`);
                 setLoading(false);
                 return;
             }
@@ -87,27 +99,17 @@ export default function AdvancedMode({ onError, onSuggestions }: AdvancedModePro
                 return;
             }
 
-            const response = await instance.acquireTokenSilent({
-                ...loginRequest,
-                account: accounts[0],
-            });
-            setAuthToken(response.accessToken);
-
-            const validAttendees = attendees.filter(email => email.trim());
-
-            let apiStartTime: string;
-            if (startDate === today) {
-                apiStartTime = now.toISOString();
-            } else {
-                apiStartTime = `${startDate}T04:30:00Z`;
-            }
+            const validAttendees = attendees
+                .map((email, index) => ({ email, optional: optionalFlags[index] }))
+                .filter(a => a.email.trim());
 
             const result = await api.suggestMeetings({
-                attendees: validAttendees.map(email => ({
-                    emailAddress: { address: email.trim() }
+                attendees: validAttendees.map(a => ({
+                    emailAddress: { address: a.email.trim() },
+                    type: a.optional ? 'Optional' as const : 'Required' as const
                 })),
-                start: apiStartTime,
-                end: `${endDate}T15:30:00Z`,
+                start: start.toISOString(),
+                end: end.toISOString(),
             });
 
             onSuggestions(result);
@@ -122,7 +124,9 @@ export default function AdvancedMode({ onError, onSuggestions }: AdvancedModePro
     return (
         <div>
             <div style={{ fontSize: '0.875rem', color: '#718096', marginBottom: '1.5rem' }}>
-                ⏰ Meeting times: 10:00 AM - 9:00 PM IST
+                ⏰ Meeting times: {workingHours
+                    ? `${workingHours.workDayStart} - ${workingHours.workDayEnd} (${workingHours.timeZone})`
+                    : 'loading your working hours...'}
             </div>
 
             <div style={{ marginBottom: '1.5rem' }}>
@@ -130,7 +134,7 @@ export default function AdvancedMode({ onError, onSuggestions }: AdvancedModePro
                     Attendees
                 </label>
                 <div style={{ fontSize: '0.75rem', color: '#718096', marginBottom: '0.5rem' }}>
-                    💡 Internal users (same domain) will have availability checked. External users will receive invitations only.
+                    💡 Internal users (same domain) will have availability checked. External users will receive invitations only. Optional attendees are invited but never block a slot.
                 </div>
                 {attendees.map((email, index) => {
                     const isExternal = email.trim() && isExternalUser(email.trim());
@@ -162,6 +166,14 @@ export default function AdvancedMode({ onError, onSuggestions }: AdvancedModePro
                                     🌐 External
                                 </span>
                             )}
+                            <label style={{ fontSize: '0.75rem', color: '#4a5568', whiteSpace: 'nowrap', display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                                <input
+                                    type="checkbox"
+                                    checked={!!optionalFlags[index]}
+                                    onChange={() => toggleOptional(index)}
+                                />
+                                Optional
+                            </label>
                             {attendees.length > 1 && (
                                 <button
                                     onClick={() => removeAttendee(index)}
@@ -1,26 +1,12 @@
 import React, { ReactNode } from 'react';
-import { useMsal, useIsAuthenticated } from '@azure/msal-react';
-import { loginRequest } from '../lib/msalConfig';
+import { useAuth, OFFLINE_USER } from '../lib/useAuth';
 
 interface LayoutProps {
     children: ReactNode;
 }
 
 export default function Layout({ children }: LayoutProps) {
-    const { instance, accounts } = useMsal();
-    const isAuthenticated = useIsAuthenticated();
-
-    const handleLogin = () => {
-        instance.loginPopup(loginRequest).catch((e) => {
-            console.error('Login failed:', e);
-        });
-    };
-
-    const handleLogout = () => {
-        instance.logoutPopup().catch((e) => {
-            console.error('Logout failed:', e);
-        });
-    };
+    const { isAuthenticated, account, login, logout } = useAuth();
 
     return (
         <div style={{ minHeight: '100vh', display: 'flex', flexDirection: 'column' }}>
@@ -52,26 +38,28 @@ export default function Layout({ children }: LayoutProps) {
                     {isAuthenticated ? (
                         <>
                             <span style={{ opacity: 0.9 }}>
-                                👤 {accounts[0]?.name || accounts[0]?.username}
+                                👤 {account?.name || account?.username}{OFFLINE_USER && ' (offline)'}
                             </span>
-                            <button
-                                onClick={handleLogout}
-                                style={{
-                                    background: 'rgba(255,255,255,0.2)',
-                                    border: '1px solid rgba(255,255,255,0.3)',
-                                    color: 'white',
-                                    padding: '0.5rem 1rem',
-                                    borderRadius: '6px',
-                                    cursor: 'pointer',
-                                    fontWeight: '500'
-                                }}
-                            >
-                                Logout
-                            </button>
+                            {!OFFLINE_USER && (
+                                <button
+                                    onClick={logout}
+                                    style={{
+                                        background: 'rgba(255,255,255,0.2)',
+                                        border: '1px solid rgba(255,255,255,0.3)',
+                                        color: 'white',
+                                        padding: '0.5rem 1rem',
+                                        borderRadius: '6px',
+                                        cursor: 'pointer',
+                                        fontWeight: '500'
+                                    }}
+                                >
+                                    Logout
+                                </button>
+                            )}
                         </>
                     ) : (
                         <button
-                            onClick={handleLogin}
+                            onClick={login}
                             style={{
                                 background: 'white',
                                 border: 'none',
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
-import { useMsal } from '@azure/msal-react';
-import { api, setAuthToken } from '../lib/api';
-import { loginRequest } from '../lib/msalConfig';
+import { api, OptionalAttendeeAvailability } from '../lib/api';
+import { useAuth } from '../lib/useAuth';
+import { useTimeZone } from '../lib/useTimeZone';
 import SimpleMode from './SimpleMode';
 import AdvancedMode from './AdvancedMode';
 
@@ -14,10 +14,12 @@ interface MeetingSuggestion {
     hasExternalAttendees?: boolean;
     externalAttendeeCount?: number;
     note?: string;
+    optionalAttendees?: OptionalAttendeeAvailability;
 }
 
 export default function MeetingForm() {
-    const { instance, accounts } = useMsal();
+    const { authorize } = useAuth();
+    const timeZone = useTimeZone();
     const [mode, setMode] = useState<'simple' | 'advanced'>('simple');
     const [suggestions, setSuggestions] = useState<MeetingSuggestion[]>([]);
     const [loading, setLoading] = useState(false);
@@ -28,11 +30,7 @@ export default function MeetingForm() {
         setError('');
 
         try {
-            const response = await instance.acquireTokenSilent({
-                ...loginRequest,
-                account: accounts[0],
-            });
-            setAuthToken(response.accessToken);
+            await authorize();
 
             await api.scheduleMeeting({
                 subject: 'Meeting', // Default subject for advanced mode
@@ -152,7 +150,7 @@ export default function MeetingForm() {
                                 <div style={{ flex: 1 }}>
                                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.25rem' }}>
                                         <div style={{ fontWeight: 'bold', color: '#2d3748' }}>
-                                            Rank #{suggestion.rank} (Score: {suggestion.score}%)
+                                            Rank #{suggestion.rank} (Score: {Math.round(suggestion.score * 100)}%)
                                         </div>
                                         {suggestion.hasExternalAttendees && (
                                             <span style={{
@@ -169,17 +167,22 @@ export default function MeetingForm() {
                                     </div>
                                     <div style={{ color: '#4a5568', fontSize: '0.875rem' }}>
                                         {new Date(suggestion.start).toLocaleString('en-IN', {
-                                            timeZone: 'Asia/Kolkata',
+                                            timeZone,
                                             dateStyle: 'medium',
                                             timeStyle: 'short'
                                         })} - {new Date(suggestion.end).toLocaleString('en-IN', {
-                                            timeZone: 'Asia/Kolkata',
+                                            timeZone,
                                             timeStyle: 'short'
                                         })}
                                     </div>
                                     <div style={{ color: '#718096', fontSize: '0.875rem', marginTop: '0.25rem' }}>
                                         {suggestion.reason}
                                     </div>
+                                    {suggestion.optionalAttendees && suggestion.optionalAttendees.available.length + suggestion.optionalAttendees.unavailable.length > 0 && (
+                                        <div style={{ color: '#718096', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                                            Optional attendees: {suggestion.optionalAttendees.available.length} of {suggestion.optionalAttendees.available.length + suggestion.optionalAttendees.unavailable.length} can attend
+                                        </div>
+                                    )}
                                     {suggestion.note && (
                                         <div style={{
                                             marginTop: '0.5rem',
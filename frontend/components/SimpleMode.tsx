@@ -1,11 +1,12 @@
 import React from 'react';
-import { useMsal } from '@azure/msal-react';
-import { api, setAuthToken } from '../lib/api';
-import { loginRequest } from '../lib/msalConfig';
+import { api, ExpandedGroup, OptionalAttendeeAvailability, Recurrence, RecurrenceConflict, RoomAssignment, RoomRequest } from '../lib/api';
+import { useAuth } from '../lib/useAuth';
+import { timeZoneLabel, useTimeZone } from '../lib/useTimeZone';
 
 interface ParsedDetails {
     subject: string;
     attendees: string[];
+    optionalAttendees: string[];
     startTime: string;
     endTime: string;
     duration?: number;
@@ -16,6 +17,18 @@ interface ParsedDetails {
     availabilityStatus: { [email: string]: 'free' | 'busy' };
     isSlotBusy: boolean;
     hasExternalAttendees: boolean;
+    recurrence?: Recurrence;
+    recurrenceDescription?: string;
+    occurrenceCount?: number;
+    recurrenceConflicts?: RecurrenceConflict[];
+    roomRequest?: RoomRequest;
+    room?: RoomAssignment;
+    roomUnavailable?: boolean;
+    groups?: ExpandedGroup[];
+    isOnlineMeeting?: boolean;
+    willBeOnline?: boolean;
+    location?: string;
+    description?: string;
     alternativeSlots?: Array<{
         rank: number;
         start: string;
@@ -26,6 +39,9 @@ interface ParsedDetails {
             email: string;
             availability: string;
         }>;
+        optionalAttendees?: OptionalAttendeeAvailability;
+        recurrenceConflicts?: RecurrenceConflict[];
+        room?: RoomAssignment;
     }>;
 }
 
@@ -35,22 +51,21 @@ interface SimpleModeProps {
 }
 
 export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
-    const { instance, accounts } = useMsal();
+    const { account, authorize } = useAuth();
+    const timeZone = useTimeZone();
     const [naturalInput, setNaturalInput] = React.useState('');
     const [parsedDetails, setParsedDetails] = React.useState<ParsedDetails | null>(null);
     const [loading, setLoading] = React.useState(false);
     const [showConfirmation, setShowConfirmation] = React.useState(false);
+    // One idempotency key per confirmed set of details, so retrying the same booking can't create a second event
+    const bookingKey = React.useRef<{ details: ParsedDetails; key: string } | null>(null);
 
     const handleParse = async () => {
         setLoading(true);
         onError('');
 
         try {
-            const response = await instance.acquireTokenSilent({
-                ...loginRequest,
-                account: accounts[0],
-            });
-            setAuthToken(response.accessToken);
+            await authorize();
 
             const parsed = await api.parseNaturalLanguage(naturalInput);
             setParsedDetails(parsed);
@@ -70,33 +85,62 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
         onError('');
 
         try {
-            const response = await instance.acquireTokenSilent({
-                ...loginRequest,
-                account: accounts[0],
-            });
+            await authorize();
 
-            const organizerEmail = accounts[0]?.username || accounts[0]?.name;
+            const organizerEmail = account?.username || account?.name;
 
             console.log('🔐 Frontend: Acquired access token');
-            console.log('👤 Frontend: User account:', accounts[0]?.username);
+            console.log('👤 Frontend: User account:', account?.username);
             console.log('📧 Frontend: Organizer email:', organizerEmail);
 
-            setAuthToken(response.accessToken);
-
             console.log('📤 Frontend: Scheduling meeting with subject:', parsedDetails.subject);
 
-            await api.scheduleMeeting({
+            if (bookingKey.current?.details !== parsedDetails) {
+                bookingKey.current = { details: parsedDetails, key: crypto.randomUUID() };
+            }
+
+            const result = await api.scheduleMeeting({
                 subject: parsedDetails.subject,
                 organizer: organizerEmail,
-                attendees: parsedDetails.attendees.map((email: string) => ({
-                    emailAddress: { address: email }
-                })),
+                attendees: [
+                    ...parsedDetails.attendees.map((email: string) => ({
+                        emailAddress: { address: email },
+                        type: 'Required' as const
+                    })),
+                    ...(parsedDetails.optionalAttendees || []).map((email: string) => ({
+                        emailAddress: { address: email },
+                        type: 'Optional' as const
+                    })),
+                ],
                 start: parsedDetails.startTime,
                 end: parsedDetails.endTime,
-                createIfFree: false,
+                recurrence: parsedDetails.recurrence,
+                room: parsedDetails.room ? { email: parsedDetails.room.email } : parsedDetails.roomRequest,
+                isOnlineMeeting: parsedDetails.isOnlineMeeting,
+                location: parsedDetails.location,
+                description: parsedDetails.description,
+                createIfFree: true,
+                idempotencyKey: bookingKey.current.key,
             });
 
-            alert(`✅ Meeting "${parsedDetails.subject}" scheduled successfully!\n\nAttendees: ${parsedDetails.attendees.join(', ')}\nTime: ${new Date(parsedDetails.startTime).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`);
+            // Someone was booked since the slot was checked: show who, with fresh alternatives
+            if (result.created === false) {
+                setParsedDetails({
+                    ...parsedDetails,
+                    isSlotBusy: true,
+                    alternativeSlots: (result.alternatives || []).map((slot: { start: string; end: string }, index: number) => ({
+                        rank: index + 1,
+                        start: slot.start,
+                        end: slot.end,
+                        confidence: 100,
+                        reason: 'All required attendees are free',
+                    })),
+                });
+                onError(`${result.message}: ${[...result.conflict.busyAttendees, ...(result.conflict.unresolved || [])].join(', ')}`);
+                return;
+            }
+
+            alert(`✅ Meeting "${parsedDetails.subject}" scheduled successfully!\n\nAttendees: ${parsedDetails.attendees.join(', ')}${parsedDetails.optionalAttendees?.length ? `\nOptional: ${parsedDetails.optionalAttendees.join(', ')}` : ''}\nTime: ${new Date(parsedDetails.startTime).toLocaleString('en-IN', { timeZone })}${result.onlineMeetingUrl ? `\n\nJoin on Teams: ${result.onlineMeetingUrl}` : ''}`);
 
             setNaturalInput('');
             setParsedDetails(null);
@@ -172,14 +216,32 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                         <div style={{ fontSize: '0.9rem', color: '#4a5568' }}>
                             <p><strong>Subject:</strong> {parsedDetails.subject}</p>
                             <p><strong>Time:</strong> {new Date(parsedDetails.startTime).toLocaleString('en-IN', {
-                                timeZone: 'Asia/Kolkata',
+                                timeZone,
                                 dateStyle: 'medium',
                                 timeStyle: 'short'
                             })} - {new Date(parsedDetails.endTime).toLocaleString('en-IN', {
-                                timeZone: 'Asia/Kolkata',
+                                timeZone,
                                 timeStyle: 'short'
                             })}</p>
                             {parsedDetails.duration && <p><strong>Duration:</strong> {parsedDetails.duration} minutes</p>}
+                            {parsedDetails.recurrenceDescription && (
+                                <p><strong>Repeats:</strong> {parsedDetails.recurrenceDescription}
+                                    {parsedDetails.occurrenceCount !== undefined && ` (${parsedDetails.occurrenceCount} occurrences checked)`}
+                                </p>
+                            )}
+                            {parsedDetails.roomRequest && (
+                                <p><strong>Room:</strong> {parsedDetails.room
+                                    ? `${parsedDetails.room.displayName}${parsedDetails.room.capacity ? ` (${parsedDetails.room.capacity} seats)` : ''}`
+                                    : '⚠️ No matching room is free at this time'}
+                                </p>
+                            )}
+                            <p><strong>Where:</strong> {[
+                                parsedDetails.willBeOnline ? '💻 Teams meeting' : '🤝 In person',
+                                parsedDetails.location,
+                            ].filter(Boolean).join(' · ')}</p>
+                            {parsedDetails.description && (
+                                <p style={{ whiteSpace: 'pre-wrap' }}><strong>Agenda:</strong>{'\n'}{parsedDetails.description}</p>
+                            )}
                         </div>
 
                         <div style={{ marginTop: '1rem' }}>
@@ -202,6 +264,28 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                                             border: '1px solid #e2e8f0'
                                         }}>
                                             <span style={{ flex: 1, fontSize: '0.85rem' }}>{email}</span>
+                                            {parsedDetails.groups?.filter(g => g.email === email).map(g => (
+                                                <span key={g.email} title={g.members.join(', ')} style={{
+                                                    fontSize: '0.75rem',
+                                                    padding: '0.25rem 0.5rem',
+                                                    borderRadius: '4px',
+                                                    background: '#ebf8ff',
+                                                    color: '#2b6cb0'
+                                                }}>
+                                                    👥 {g.members.length}{g.truncated ? '+' : ''} members
+                                                </span>
+                                            ))}
+                                            {parsedDetails.optionalAttendees?.includes(email) && (
+                                                <span style={{
+                                                    fontSize: '0.75rem',
+                                                    padding: '0.25rem 0.5rem',
+                                                    borderRadius: '4px',
+                                                    background: '#e2e8f0',
+                                                    color: '#4a5568'
+                                                }}>
+                                                    Optional
+                                                </span>
+                                            )}
                                             {parsedDetails.availabilityStatus[email] && (
                                                 <span style={{
                                                     fontSize: '0.75rem',
@@ -246,9 +330,22 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                                             }}>
                                                 🌐 External
                                             </span>
+                                            {/* Only external attendees with an attached calendar feed get a status */}
+                                            {parsedDetails.availabilityStatus[email] && (
+                                                <span style={{
+                                                    fontSize: '0.75rem',
+                                                    padding: '0.25rem 0.5rem',
+                                                    borderRadius: '4px',
+                                                    fontWeight: 'bold',
+                                                    background: parsedDetails.availabilityStatus[email] === 'free' ? '#c6f6d5' : '#fed7d7',
+                                                    color: parsedDetails.availabilityStatus[email] === 'free' ? '#22543d' : '#742a2a'
+                                                }}>
+                                                    {parsedDetails.availabilityStatus[email] === 'free' ? '✓ Free' : '✗ Busy'}
+                                                </span>
+                                            )}
                                         </div>
                                     ))}
-                                    <div style={{
+                                    {parsedDetails.externalAttendees.some(email => !parsedDetails.availabilityStatus[email]) && <div style={{
                                         fontSize: '0.75rem',
                                         color: '#744210',
                                         background: '#feebc8',
@@ -256,8 +353,8 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                                         borderRadius: '4px',
                                         marginTop: '0.5rem'
                                     }}>
-                                        ℹ️ Availability not checked for external users
-                                    </div>
+                                        ℹ️ Availability not checked for external users without a calendar feed
+                                    </div>}
                                 </div>
                             )}
                         </div>
@@ -273,7 +370,30 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                                 fontSize: '0.875rem',
                                 fontWeight: 'bold'
                             }}>
-                                ⚠️ Warning: Some internal attendees are busy during this time slot
+                                ⚠️ Warning: Some required internal attendees are busy during this time slot
+                            </div>
+                        )}
+
+                        {parsedDetails.recurrenceConflicts && parsedDetails.recurrenceConflicts.length > 0 && (
+                            <div style={{
+                                marginTop: '1rem',
+                                padding: '0.75rem',
+                                background: '#fff5f5',
+                                border: '2px solid #fc8181',
+                                borderRadius: '6px',
+                                color: '#742a2a',
+                                fontSize: '0.875rem'
+                            }}>
+                                <strong>⚠️ {parsedDetails.recurrenceConflicts.length} occurrence(s) of this series conflict:</strong>
+                                {parsedDetails.recurrenceConflicts.map((conflict) => (
+                                    <div key={conflict.start} style={{ fontSize: '0.8rem', marginTop: '0.25rem' }}>
+                                        {new Date(conflict.start).toLocaleString('en-IN', {
+                                            timeZone,
+                                            dateStyle: 'medium',
+                                            timeStyle: 'short'
+                                        })} – busy: {conflict.busyAttendees.join(', ')}
+                                    </div>
+                                ))}
                             </div>
                         )}
 
@@ -283,7 +403,7 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                                     🕐 Alternative Time Slots
                                 </h4>
                                 <div style={{ fontSize: '0.75rem', color: '#718096', marginBottom: '0.5rem' }}>
-                                    Here are some available times when everyone is free:
+                                    Here are some available times when all required attendees are free:
                                 </div>
                                 {parsedDetails.alternativeSlots.map((slot) => (
                                     <div
@@ -298,12 +418,15 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                                             transition: 'all 0.2s'
                                         }}
                                         onClick={() => {
-                                            if (window.confirm(`Switch to this time slot?\n\n${new Date(slot.start).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'medium', timeStyle: 'short' })} - ${new Date(slot.end).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', timeStyle: 'short' })}`)) {
+                                            if (window.confirm(`Switch to this time slot?\n\n${new Date(slot.start).toLocaleString('en-IN', { timeZone, dateStyle: 'medium', timeStyle: 'short' })} - ${new Date(slot.end).toLocaleString('en-IN', { timeZone, timeStyle: 'short' })}`)) {
                                                 setParsedDetails({
                                                     ...parsedDetails,
                                                     startTime: slot.start,
                                                     endTime: slot.end,
                                                     isSlotBusy: false,
+                                                    recurrenceConflicts: slot.recurrenceConflicts,
+                                                    room: slot.room,
+                                                    roomUnavailable: false,
                                                     alternativeSlots: []
                                                 });
                                             }
@@ -324,17 +447,28 @@ export default function SimpleMode({ onError, onSuccess }: SimpleModeProps) {
                                                 </div>
                                                 <div style={{ color: '#4a5568', fontSize: '0.8rem', marginTop: '0.25rem' }}>
                                                     📅 {new Date(slot.start).toLocaleString('en-IN', {
-                                                        timeZone: 'Asia/Kolkata',
+                                                        timeZone,
                                                         dateStyle: 'medium',
                                                         timeStyle: 'short'
                                                     })} - {new Date(slot.end).toLocaleString('en-IN', {
-                                                        timeZone: 'Asia/Kolkata',
+                                                        timeZone,
                                                         timeStyle: 'short'
-                                                    })} IST
+                                                    })} {timeZoneLabel(new Date(slot.start), timeZone)}
                                                 </div>
                                                 <div style={{ color: '#718096', fontSize: '0.75rem', marginTop: '0.25rem' }}>
                                                     {slot.reason}
                                                 </div>
+                                                {slot.room && (
+                                                    <div style={{ color: '#718096', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                                                        🏢 {slot.room.displayName}
+                                                    </div>
+                                                )}
+                                                {slot.optionalAttendees && slot.optionalAttendees.available.length + slot.optionalAttendees.unavailable.length > 0 && (
+                                                    <div style={{ color: '#718096', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                                                        Optional: {slot.optionalAttendees.available.length} can attend
+                                                        {slot.optionalAttendees.unavailable.length > 0 && ` (can't: ${slot.optionalAttendees.unavailable.join(', ')})`}
+                                                    </div>
+                                                )}
                                             </div>
                                             <div style={{
                                                 fontSize: '0.75rem',
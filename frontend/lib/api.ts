@@ -28,34 +28,158 @@ export interface Attendee {
     type?: 'Required' | 'Optional';
 }
 
+export interface OptionalAttendeeAvailability {
+    available: string[];
+    unavailable: string[];
+}
+
 export interface MeetingSuggestion {
     rank: number;
     start: string;
     end: string;
-    score: number;
-    reason: string;
+    score: number; // 0-1
+    reason: string; // why it ranks here, from the ranking agent (or the deterministic fallback)
+    available?: boolean; // false when occurrences of a series conflict
+    optionalAttendees?: OptionalAttendeeAvailability;
+    recurrenceConflicts?: RecurrenceConflict[];
+    room?: RoomAssignment;
+}
+
+export interface RoomRequest {
+    email?: string;
+    capacity?: number;
+    building?: string;
+    equipment?: string[];
+}
+
+export interface RoomAssignment {
+    email: string;
+    displayName: string;
+    capacity?: number;
+    building?: string;
+}
+
+export interface ExpandedGroup {
+    email: string;
+    displayName?: string;
+    members: string[];
+    truncated: boolean;
+}
+
+export interface Recurrence {
+    pattern: 'daily' | 'weekly' | 'monthly' | 'yearly';
+    interval?: number;
+    daysOfWeek?: string[];
+    endDate?: string;
+    occurrences?: number;
+}
+
+export interface RecurrenceConflict {
+    start: string;
+    end: string;
+    busyAttendees: string[];
 }
 
 export interface SuggestMeetingsParams {
     attendees: Attendee[];
     start: string;
     end: string;
+    recurrence?: Recurrence;
+    room?: RoomRequest;
 }
 
 export interface ScheduleMeetingParams extends SuggestMeetingsParams {
     subject?: string;
     organizer?: string;
     createIfFree?: boolean;
+    isOnlineMeeting?: boolean; // Teams link; the organization default applies when omitted
+    description?: string; // agenda in markdown
+    location?: string;
+    idempotencyKey?: string; // sent as the Idempotency-Key header
+}
+
+export interface WorkingHoursPolicy {
+    timeZone: string;
+    workDayStart: string;
+    workDayEnd: string;
+    workDays: number[];
+}
+
+export interface WorkingWindow {
+    date: string;
+    timeZone: string;
+    start: string;
+    end: string;
+    isWorkingDay: boolean;
+}
+
+export type PollAnswer = 'yes' | 'maybe' | 'no';
+
+export interface CreatePollParams {
+    subject: string;
+    attendees: Attendee[];
+    slots: { start: string; end: string }[]; // 3-5 candidates that work internally
+    description?: string;
+    location?: string;
+    isOnlineMeeting?: boolean;
+    holdSlots?: boolean;
+    closesAt?: string;
+}
+
+export interface PollForVoter {
+    pollId: number;
+    subject: string;
+    organizer: string;
+    description?: string;
+    location?: string;
+    isOnlineMeeting?: boolean;
+    status: 'open' | 'finalized' | 'cancelled';
+    closesAt: string;
+    voter: { email: string; name?: string };
+    slots: { slotId: number; start: string; end: string; answer?: PollAnswer }[];
 }
 
 export const api = {
     suggestMeetings: async (params: SuggestMeetingsParams): Promise<MeetingSuggestion[]> => {
         const response = await apiClient.post('/scheduling/suggest', params);
+        return response.data.slots;
+    },
+
+    scheduleMeeting: async ({ idempotencyKey, ...params }: ScheduleMeetingParams) => {
+        const response = await apiClient.post('/scheduling/schedule', params, {
+            headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+        });
+        return response.data;
+    },
+
+    getMeetings: async (status?: string) => {
+        const response = await apiClient.get('/scheduling/meetings', { params: { status } });
+        return response.data;
+    },
+
+    getMeeting: async (meetingId: number) => {
+        const response = await apiClient.get(`/scheduling/meetings/${meetingId}`);
         return response.data;
     },
 
-    scheduleMeeting: async (params: ScheduleMeetingParams) => {
-        const response = await apiClient.post('/scheduling/schedule', params);
+    rescheduleMeeting: async (meetingId: number, params: { start: string; end: string; force?: boolean }) => {
+        const response = await apiClient.post(`/scheduling/meetings/${meetingId}/reschedule`, params);
+        return response.data;
+    },
+
+    updateMeeting: async (meetingId: number, params: { subject?: string; attendees?: Attendee[] }) => {
+        const response = await apiClient.patch(`/scheduling/meetings/${meetingId}`, params);
+        return response.data;
+    },
+
+    // iCalendar invite for attendees whose mail system mangles Outlook invites
+    downloadMeetingIcs: async (meetingId: number): Promise<Blob> => {
+        const response = await apiClient.get(`/scheduling/meetings/${meetingId}/ics`, { responseType: 'blob' });
+        return response.data;
+    },
+
+    cancelMeeting: async (meetingId: number, params: { comment?: string; notifyAttendees?: boolean } = {}) => {
+        const response = await apiClient.post(`/scheduling/meetings/${meetingId}/cancel`, params);
         return response.data;
     },
 
@@ -65,6 +189,47 @@ export const api = {
         });
         return response.data;
     },
+
+    createPoll: async (params: CreatePollParams) => {
+        const response = await apiClient.post('/polls', params);
+        return response.data;
+    },
+
+    getPoll: async (pollId: number) => {
+        const response = await apiClient.get(`/polls/${pollId}`);
+        return response.data;
+    },
+
+    finalizePoll: async (pollId: number, slotId: number) => {
+        const response = await apiClient.post(`/polls/${pollId}/finalize`, { slotId });
+        return response.data;
+    },
+
+    cancelPoll: async (pollId: number) => {
+        const response = await apiClient.post(`/polls/${pollId}/cancel`);
+        return response.data;
+    },
+
+    // Public: the token from the poll link is the only credential
+    getPollForVoter: async (token: string): Promise<PollForVoter> => {
+        const response = await apiClient.get(`/polls/vote/${encodeURIComponent(token)}`);
+        return response.data;
+    },
+
+    votePoll: async (token: string, votes: { slotId: number; answer: PollAnswer }[], name?: string): Promise<PollForVoter> => {
+        const response = await apiClient.post(`/polls/vote/${encodeURIComponent(token)}`, { votes, name });
+        return response.data;
+    },
+
+    getWorkingHours: async (): Promise<WorkingHoursPolicy> => {
+        const response = await apiClient.get('/policy/working-hours');
+        return response.data;
+    },
+
+    getWorkingWindow: async (date: string): Promise<WorkingWindow> => {
+        const response = await apiClient.get('/policy/working-hours/window', { params: { date } });
+        return response.data;
+    },
 };
 
 export default apiClient;
@@ -0,0 +1,50 @@
+import { useMsal, useIsAuthenticated } from '@azure/msal-react';
+import { setAuthToken } from './api';
+import { loginRequest } from './msalConfig';
+
+// Offline dev mode: the backend runs against its fake tenant (OFFLINE_MODE=true) and everyone acts as this user
+export const OFFLINE_USER = process.env.NEXT_PUBLIC_OFFLINE_USER || '';
+
+export interface SignedInAccount {
+    name?: string;
+    username: string;
+}
+
+/**
+ * The signed-in user, via MSAL or, in offline mode, the fixed NEXT_PUBLIC_OFFLINE_USER without sign-in.
+ */
+export function useAuth() {
+    const { instance, accounts } = useMsal();
+    const msalAuthenticated = useIsAuthenticated();
+
+    if (OFFLINE_USER) {
+        return {
+            isAuthenticated: true,
+            account: { name: OFFLINE_USER, username: OFFLINE_USER } as SignedInAccount | undefined,
+            // No token: the backend falls back to the organizer in the request body
+            authorize: async () => setAuthToken(null),
+            login: () => undefined,
+            logout: () => undefined,
+        };
+    }
+
+    return {
+        isAuthenticated: msalAuthenticated,
+        account: accounts[0] as SignedInAccount | undefined,
+        /** Acquire a token for the signed-in account and attach it to API requests */
+        authorize: async () => {
+            const response = await instance.acquireTokenSilent({ ...loginRequest, account: accounts[0] });
+            setAuthToken(response.accessToken);
+        },
+        login: () => {
+            instance.loginPopup(loginRequest).catch((e) => {
+                console.error('Login failed:', e);
+            });
+        },
+        logout: () => {
+            instance.logoutPopup().catch((e) => {
+                console.error('Logout failed:', e);
+            });
+        },
+    };
+}
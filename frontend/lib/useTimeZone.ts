@@ -0,0 +1,31 @@
+import React from 'react';
+import { api } from './api';
+import { useAuth } from './useAuth';
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * The signed-in user's policy timezone, for showing meeting times. Falls back to the browser's zone until
+ * the policy has loaded or if it can't be read.
+ */
+export function useTimeZone(): string {
+    const { account, authorize } = useAuth();
+    const [timeZone, setTimeZone] = React.useState(browserTimeZone);
+
+    React.useEffect(() => {
+        if (!account) return;
+        authorize()
+            .then(() => api.getWorkingHours())
+            .then((policy) => setTimeZone(policy.timeZone))
+            .catch((err) => console.error('Failed to load timezone policy:', err));
+    }, [account?.username]);
+
+    return timeZone;
+}
+
+/** Short name for a timezone at the given instant, e.g. "GMT+5:30" or "PDT" */
+export function timeZoneLabel(date: Date, timeZone: string): string {
+    return new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+        .formatToParts(date)
+        .find((part) => part.type === 'timeZoneName')?.value || timeZone;
+}
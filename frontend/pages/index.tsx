@@ -1,9 +1,9 @@
 import React from 'react';
-import { useIsAuthenticated } from '@azure/msal-react';
+import { useAuth } from '../lib/useAuth';
 import Layout from '../components/Layout';
 
 export default function Home() {
-    const isAuthenticated = useIsAuthenticated();
+    const { isAuthenticated } = useAuth();
 
     return (
         <Layout>
@@ -0,0 +1,156 @@
+import React from 'react';
+import { useRouter } from 'next/router';
+import { api, PollAnswer, PollForVoter } from '../../lib/api';
+
+const ANSWERS: { value: PollAnswer; label: string; color: string }[] = [
+    { value: 'yes', label: '✅ Yes', color: '#48bb78' },
+    { value: 'maybe', label: '🤔 Maybe', color: '#ed8936' },
+    { value: 'no', label: '❌ No', color: '#e53e3e' },
+];
+
+// Public voting page for external attendees: no sign-in, the link's token identifies the voter
+export default function PollVote() {
+    const router = useRouter();
+    const token = typeof router.query.token === 'string' ? router.query.token : '';
+    const [poll, setPoll] = React.useState<PollForVoter | null>(null);
+    const [answers, setAnswers] = React.useState<Record<number, PollAnswer>>({});
+    const [name, setName] = React.useState('');
+    const [loading, setLoading] = React.useState(false);
+    const [error, setError] = React.useState('');
+    const [saved, setSaved] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!token) return;
+        api.getPollForVoter(token)
+            .then(result => {
+                setPoll(result);
+                setName(result.voter.name || '');
+                setAnswers(Object.fromEntries(result.slots.filter(s => s.answer).map(s => [s.slotId, s.answer!])));
+            })
+            .catch((err: any) => setError(err.response?.data?.message || 'This poll link is invalid'));
+    }, [token]);
+
+    const handleSubmit = async () => {
+        if (!poll) return;
+        setLoading(true);
+        setError('');
+        try {
+            const votes = Object.entries(answers).map(([slotId, answer]) => ({ slotId: Number(slotId), answer }));
+            setPoll(await api.votePoll(token, votes, name || undefined));
+            setSaved(true);
+        } catch (err: any) {
+            setError(err.response?.data?.message || 'Failed to save your answers');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const isOpen = poll?.status === 'open' && new Date(poll.closesAt) > new Date();
+
+    return (
+        <div style={{ minHeight: '100vh', background: '#f7fafc', padding: '2rem' }}>
+            <div style={{
+                maxWidth: '640px',
+                margin: '0 auto',
+                background: 'white',
+                borderRadius: '12px',
+                boxShadow: '0 4px 6px rgba(0,0,0,0.1)',
+                padding: '2rem'
+            }}>
+                {error && (
+                    <div style={{ background: '#fed7d7', color: '#c53030', padding: '0.75rem', borderRadius: '8px', marginBottom: '1rem' }}>
+                        {error}
+                    </div>
+                )}
+                {!poll ? (
+                    !error && <p style={{ color: '#718096' }}>Loading poll...</p>
+                ) : (
+                    <>
+                        <h2 style={{ marginTop: 0, color: '#2d3748' }}>📅 {poll.subject}</h2>
+                        <p style={{ color: '#4a5568', fontSize: '0.9rem' }}>
+                            {poll.organizer} is looking for a time that works for you
+                            {poll.isOnlineMeeting ? ' (Teams meeting)' : poll.location ? ` at ${poll.location}` : ''}.
+                        </p>
+                        {poll.description && (
+                            <p style={{ color: '#4a5568', fontSize: '0.9rem', whiteSpace: 'pre-wrap' }}>{poll.description}</p>
+                        )}
+
+                        {!isOpen ? (
+                            <p style={{ color: '#718096' }}>
+                                {poll.status === 'finalized' ? 'A time has been chosen; you will receive an invitation.' : 'This poll is closed.'}
+                            </p>
+                        ) : (
+                            <>
+                                <label style={{ display: 'block', fontSize: '0.9rem', color: '#4a5568', margin: '1rem 0' }}>
+                                    Your name
+                                    <input
+                                        value={name}
+                                        onChange={e => setName(e.target.value)}
+                                        placeholder={poll.voter.email}
+                                        style={{ display: 'block', width: '100%', marginTop: '0.25rem', padding: '0.5rem', borderRadius: '6px', border: '1px solid #cbd5e0' }}
+                                    />
+                                </label>
+
+                                {poll.slots.map(slot => (
+                                    <div key={slot.slotId} style={{
+                                        display: 'flex',
+                                        justifyContent: 'space-between',
+                                        alignItems: 'center',
+                                        padding: '0.75rem',
+                                        border: '1px solid #e2e8f0',
+                                        borderRadius: '8px',
+                                        marginBottom: '0.5rem'
+                                    }}>
+                                        <span style={{ color: '#2d3748', fontSize: '0.9rem' }}>
+                                            {new Date(slot.start).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                                            {' - '}
+                                            {new Date(slot.end).toLocaleTimeString(undefined, { timeStyle: 'short' })}
+                                        </span>
+                                        <div style={{ display: 'flex', gap: '0.25rem' }}>
+                                            {ANSWERS.map(answer => (
+                                                <button
+                                                    key={answer.value}
+                                                    onClick={() => { setAnswers({ ...answers, [slot.slotId]: answer.value }); setSaved(false); }}
+                                                    style={{
+                                                        padding: '0.25rem 0.5rem',
+                                                        borderRadius: '6px',
+                                                        border: `1px solid ${answer.color}`,
+                                                        background: answers[slot.slotId] === answer.value ? answer.color : 'white',
+                                                        color: answers[slot.slotId] === answer.value ? 'white' : answer.color,
+                                                        cursor: 'pointer',
+                                                        fontSize: '0.8rem'
+                                                    }}
+                                                >
+                                                    {answer.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+
+                                <button
+                                    onClick={handleSubmit}
+                                    disabled={loading || Object.keys(answers).length === 0}
+                                    style={{
+                                        marginTop: '1rem',
+                                        width: '100%',
+                                        padding: '0.75rem',
+                                        background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+                                        color: 'white',
+                                        border: 'none',
+                                        borderRadius: '8px',
+                                        cursor: loading ? 'not-allowed' : 'pointer',
+                                        fontWeight: 'bold'
+                                    }}
+                                >
+                                    {loading ? 'Saving...' : 'Submit answers'}
+                                </button>
+                                {saved && <p style={{ color: '#48bb78', fontSize: '0.9rem' }}>Thanks! Your answers were saved; you can change them until the poll closes.</p>}
+                            </>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,10 +1,10 @@
 import React from 'react';
-import { useIsAuthenticated } from '@azure/msal-react';
+import { useAuth } from '../lib/useAuth';
 import Layout from '../components/Layout';
 import MeetingForm from '../components/MeetingForm';
 
 export default function Schedule() {
-    const isAuthenticated = useIsAuthenticated();
+    const { isAuthenticated } = useAuth();
 
     return (
         <Layout>